@@ -27,7 +27,29 @@ var tsSources = [
     "kernel",
     "session",
     "utils",
-    "serialize"
+    "serialize",
+    "comm",
+    "widgets",
+    "notebookmodel",
+    "undo",
+    "nbupgrade",
+    "contents",
+    "autosave",
+    "mimerender",
+    "ansi",
+    "completer",
+    "pager",
+    "inspector",
+    "selection",
+    "keyboard",
+    "commands",
+    "notebookcommands",
+    "palette",
+    "sanitizer",
+    "trust",
+    "kernelspecs",
+    "kernelselector",
+    "scheduler"
 ].map(function(name) {return "./src/" + name + ".ts"; });
 
 
@@ -13,8 +13,14 @@ For executing, need:
 */
 
 
+import ansi = require("./ansi");
+import completer = require("./completer");
+import inspector = require("./inspector");
 import nbformat = require("./nbformat");
-import mathjaxutils = require("./mathjaxutils");
+import notebookmodel = require("./notebookmodel");
+import selection = require("./selection");
+import scheduler = require("./scheduler");
+import mimerender = require("./mimerender");
 import DOM = phosphor.virtualdom.dom;
 import Component = phosphor.virtualdom.Component;
 import BaseComponent = phosphor.virtualdom.BaseComponent;
@@ -25,40 +31,55 @@ import IMessage = phosphor.core.IMessage;
 
 var div = DOM.div;
 var pre = DOM.pre;
-var img = DOM.img;
 
-class MimeBundleComponent extends Component<nbformat.MimeBundle> {
-  render() {
-    // possible optimization: iterate through 
-    var x: string | string[];
-    if (x = this.data["image/png"]) {
-      return img({src:"data:image/png;base64,"+x})
-    } else if (x = this.data["image/jpg"]) {
-      return img({src:"data:image/jpg;base64,"+x})
-    } else if (x = this.data["text/plain"]) {
-      return pre(x);
-    }
-  }
+/**
+ * The data for an output component: the output, and whether it is trusted.
+ */
+export
+interface IOutputData<T> {
+  output: T;
+  trusted: boolean;
 }
-export var MimeBundle = createFactory(MimeBundleComponent);
 
-class ExecuteResultComponent extends Component<nbformat.ExecuteResult> {
+class ExecuteResultComponent extends Component<IOutputData<nbformat.ExecuteResult>> {
   render() {
-    return MimeBundle(this.data.data);
+    var o = this.data.output;
+    return mimerender.MimeBundle({bundle: o.data, metadata: o.metadata, trusted: this.data.trusted});
   }
 }
 export var ExecuteResult = createFactory(ExecuteResultComponent);
 
-class DisplayDataComponent extends Component<nbformat.DisplayData> {
+class DisplayDataComponent extends Component<IOutputData<nbformat.DisplayData>> {
   render() {
-    return MimeBundle(this.data.data);
+    var o = this.data.output;
+    return mimerender.MimeBundle({bundle: o.data, metadata: o.metadata, trusted: this.data.trusted});
   }
 }
 export var DisplayData = createFactory(DisplayDataComponent);
 
+/**
+ * A component which renders text with ANSI escape sequences, like the
+ * colored tracebacks of IPython.
+ */
+class AnsiTextComponent extends BaseComponent<string> {
+
+  constructor(data: string, children: Elem[]) {
+    super(data, children);
+    this._pre = document.createElement('pre');
+    this.node.appendChild(this._pre);
+  }
+
+  protected onUpdateRequest(msg: IMessage): void {
+    this._pre.innerHTML = ansi.ansiToHTML(this.data);
+  }
+
+  private _pre: HTMLElement;
+}
+export var AnsiText = createFactory(AnsiTextComponent);
+
 class StreamComponent extends Component<nbformat.Stream> {
   render() {
-    return pre(this.data.text);
+    return AnsiText(<string>this.data.text);
   }
 }
 export var Stream = createFactory(StreamComponent);
@@ -66,64 +87,101 @@ export var Stream = createFactory(StreamComponent);
 class JupyterErrorComponent extends Component<nbformat.JupyterError> {
   render() {
     var o = this.data;
-    return pre(o.ename+'\n'+o.evalue+'\n'+(o.traceback.join('\n')));
+    return AnsiText(o.ename+'\n'+o.evalue+'\n'+(o.traceback.join('\n')));
   }
 }
 export var JupyterError = createFactory(JupyterErrorComponent)
 
-// customized renderer example from marked.js readme
-var renderer = new (<any>marked).Renderer();
-renderer.heading = function (text: string, level: number) {
-  var escapedText = text.toLowerCase().replace(/[^\w]+/g, '-');
-  return `<h${level} id="${escapedText}">${text}<a class="anchor-link" href="#${escapedText}">¶</a></h${level}>`;
+/**
+ * The data for a cell component: the cell, the model which owns it,
+ * and the selection of the notebook view.
+ */
+export
+interface ICellData<T extends nbformat.BaseCell> {
+  model: notebookmodel.NotebookModel;
+  selection: selection.NotebookSelection;
+  cell: T;
 }
 
-renderer.unescape = function(html: string): string {
-  // from https://github.com/chjj/marked/blob/2b5802f258c5e23e48366f2377fbb4c807f47658/lib/marked.js#L1085
-  return html.replace(/&([#\w]+);/g, function(_, n) {
-    n = n.toLowerCase();
-    if (n === 'colon') return ':';
-    if (n.charAt(0) === '#') {
-      return n.charAt(1) === 'x'
-        ? String.fromCharCode(parseInt(n.substring(2), 16))
-        : String.fromCharCode(+n.substring(1));
-    }
-    return '';
-  });
+
+/**
+ * The data for a notebook component.
+ */
+export
+interface INotebookData {
+  model: notebookmodel.NotebookModel;
+  selection: selection.NotebookSelection;
 }
 
-renderer.check_url = function(href: string): boolean {
-    try {
-        var prot = decodeURIComponent(this.unescape(href))
-            .replace(/[^\w:]/g, '')
-            .toLowerCase();
-    } catch (e) {
-        return false;
+
+/**
+ * Update the selection classes of the node of a cell component.
+ */
+function renderSelection(node: HTMLElement, data: ICellData<nbformat.BaseCell>): void {
+  var sel = data.selection;
+  var active = sel.isActive(data.cell);
+  node.classList.toggle('ipy-mod-selected', sel.isSelected(data.cell));
+  node.classList.toggle('ipy-mod-active', active);
+  node.classList.toggle('ipy-mod-edit', active && sel.mode === selection.NotebookMode.Edit);
+}
+
+
+/**
+ * Select a cell when it is clicked, extending the selection with Shift.
+ */
+function selectOnClick(node: HTMLElement, data: ICellData<nbformat.BaseCell>): void {
+  node.addEventListener('mousedown', (event: MouseEvent) => {
+    var index = data.model.indexOf(data.cell);
+    if (index === -1) {
+      return;
     }
-    if (prot.indexOf('javascript:') === 0 || prot.indexOf('vbscript:') === 0) {
-        return false;
+    if (event.shiftKey && data.selection.mode === selection.NotebookMode.Command) {
+      data.selection.extendTo(index);
+    } else {
+      data.selection.activeIndex = index;
     }
-    return true;
-};
+  });
+}
 
-renderer.link = function(href: string, title: string, text: string) {
-    //modified from the mark.js source to open all urls in new tabs
-    if (this.options.sanitize && !this.check_url(href)) {
-        return '';
-    }
-    return `<a href="${href}" ${title ? `title="${title}"` : ""} ${href[0] !== "#" ? "target=_blank" : ""}>${text}</a>`;
-};
+class MarkdownCellComponent extends BaseComponent<ICellData<nbformat.MarkdownCell>> {
+
+  constructor(data: ICellData<nbformat.MarkdownCell>, children: Elem[]) {
+    super(data, children);
+    this._model = data.model;
+    this._model.changed.connect(this._onModelChanged, this);
+    this._selection = data.selection;
+    this._selection.changed.connect(this._onSelectionChanged, this);
+    selectOnClick(this.node, data);
+  }
+
+  dispose(): void {
+    this._model.changed.disconnect(this._onModelChanged, this);
+    this._selection.changed.disconnect(this._onSelectionChanged, this);
+    super.dispose();
+  }
 
-class MarkdownCellComponent extends BaseComponent<nbformat.MarkdownCell> {
   onUpdateRequest(msg: IMessage): void {
     // replace the innerHTML of the node with the rendered markdown
-    var t = mathjaxutils.remove_math(this.data.source);
-    marked(t.html, { sanitize: true, renderer: renderer}, (err: any, html: string) => {
-        this.node.innerHTML = mathjaxutils.replace_math(html, t.math);
-        // TODO: do some serious sanitization, using, for example, the caja sanitizer
-        MathJax.Hub.Queue(["Typeset", MathJax.Hub, this.node]);
-    });
+    mimerender.renderMarkdown(this.data.cell.source, this.node);
+    renderSelection(this.node, this.data);
+  }
+
+  private _onSelectionChanged(sender: selection.NotebookSelection, value: void): void {
+    renderSelection(this.node, this.data);
   }
+
+  /**
+   * Re-render when the source of the cell changes.
+   */
+  private _onModelChanged(sender: notebookmodel.NotebookModel, change: notebookmodel.INotebookChange): void {
+    if (change.cell === this.data.cell &&
+        change.type === notebookmodel.ChangeType.SourceChanged) {
+      this.update();
+    }
+  }
+
+  private _model: notebookmodel.NotebookModel;
+  private _selection: selection.NotebookSelection;
 }
 export var MarkdownCell = createFactory(MarkdownCellComponent)
 
@@ -132,43 +190,169 @@ export var MarkdownCell = createFactory(MarkdownCellComponent)
  * We inherit from BaseComponent so that we can explicitly control the rendering.  We want to use the virtual dom to render
  * the output, but we want to explicitly manage the code editor.
 */
-class CodeCellComponent extends BaseComponent<nbformat.CodeCell> {
+class CodeCellComponent extends BaseComponent<ICellData<nbformat.CodeCell>> {
 
-  constructor(data: nbformat.CodeCell, children: Elem[]) {
+  constructor(data: ICellData<nbformat.CodeCell>, children: Elem[]) {
     super(data, children);
+    this.prompt_node = document.createElement('div');
+    this.prompt_node.classList.add("ipy-prompt");
     this.editor_node = document.createElement('div');
     this.editor_node.classList.add("ipy-input")
     this.output_node = document.createElement('div');
+    this.input_node = document.createElement('div');
+    this.node.appendChild(this.prompt_node);
     this.node.appendChild(this.editor_node);
     this.node.appendChild(this.output_node);
+    this.node.appendChild(this.input_node);
 
     this._editor  = CodeMirror(this.editor_node, {
       mode: 'python', 
-      value: this.data.source,
-      lineNumbers: true})
+      value: this.data.cell.source,
+      lineNumbers: true,
+      extraKeys: {
+        'Tab': () => {
+          // indent as usual if there is nothing to complete
+          if (!this._completer.invoke()) return CodeMirror.Pass;
+        },
+        'Shift-Tab': () => { this._inspector.invoke(); }
+      }})
+    // keep the cell up to date with the most recent text in the editor
+    this._editor.on('change', () => {
+      this._syncSource();
+    });
+    this._model = data.model;
+    this._model.changed.connect(this._onModelChanged, this);
+    this._model.scheduler.pendingChanged.connect(this._onPendingChanged, this);
+    var getKernel = () => {
+      var nbSession = this._model.session;
+      return nbSession ? nbSession.kernel : null;
+    };
+    this._completer = new completer.Completer(this._editor, getKernel);
+    this._inspector = new inspector.Inspector(this._editor, getKernel, () => this._model.pager);
+    this._selection = data.selection;
+    this._selection.changed.connect(this._onSelectionChanged, this);
+    selectOnClick(this.node, data);
+    // focusing the editor enters edit mode for the cell
+    this._editor.on('focus', () => {
+      var index = this._model.indexOf(this.data.cell);
+      if (index !== -1) {
+        this._selection.activeIndex = index;
+        this._selection.mode = selection.NotebookMode.Edit;
+      }
+    });
+  }
+
+  dispose(): void {
+    this._model.changed.disconnect(this._onModelChanged, this);
+    this._model.scheduler.pendingChanged.disconnect(this._onPendingChanged, this);
+    this._selection.changed.disconnect(this._onSelectionChanged, this);
+    this._completer.dispose();
+    this._inspector.dispose();
+    super.dispose();
+  }
+
+  /**
+   * Execute the cell using the notebook model.
+   */
+  execute(): void {
+    this._syncSource();
+    this.data.model.scheduler.run([this.data.cell]);
   }
 
   protected onUpdateRequest(msg: IMessage): void {
-    // we could call setValue on the editor itself, but the dts file doesn't recognize it.
-    this._editor.getDoc().setValue(this.data.source);
+    this.renderSource();
+    this.renderPrompt();
+    this.renderOutputs();
+    this.renderInputRequest();
+    this.renderSelection();
+  }
+
+  /**
+   * Update the selection state of the cell, focusing the editor when
+   * the cell enters edit mode.
+   */
+  renderSelection(): void {
+    renderSelection(this.node, this.data);
+    var sel = this._selection;
+    if (sel.isActive(this.data.cell) && sel.mode === selection.NotebookMode.Edit &&
+        !this._editor.hasFocus()) {
+      this._editor.focus();
+    }
+  }
+
+  /**
+   * Update the editor from the cell source.
+   */
+  renderSource(): void {
+    var doc = this._editor.getDoc();
+    // only set the value if it changed, so the cursor is not reset
+    if (doc.getValue() !== this.data.cell.source) {
+      // we could call setValue on the editor itself, but the dts file doesn't recognize it.
+      doc.setValue(this.data.cell.source);
+    }
+  }
+
+  /**
+   * Update the input prompt from the cell execution count.
+   */
+  renderPrompt(): void {
+    var count = this.data.cell.execution_count;
+    if (this._model.scheduler.isPending(this.data.cell)) {
+      this.prompt_node.textContent = 'In [*]:';
+    } else {
+      this.prompt_node.textContent = 'In [' + (count === null ? ' ' : count) + ']:';
+    }
+  }
+
+  /**
+   * Update the output area from the cell outputs.
+   */
+  renderOutputs(): void {
     // we may want to save the refs at some point
     render(this.renderOutput(), this.output_node);
   }
 
+  /**
+   * Show a prompt for the pending input request of the cell, if any.
+   */
+  renderInputRequest(): void {
+    var request = this._model.getInputRequest(this.data.cell);
+    this.input_node.innerHTML = '';
+    if (!request) {
+      return;
+    }
+    var label = document.createElement('span');
+    label.classList.add('ipy-stdin-prompt');
+    label.textContent = request.prompt;
+    var input = document.createElement('input');
+    input.classList.add('ipy-stdin-input');
+    input.type = request.password ? 'password' : 'text';
+    input.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.keyCode === 13) {  // Enter
+        event.preventDefault();
+        this._model.sendInput(this.data.cell, input.value);
+      }
+    });
+    this.input_node.appendChild(label);
+    this.input_node.appendChild(input);
+    input.focus();
+  }
+
   protected onAfterAttach(msg: IMessage): void {
     this._editor.refresh();
   }
   renderOutput(): Elem[] {
     var r: Elem[] = [];
-    var outputs: nbformat.Output[] = this.data.outputs;
+    var outputs: nbformat.Output[] = this.data.cell.outputs;
     for(var i = 0; i < outputs.length; i++) {
       var x = outputs[i];
+      var trusted = this._model.isOutputTrusted(x);
       switch(x.output_type) {
         case "execute_result": 
-          r.push(ExecuteResult(<nbformat.ExecuteResult>x)); 
+          r.push(ExecuteResult({output: <nbformat.ExecuteResult>x, trusted: trusted}));
           break;
         case "display_data": 
-          r.push(DisplayData(<nbformat.DisplayData>x)); 
+          r.push(DisplayData({output: <nbformat.DisplayData>x, trusted: trusted}));
           break;
         case "stream": 
           r.push(Stream(<nbformat.Stream>x)); 
@@ -181,28 +365,110 @@ class CodeCellComponent extends BaseComponent<nbformat.CodeCell> {
     return r;
   }
 
+  /**
+   * Push the editor text into the model.
+   */
+  private _syncSource(): void {
+    var value = this._editor.getDoc().getValue();
+    var index = this._model.indexOf(this.data.cell);
+    if (index !== -1) {
+      this._model.setSource(index, value);
+    }
+  }
+
+  private _onSelectionChanged(sender: selection.NotebookSelection, value: void): void {
+    this.renderSelection();
+  }
+
+  /**
+   * Update the parts of the cell affected by a model change.
+   */
+  private _onModelChanged(sender: notebookmodel.NotebookModel, change: notebookmodel.INotebookChange): void {
+    if (change.type === notebookmodel.ChangeType.TrustChanged) {
+      this.renderOutputs();
+      return;
+    }
+    if (change.cell !== this.data.cell) {
+      return;
+    }
+    switch (change.type) {
+      case notebookmodel.ChangeType.SourceChanged:
+        this.renderSource();
+        break;
+      case notebookmodel.ChangeType.ExecutionCountChanged:
+        this.renderPrompt();
+        break;
+      case notebookmodel.ChangeType.OutputsChanged:
+      case notebookmodel.ChangeType.OutputAppended:
+      case notebookmodel.ChangeType.OutputChanged:
+        this.renderOutputs();
+        break;
+      case notebookmodel.ChangeType.InputRequestChanged:
+        this.renderInputRequest();
+        break;
+    }
+  }
+
+  private _onPendingChanged(sender: scheduler.ExecutionScheduler, cell: nbformat.CodeCell): void {
+    if (cell === this.data.cell) {
+      this.renderPrompt();
+    }
+  }
+
+  prompt_node: HTMLElement;
   editor_node: HTMLElement;
   output_node: HTMLElement;
+  input_node: HTMLElement;
   _editor: CodeMirror.Editor;
+  private _completer: completer.Completer;
+  private _inspector: inspector.Inspector;
+  private _model: notebookmodel.NotebookModel;
+  private _selection: selection.NotebookSelection;
 }
 export var CodeCell = createFactory(CodeCellComponent);
 
-class NotebookComponent extends Component<nbformat.Notebook> {
+/**
+ * The notebook only re-renders its list of cells on structural changes,
+ * the cell components update themselves for changes within a cell.
+ */
+class NotebookComponent extends Component<INotebookData> {
+
+  constructor(data: INotebookData, children: Elem[]) {
+    super(data, children);
+    this._model = data.model;
+    this._model.changed.connect(this._onModelChanged, this);
+  }
+
+  dispose(): void {
+    this._model.changed.disconnect(this._onModelChanged, this);
+    super.dispose();
+  }
+
   render() {
-    var cells = this.data.cells;
+    var model = this.data.model;
+    var sel = this.data.selection;
+    var cells = model.notebook.cells;
     var r: Elem[] = [];
     for(var i = 0; i < cells.length; i++) {
       var c = cells[i];
       switch(c.cell_type) {
         case "code":
-          r.push(CodeCell(<nbformat.CodeCell>c));
+          r.push(CodeCell({model: model, selection: sel, cell: <nbformat.CodeCell>c}));
           break;
         case "markdown":
-          r.push(MarkdownCell(<nbformat.MarkdownCell>c));
+          r.push(MarkdownCell({model: model, selection: sel, cell: <nbformat.MarkdownCell>c}));
           break;
         }
     }
     return r;
   }
+
+  private _onModelChanged(sender: notebookmodel.NotebookModel, change: notebookmodel.INotebookChange): void {
+    if (notebookmodel.isStructuralChange(change)) {
+      this.update();
+    }
+  }
+
+  private _model: notebookmodel.NotebookModel;
 }
 export var Notebook = createFactory(NotebookComponent);
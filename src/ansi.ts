@@ -0,0 +1,241 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+
+/**
+ * The names of the 8 basic ANSI colors, used in the css class names.
+ *
+ * The bright variants use the `-intense` class names.
+ */
+var ANSI_COLORS = ['black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white'];
+
+
+/**
+ * The intensities of the 6x6x6 color cube of the 256 color palette.
+ */
+var CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+
+/**
+ * A regular expression matching ANSI escape sequences.
+ *
+ * Only the SGR (`m`) sequences are rendered, any other CSI or OSC
+ * sequences, like cursor movements or window titles, are dropped.
+ */
+var ANSI_PATTERN = /\x1b\[([\d;]*)([A-Za-z])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][A-Za-z0-9]/g;
+
+
+/**
+ * The text style set by the ANSI sequences seen so far.
+ *
+ * A color is either the css class of a palette color, or a css
+ * `rgb()` color for the 256 color and truecolor palettes.
+ */
+interface IAnsiState {
+  fg: string;
+  bg: string;
+  bold: boolean;
+  underline: boolean;
+}
+
+
+/**
+ * Convert text with ANSI escape sequences into HTML.
+ *
+ * The text is escaped, and styled runs of text are wrapped in spans.
+ * The 16 basic colors use the `ansi-<color>-fg` and `ansi-<color>-bg`
+ * css classes (`ansi-<color>-intense-fg` for the bright colors), while
+ * the 256 color and truecolor palettes use inline styles. Bold and
+ * underlined text use the `ansi-bold` and `ansi-underline` classes.
+ */
+export
+function ansiToHTML(text: string): string {
+  var state = resetState();
+  var out: string[] = [];
+  var last = 0;
+  var match: RegExpExecArray;
+  ANSI_PATTERN.lastIndex = 0;
+  while ((match = ANSI_PATTERN.exec(text)) !== null) {
+    pushText(out, text.slice(last, match.index), state);
+    last = ANSI_PATTERN.lastIndex;
+    if (match[2] === 'm') {
+      applyCodes(state, match[1]);
+    }
+  }
+  pushText(out, text.slice(last), state);
+  return out.join('');
+}
+
+
+/**
+ * Remove the ANSI escape sequences from text.
+ */
+export
+function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+
+/**
+ * Escape the HTML special characters of text.
+ */
+export
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;')
+             .replace(/</g, '&lt;')
+             .replace(/>/g, '&gt;')
+             .replace(/"/g, '&quot;')
+             .replace(/'/g, '&#39;');
+}
+
+
+/**
+ * Create the default text style.
+ */
+function resetState(): IAnsiState {
+  return { fg: null, bg: null, bold: false, underline: false };
+}
+
+
+/**
+ * Push a run of text with the current style.
+ */
+function pushText(out: string[], text: string, state: IAnsiState): void {
+  if (!text) {
+    return;
+  }
+  var classes: string[] = [];
+  var styles: string[] = [];
+  addColor(state.fg, 'fg', 'color', classes, styles);
+  addColor(state.bg, 'bg', 'background-color', classes, styles);
+  if (state.bold) {
+    classes.push('ansi-bold');
+  }
+  if (state.underline) {
+    classes.push('ansi-underline');
+  }
+  if (classes.length === 0 && styles.length === 0) {
+    out.push(escapeHTML(text));
+    return;
+  }
+  var attrs = '';
+  if (classes.length) {
+    attrs += ' class="' + classes.join(' ') + '"';
+  }
+  if (styles.length) {
+    attrs += ' style="' + styles.join('; ') + '"';
+  }
+  out.push('<span' + attrs + '>' + escapeHTML(text) + '</span>');
+}
+
+
+/**
+ * Add the class or inline style for a color.
+ */
+function addColor(color: string, suffix: string, property: string, classes: string[], styles: string[]): void {
+  if (!color) {
+    return;
+  }
+  if (color.indexOf('rgb(') === 0) {
+    styles.push(property + ': ' + color);
+  } else {
+    classes.push(color + '-' + suffix);
+  }
+}
+
+
+/**
+ * Update the text style from the parameters of an SGR sequence.
+ */
+function applyCodes(state: IAnsiState, params: string): void {
+  // an empty sequence is a reset
+  var codes = params ? params.split(';').map(code => code ? parseInt(code, 10) : 0) : [0];
+  for (var i = 0; i < codes.length; i++) {
+    var code = codes[i];
+    if (code === 0) {
+      var reset = resetState();
+      state.fg = reset.fg;
+      state.bg = reset.bg;
+      state.bold = reset.bold;
+      state.underline = reset.underline;
+    } else if (code === 1) {
+      state.bold = true;
+    } else if (code === 22) {
+      state.bold = false;
+    } else if (code === 4) {
+      state.underline = true;
+    } else if (code === 24) {
+      state.underline = false;
+    } else if (code >= 30 && code <= 37) {
+      state.fg = paletteColor(code - 30);
+    } else if (code >= 90 && code <= 97) {
+      state.fg = paletteColor(code - 90 + 8);
+    } else if (code === 39) {
+      state.fg = null;
+    } else if (code >= 40 && code <= 47) {
+      state.bg = paletteColor(code - 40);
+    } else if (code >= 100 && code <= 107) {
+      state.bg = paletteColor(code - 100 + 8);
+    } else if (code === 49) {
+      state.bg = null;
+    } else if (code === 38 || code === 48) {
+      var color: string = null;
+      if (codes[i + 1] === 5) {
+        color = paletteColor(codes[i + 2]);
+        i += 2;
+      } else if (codes[i + 1] === 2) {
+        color = rgbColor(codes[i + 2], codes[i + 3], codes[i + 4]);
+        i += 4;
+      } else {
+        // malformed extended color, ignore the rest of the sequence
+        break;
+      }
+      if (code === 38) {
+        state.fg = color;
+      } else {
+        state.bg = color;
+      }
+    }
+  }
+}
+
+
+/**
+ * Get a color of the 256 color palette.
+ *
+ * The first 16 colors are the basic colors, styled with css classes.
+ */
+function paletteColor(index: number): string {
+  if (typeof index !== 'number' || isNaN(index) || index < 0 || index > 255) {
+    return null;
+  }
+  if (index < 8) {
+    return 'ansi-' + ANSI_COLORS[index];
+  }
+  if (index < 16) {
+    return 'ansi-' + ANSI_COLORS[index - 8] + '-intense';
+  }
+  if (index < 232) {
+    index -= 16;
+    return rgbColor(CUBE_LEVELS[Math.floor(index / 36)],
+                    CUBE_LEVELS[Math.floor(index / 6) % 6],
+                    CUBE_LEVELS[index % 6]);
+  }
+  var grey = 8 + (index - 232) * 10;
+  return rgbColor(grey, grey, grey);
+}
+
+
+/**
+ * Get a css color for a truecolor value.
+ */
+function rgbColor(r: number, g: number, b: number): string {
+  var values = [r, g, b];
+  for (var i = 0; i < values.length; i++) {
+    if (typeof values[i] !== 'number' || isNaN(values[i])) {
+      return null;
+    }
+    values[i] = Math.max(0, Math.min(255, values[i]));
+  }
+  return 'rgb(' + values.join(', ') + ')';
+}
@@ -1,3 +1,8 @@
+import commands = require("./commands");
+import keyboard = require("./keyboard");
+import notebookcommands = require("./notebookcommands");
+import palette = require("./palette");
+import selection = require("./selection");
 import Bootstrapper = phosphor.shell.Bootstrapper;
 
 export
@@ -7,6 +12,90 @@ class NotebookApplication extends Bootstrapper {
             // Notebook
         ]);
     }
+
+    /**
+     * Get the command registry of the application.
+     *
+     * All the actions of the application are registered here, and the
+     * keyboard shortcuts and the command palette run them by id.
+     */
+    get commands(): commands.CommandRegistry {
+        return this._commands;
+    }
+
+    /**
+     * Get the command palette of the application.
+     */
+    get palette(): palette.CommandPalette {
+        return this._palette;
+    }
+
+    /**
+     * Get the keyboard manager of the open notebook, if any.
+     */
+    get keyboard(): keyboard.KeyboardManager {
+        return this._keyboard;
+    }
+
+    /**
+     * Register the commands of a notebook and handle its keyboard
+     * shortcuts on the given node.
+     *
+     * The previously open notebook, if any, is disposed along with
+     * its model, so it stops listening to its kernel.
+     */
+    openNotebook(node: HTMLElement, context: notebookcommands.INotebookContext): void {
+        this._ensureCommands();
+        if (this._notebookCommands) {
+            this._notebookCommands.dispose();
+            this._keyboard.dispose();
+            this._disposeContext(this._context);
+        }
+        this._context = context;
+        this._notebookCommands = notebookcommands.registerNotebookCommands(this._commands, context);
+        this._keyboard = new keyboard.KeyboardManager(node, context.selection, this._commands);
+    }
+
+    /**
+     * Dispose of the objects of a notebook which is no longer open.
+     */
+    private _disposeContext(context: notebookcommands.INotebookContext): void {
+        if (context.saver) {
+            context.saver.dispose();
+        }
+        if (context.history) {
+            context.history.dispose();
+        }
+        context.selection.dispose();
+        context.model.dispose();
+    }
+
+    /**
+     * Create the application commands and the palette on first use.
+     */
+    private _ensureCommands(): void {
+        if (this._palette) {
+            return;
+        }
+        this._palette = new palette.CommandPalette(this._commands, (id: string) => {
+            if (!this._keyboard) {
+                return '';
+            }
+            return this._keyboard.keysFor(selection.NotebookMode.Command, id).join(' / ');
+        });
+        this._commands.add({
+            id: 'palette:toggle',
+            label: 'Toggle Command Palette',
+            category: 'Application',
+            execute: () => { this._palette.toggle(); }
+        });
+    }
+
+    private _commands = new commands.CommandRegistry();
+    private _palette: palette.CommandPalette = null;
+    private _keyboard: keyboard.KeyboardManager = null;
+    private _notebookCommands: phosphor.utility.IDisposable = null;
+    private _context: notebookcommands.INotebookContext = null;
 }
 
 console.log('loaded app');
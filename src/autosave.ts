@@ -0,0 +1,296 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import contents = require('./contents');
+import nbformat = require('./nbformat');
+import notebookmodel = require('./notebookmodel');
+
+import ISignal = phosphor.core.ISignal;
+import signal = phosphor.core.signal;
+import IContentsModel = contents.IContentsModel;
+import NotebookModel = notebookmodel.NotebookModel;
+
+
+/**
+ * The default autosave interval, in milliseconds.
+ */
+var DEFAULT_AUTOSAVE_INTERVAL = 120000;
+
+
+/**
+ * Get a logger for notebook saving.
+ */
+var save_log = Logger.get('autosave');
+
+
+/**
+ * Notebook saver initialization options.
+ */
+export
+interface ISaverOptions {
+  /**
+   * The path of the notebook in the contents service.
+   */
+  path: string;
+
+  /**
+   * The `last_modified` time of the notebook when it was loaded.
+   */
+  lastModified: string;
+
+  /**
+   * The autosave interval in milliseconds, `0` to disable autosave.
+   */
+  autosaveInterval?: number;
+}
+
+
+/**
+ * A notebook loaded from the contents service.
+ */
+export
+interface ILoadedNotebook {
+  notebook: nbformat.Notebook;
+  model: IContentsModel;
+}
+
+
+/**
+ * Load a notebook from the contents service.
+ */
+export
+function loadNotebook(service: contents.Contents, path: string): Promise<ILoadedNotebook> {
+  return service.get(path, { type: 'notebook' }).then((model: IContentsModel) => {
+    return { notebook: nbformat.fromDisk(model.content), model: model };
+  });
+}
+
+
+/**
+ * An object which saves a notebook model to the contents service.
+ *
+ * The notebook is saved periodically when it is dirty. Before each
+ * save, the `last_modified` time of the file on the server, if there
+ * is one, is checked against the time of the last load or save; if
+ * the file changed on disk, the saver enters the `conflict` state and
+ * stops saving until the conflict is resolved with `overwrite` or
+ * `reload`.
+ *
+ * The `statusChanged` signal is emitted with one of `saving`, `saved`,
+ * `saveFailed`, `conflict` or `reloaded`.
+ */
+export
+class NotebookSaver {
+
+  /**
+   * A signal emitted when the save status changes.
+   */
+  @signal
+  statusChanged: ISignal<string>;
+
+  /**
+   * Construct a new notebook saver.
+   */
+  constructor(model: NotebookModel, service: contents.Contents, options: ISaverOptions) {
+    this._model = model;
+    this._contents = service;
+    this._path = options.path;
+    this._lastModified = options.lastModified;
+    this._model.changed.connect(this._onModelChanged, this);
+    if (options.autosaveInterval !== void 0) {
+      this.autosaveInterval = options.autosaveInterval;
+    } else {
+      this.autosaveInterval = DEFAULT_AUTOSAVE_INTERVAL;
+    }
+  }
+
+  /**
+   * Get the path of the notebook.
+   */
+  get path(): string {
+    return this._path;
+  }
+
+  /**
+   * Set the path of the notebook, like after a rename.
+   */
+  set path(value: string) {
+    this._path = value;
+  }
+
+  /**
+   * Get the `last_modified` time of the last load or save.
+   */
+  get lastModified(): string {
+    return this._lastModified;
+  }
+
+  /**
+   * Get the current save status.
+   */
+  get status(): string {
+    return this._status;
+  }
+
+  /**
+   * Test whether the saver is waiting for a conflict to be resolved.
+   */
+  get inConflict(): boolean {
+    return this._status === 'conflict';
+  }
+
+  /**
+   * Get the autosave interval in milliseconds.
+   */
+  get autosaveInterval(): number {
+    return this._interval;
+  }
+
+  /**
+   * Set the autosave interval in milliseconds, `0` to disable autosave.
+   */
+  set autosaveInterval(value: number) {
+    this._interval = Math.max(0, value);
+    if (this._timer !== -1) {
+      clearInterval(this._timer);
+      this._timer = -1;
+    }
+    if (this._interval > 0) {
+      this._timer = setInterval(() => { this._autosave(); }, this._interval);
+    }
+  }
+
+  /**
+   * Save the notebook, unless the file changed on disk.
+   *
+   * Resolves with `true` if the notebook was saved, and `false` if
+   * a conflict was detected.
+   */
+  save(): Promise<boolean> {
+    if (this.inConflict) {
+      return Promise.resolve(false);
+    }
+    if (this._pending) {
+      return this._pending;
+    }
+    this._handleStatus('saving');
+    this._pending = this._contents.getInfo(this._path).then(
+      (model: IContentsModel) => {
+        // a notebook which was never saved has no file to conflict with
+        if (model && model.last_modified !== this._lastModified) {
+          save_log.warn('Notebook changed on disk: ' + this._path);
+          this._handleStatus('conflict');
+          return false;
+        }
+        return this._write();
+      }).then((saved: boolean) => {
+        this._pending = null;
+        return saved;
+      }, (error: Error): any => {
+        this._pending = null;
+        this._handleStatus('saveFailed');
+        throw error;
+      });
+    return this._pending;
+  }
+
+  /**
+   * Resolve a conflict by saving over the file on disk.
+   */
+  overwrite(): Promise<boolean> {
+    if (this._pending) {
+      return this._pending.then(() => this.overwrite());
+    }
+    this._handleStatus('saving');
+    this._pending = this._write().then((saved: boolean) => {
+      this._pending = null;
+      return saved;
+    }, (error: Error): any => {
+      this._pending = null;
+      this._handleStatus('saveFailed');
+      throw error;
+    });
+    return this._pending;
+  }
+
+  /**
+   * Resolve a conflict by discarding the local changes and loading
+   * the file from disk.
+   */
+  reload(): Promise<void> {
+    return loadNotebook(this._contents, this._path).then((loaded: ILoadedNotebook) => {
+      this._lastModified = loaded.model.last_modified;
+      this._model.replaceNotebook(loaded.notebook);
+      this._model.dirty = false;
+      this._changedDuringSave = false;
+      this._handleStatus('reloaded');
+    });
+  }
+
+  /**
+   * Stop autosaving and tracking the model.
+   */
+  dispose(): void {
+    this.autosaveInterval = 0;
+    this._model.changed.disconnect(this._onModelChanged, this);
+  }
+
+  /**
+   * Write the notebook to the contents service.
+   */
+  private _write(): Promise<boolean> {
+    this._changedDuringSave = false;
+    var model: IContentsModel = {
+      name: this._path.split('/').pop(),
+      path: this._path,
+      type: 'notebook',
+      content: nbformat.toDiskJSON(this._model.signedNotebook())
+    };
+    return this._contents.save(this._path, model).then((saved: IContentsModel) => {
+      this._lastModified = saved.last_modified;
+      if (!this._changedDuringSave) {
+        this._model.dirty = false;
+      }
+      this._handleStatus('saved');
+      return true;
+    });
+  }
+
+  /**
+   * Save the notebook if it is dirty.
+   */
+  private _autosave(): void {
+    if (!this._model.dirty || this.inConflict || this._pending) {
+      return;
+    }
+    this.save().catch((error: Error) => {
+      save_log.error('Autosave failed: ' + error.message);
+    });
+  }
+
+  /**
+   * Handle a change of the notebook model.
+   */
+  private _onModelChanged(sender: NotebookModel, change: notebookmodel.INotebookChange): void {
+    this._changedDuringSave = true;
+  }
+
+  /**
+   * Handle a save status change.
+   */
+  private _handleStatus(status: string): void {
+    this._status = status;
+    this.statusChanged.emit(status);
+    save_log.info('Notebook: ' + status + ' (' + this._path + ')');
+  }
+
+  private _model: NotebookModel = null;
+  private _contents: contents.Contents = null;
+  private _path = 'unknown';
+  private _lastModified = 'unknown';
+  private _status = 'unknown';
+  private _interval = 0;
+  private _timer = -1;
+  private _pending: Promise<boolean> = null;
+  private _changedDuringSave = false;
+}
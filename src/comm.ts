@@ -0,0 +1,378 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import kernel = require('./kernel');
+import utils = require('./utils');
+
+import IDisposable = phosphor.utility.IDisposable;
+import Disposable = phosphor.utility.Disposable;
+import IKernelMsg = kernel.IKernelMsg;
+import IKernelFuture = kernel.IKernelFuture;
+
+
+/**
+ * Get a logger for comm objects.
+ */
+var comm_log = Logger.get('comm');
+
+
+/**
+ * A binary buffer attached to a comm message.
+ */
+export
+type CommBuffer = ArrayBuffer | ArrayBufferView;
+
+
+/**
+ * A handler for a `comm_open` message targeting a registered target.
+ *
+ * The handler is called with the newly created comm and the
+ * `comm_open` message which created it.
+ */
+export
+interface ICommTargetHandler {
+  (comm: Comm, msg: IKernelMsg): void;
+}
+
+
+/**
+ * Content of a `comm_open` message.
+ */
+export
+interface ICommOpen {
+  comm_id: string;
+  target_name: string;
+  data: any;
+  target_module?: string;
+}
+
+
+/**
+ * Manager for the comms attached to a kernel.
+ *
+ * The comm manager receives `comm_open` messages from the kernel and
+ * dispatches them to registered target handlers, and routes `comm_msg`
+ * and `comm_close` messages to the comm they belong to.
+ */
+export
+class CommManager {
+
+  /**
+   * Construct a new comm manager for a kernel.
+   */
+  constructor(kern: kernel.Kernel) {
+    this._kernel = kern;
+    this._comms = new Map<string, Comm>();
+    this._targets = new Map<string, ICommTargetHandler>();
+    this._kernel.commMessage.connect(this._handleMsg, this);
+  }
+
+  /**
+   * Get the kernel used by the comm manager.
+   */
+  get kernel(): kernel.Kernel {
+    return this._kernel;
+  }
+
+  /**
+   * Register a handler for comms opened by the kernel on a target.
+   *
+   * Returns a disposable which will unregister the handler.
+   */
+  registerTarget(targetName: string, handler: ICommTargetHandler): IDisposable {
+    if (this._targets.has(targetName)) {
+      comm_log.warn('Replacing comm target handler: ' + targetName);
+    }
+    this._targets.set(targetName, handler);
+    return new Disposable(() => {
+      if (this._targets.get(targetName) === handler) {
+        this._targets.delete(targetName);
+      }
+    });
+  }
+
+  /**
+   * Unregister the handler for a target.
+   */
+  unregisterTarget(targetName: string): void {
+    this._targets.delete(targetName);
+  }
+
+  /**
+   * Get the comm with the given id, or `undefined`.
+   */
+  getComm(commId: string): Comm {
+    return this._comms.get(commId);
+  }
+
+  /**
+   * Open a new comm from the front end.
+   *
+   * This sends a `comm_open` message to the kernel, which will be
+   * dispatched to the handler registered on the kernel side for
+   * the given target.
+   */
+  newComm(targetName: string, data?: any, metadata?: any, buffers?: CommBuffer[], commId?: string): Comm {
+    var comm = new Comm(this, targetName, commId || utils.uuid());
+    this._register(comm);
+    comm.open(data, metadata, buffers);
+    return comm;
+  }
+
+  /**
+   * Dispose of all open comms and stop listening to the kernel.
+   *
+   * No close messages are sent to the kernel.
+   */
+  dispose(): void {
+    this._kernel.commMessage.disconnect(this._handleMsg, this);
+    this._comms.forEach((comm: Comm) => { comm.dispose(); });
+    this._comms.clear();
+    this._targets.clear();
+  }
+
+  /**
+   * Send a comm message on the kernel's shell channel.
+   *
+   * This should only be called by a comm.
+   */
+  sendMsg(msgType: string, content: any, metadata?: any, buffers?: CommBuffer[]): IKernelFuture {
+    return this._kernel.sendShellMessage(msgType, content, metadata, buffers);
+  }
+
+  /**
+   * Remove a comm from the manager.
+   *
+   * This should only be called by a comm when it is closed.
+   */
+  unregisterComm(comm: Comm): void {
+    if (this._comms.get(comm.commId) === comm) {
+      this._comms.delete(comm.commId);
+    }
+  }
+
+  /**
+   * Add a comm to the manager.
+   */
+  private _register(comm: Comm): void {
+    this._comms.set(comm.commId, comm);
+  }
+
+  /**
+   * Handle a comm message from the kernel.
+   */
+  private _handleMsg(sender: kernel.Kernel, msg: IKernelMsg): void {
+    switch (msg.msgType) {
+      case 'comm_open':
+        this._handleOpen(msg);
+        break;
+      case 'comm_msg':
+        var comm = this._comms.get(msg.content.comm_id);
+        if (comm) {
+          comm.handleMsg(msg);
+        } else {
+          comm_log.warn('Message for unknown comm: ' + msg.content.comm_id);
+        }
+        break;
+      case 'comm_close':
+        var comm = this._comms.get(msg.content.comm_id);
+        if (comm) {
+          comm.handleClose(msg);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Handle a `comm_open` message from the kernel.
+   *
+   * If no handler is registered for the target, the comm is closed
+   * immediately so the kernel can clean up its side.
+   */
+  private _handleOpen(msg: IKernelMsg): void {
+    var content = <ICommOpen>msg.content;
+    var comm = new Comm(this, content.target_name, content.comm_id);
+    var handler = this._targets.get(content.target_name);
+    if (!handler) {
+      comm_log.error('No comm target registered: ' + content.target_name);
+      comm.close();
+      return;
+    }
+    this._register(comm);
+    try {
+      handler(comm, msg);
+    } catch (error) {
+      comm_log.error('Exception opening comm: ' + error.message);
+      comm.close();
+    }
+  }
+
+  private _kernel: kernel.Kernel = null;
+  private _comms: Map<string, Comm> = null;
+  private _targets: Map<string, ICommTargetHandler> = null;
+}
+
+
+/**
+ * A comm: a bidirectional channel to an object in the kernel.
+ *
+ * Only one callback can be registered per type, in the same way as
+ * for an `IKernelFuture`.
+ */
+export
+class Comm extends Disposable {
+
+  /**
+   * Construct a new comm.
+   *
+   * This should not be called directly, use `CommManager.newComm`.
+   */
+  constructor(manager: CommManager, targetName: string, commId: string) {
+    super();
+    this._manager = manager;
+    this._targetName = targetName;
+    this._commId = commId;
+  }
+
+  /**
+   * Get the id of the comm.
+   */
+  get commId(): string {
+    return this._commId;
+  }
+
+  /**
+   * Get the target name of the comm.
+   */
+  get targetName(): string {
+    return this._targetName;
+  }
+
+  /**
+   * Test whether the comm has been closed.
+   */
+  get isClosed(): boolean {
+    return this._isClosed;
+  }
+
+  /**
+   * Register a message handler. Returns `this`.
+   */
+  onMsg(cb: (msg: IKernelMsg) => void): Comm {
+    this._onMsg = cb;
+    return this;
+  }
+
+  /**
+   * Register a close handler. Returns `this`.
+   */
+  onClose(cb: (msg: IKernelMsg) => void): Comm {
+    this._onClose = cb;
+    return this;
+  }
+
+  /**
+   * Send a `comm_open` message to the kernel.
+   */
+  open(data?: any, metadata?: any, buffers?: CommBuffer[]): IKernelFuture {
+    var content: ICommOpen = {
+      comm_id: this._commId,
+      target_name: this._targetName,
+      data: data || {}
+    };
+    return this._manager.sendMsg('comm_open', content, metadata, buffers);
+  }
+
+  /**
+   * Send a `comm_msg` message to the kernel.
+   */
+  send(data: any, metadata?: any, buffers?: CommBuffer[]): IKernelFuture {
+    if (this._isClosed) {
+      throw Error('Comm is closed: ' + this._commId);
+    }
+    var content = {
+      comm_id: this._commId,
+      data: data || {}
+    };
+    return this._manager.sendMsg('comm_msg', content, metadata, buffers);
+  }
+
+  /**
+   * Close the comm, sending a `comm_close` message to the kernel.
+   *
+   * The close handler is called with a locally constructed message.
+   */
+  close(data?: any, metadata?: any, buffers?: CommBuffer[]): IKernelFuture {
+    if (this._isClosed) {
+      return null;
+    }
+    var content = {
+      comm_id: this._commId,
+      data: data || {}
+    };
+    var future: IKernelFuture = null;
+    if (this._manager.kernel.isConnected) {
+      future = this._manager.sendMsg('comm_close', content, metadata, buffers);
+    }
+    this._handleClosed(<IKernelMsg>{
+      header: null,
+      parentHeader: {},
+      metadata: metadata || {},
+      content: content,
+      buffers: buffers || [],
+      msgType: 'comm_close'
+    });
+    return future;
+  }
+
+  /**
+   * Handle a `comm_msg` message from the kernel.
+   */
+  handleMsg(msg: IKernelMsg): void {
+    var cb = this._onMsg;
+    if (cb) cb(msg);
+  }
+
+  /**
+   * Handle a `comm_close` message from the kernel.
+   */
+  handleClose(msg: IKernelMsg): void {
+    if (!this._isClosed) {
+      this._handleClosed(msg);
+    }
+  }
+
+  /**
+   * Dispose of the comm without notifying the kernel.
+   */
+  dispose(): void {
+    this._isClosed = true;
+    this._manager.unregisterComm(this);
+    this._onMsg = null;
+    this._onClose = null;
+    super.dispose();
+  }
+
+  /**
+   * Mark the comm closed, call the close handler, and dispose.
+   */
+  private _handleClosed(msg: IKernelMsg): void {
+    this._isClosed = true;
+    var cb = this._onClose;
+    if (cb) {
+      try {
+        cb(msg);
+      } catch (error) {
+        comm_log.error('Exception closing comm: ' + error.message);
+      }
+    }
+    this.dispose();
+  }
+
+  private _commId = 'unknown';
+  private _targetName = 'unknown';
+  private _isClosed = false;
+  private _manager: CommManager = null;
+  private _onMsg: (msg: IKernelMsg) => void = null;
+  private _onClose: (msg: IKernelMsg) => void = null;
+}
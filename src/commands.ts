@@ -0,0 +1,140 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import ISignal = phosphor.core.ISignal;
+import signal = phosphor.core.signal;
+import IDisposable = phosphor.utility.IDisposable;
+
+
+/**
+ * Get a logger for commands.
+ */
+var commands_log = Logger.get('commands');
+
+
+/**
+ * A command which can be run from the keyboard, a menu or the palette.
+ */
+export
+interface ICommand {
+  /**
+   * The unique id of the command, like `notebook:run-cell`.
+   */
+  id: string;
+
+  /**
+   * The label shown to the user.
+   */
+  label: string;
+
+  /**
+   * The category used to group the command, like `Notebook`.
+   */
+  category: string;
+
+  /**
+   * Test whether the command can currently be run.
+   *
+   * Commands are always enabled if this is not given.
+   */
+  isEnabled?: () => boolean;
+
+  /**
+   * Run the command.
+   */
+  execute: () => void;
+}
+
+
+/**
+ * A registry of the commands of an application.
+ *
+ * Every action is registered once, and all the ways to trigger it
+ * call into the registry by command id.
+ */
+export
+class CommandRegistry {
+
+  /**
+   * A signal emitted when a command is added or removed.
+   */
+  @signal
+  commandsChanged: ISignal<void>;
+
+  /**
+   * Add a command to the registry.
+   *
+   * Throws an error if a command with the same id exists. Disposing
+   * the returned object removes the command.
+   */
+  add(command: ICommand): IDisposable {
+    if (this._commands.has(command.id)) {
+      throw Error('Command already registered: ' + command.id);
+    }
+    this._commands.set(command.id, command);
+    this.commandsChanged.emit(void 0);
+    return new phosphor.utility.Disposable(() => {
+      if (this._commands.get(command.id) === command) {
+        this._commands.delete(command.id);
+        this.commandsChanged.emit(void 0);
+      }
+    });
+  }
+
+  /**
+   * Get a command by id, or `undefined` if it is not registered.
+   */
+  get(id: string): ICommand {
+    return this._commands.get(id);
+  }
+
+  /**
+   * Test whether a command is registered.
+   */
+  has(id: string): boolean {
+    return this._commands.has(id);
+  }
+
+  /**
+   * Get all the registered commands, sorted by category and label.
+   */
+  list(): ICommand[] {
+    var commands: ICommand[] = [];
+    this._commands.forEach((command: ICommand) => { commands.push(command); });
+    return commands.sort((a, b) => {
+      return a.category.localeCompare(b.category) || a.label.localeCompare(b.label);
+    });
+  }
+
+  /**
+   * Test whether a registered command is enabled.
+   */
+  isEnabled(id: string): boolean {
+    var command = this._commands.get(id);
+    if (!command) {
+      return false;
+    }
+    return command.isEnabled ? command.isEnabled() : true;
+  }
+
+  /**
+   * Run a command by id.
+   *
+   * Returns `false` if the command is disabled. Throws an error if
+   * the command is not registered.
+   */
+  execute(id: string): boolean {
+    var command = this._commands.get(id);
+    if (!command) {
+      throw Error('Unknown command: ' + id);
+    }
+    if (!this.isEnabled(id)) {
+      commands_log.debug('Command is disabled: ' + id);
+      return false;
+    }
+    command.execute();
+    return true;
+  }
+
+  private _commands = new Map<string, ICommand>();
+}
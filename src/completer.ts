@@ -0,0 +1,364 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import kernel = require('./kernel');
+import utils = require('./utils');
+
+import IKernelMsg = kernel.IKernelMsg;
+
+
+/**
+ * Get a logger for the completer.
+ */
+var completer_log = Logger.get('completer');
+
+
+/**
+ * A completion suggested by the kernel.
+ */
+export
+interface ICompletionItem {
+  /**
+   * The text inserted by the completion.
+   */
+  text: string;
+
+  /**
+   * The type of the completion, like `function`, or `''` if unknown.
+   */
+  type: string;
+}
+
+
+/**
+ * An object which completes code in a CodeMirror editor using a kernel.
+ *
+ * A `complete_request` is sent when `invoke` is called, usually on Tab.
+ * A single match is inserted directly, otherwise a popup is shown which
+ * is filtered as the user keeps typing. A reply is dropped if the text
+ * or the cursor changed since the request was sent.
+ */
+export
+class Completer {
+
+  /**
+   * Construct a new completer for an editor.
+   *
+   * The kernel is looked up for each request, as it may change over
+   * the life of the editor; no completion is done without a kernel.
+   */
+  constructor(editor: CodeMirror.Editor, getKernel: () => kernel.Kernel) {
+    this._editor = editor;
+    this._getKernel = getKernel;
+    this._keyMap = {
+      'Up': () => { this._select(this._active - 1); },
+      'Down': () => { this._select(this._active + 1); },
+      'PageUp': () => { this._select(this._active - 10); },
+      'PageDown': () => { this._select(this._active + 10); },
+      'Enter': () => { this._accept(); },
+      'Tab': () => { this._accept(); },
+      'Esc': () => { this.close(); }
+    };
+    this._onChange = () => { this._filter(); };
+    this._onBlur = () => { this.close(); };
+    this._onCursor = () => { this._checkCursor(); };
+  }
+
+  /**
+   * Test whether the completion popup is open.
+   */
+  get isOpen(): boolean {
+    return this._node !== null;
+  }
+
+  /**
+   * Request completions at the cursor.
+   *
+   * Returns `false` if no request was sent, like when the cursor is
+   * only preceded by whitespace, so the key can be handled as usual.
+   */
+  invoke(): boolean {
+    var kernel = this._getKernel();
+    var doc = this._editor.getDoc();
+    var cursor = doc.getCursor();
+    var before = doc.getRange({ line: cursor.line, ch: 0 }, cursor);
+    if (!kernel || !/\S$/.test(before)) {
+      return false;
+    }
+    this.close();
+    var code = doc.getValue();
+    var index = doc.indexFromPos(cursor);
+    var request = ++this._requestId;
+    kernel.complete(code, utils.jsIndexToCharIndex(index, code)).onReply((msg: IKernelMsg) => {
+      this._handleReply(msg, request, code, index);
+    });
+    return true;
+  }
+
+  /**
+   * Close the completion popup.
+   */
+  close(): void {
+    if (!this._node) {
+      return;
+    }
+    this._editor.removeKeyMap(this._keyMap);
+    this._editor.off('change', this._onChange);
+    this._editor.off('blur', this._onBlur);
+    this._editor.off('cursorActivity', this._onCursor);
+    if (this._node.parentNode) {
+      this._node.parentNode.removeChild(this._node);
+    }
+    this._node = null;
+    this._items = [];
+    this._shown = [];
+  }
+
+  /**
+   * Close the popup and ignore any pending reply.
+   */
+  dispose(): void {
+    this._requestId++;
+    this.close();
+  }
+
+  /**
+   * Handle a `complete_reply` from the kernel.
+   */
+  private _handleReply(msg: IKernelMsg, request: number, code: string, index: number): void {
+    var doc = this._editor.getDoc();
+    // drop the reply if the user typed more or moved in the meantime
+    if (request !== this._requestId ||
+        doc.getValue() !== code ||
+        doc.indexFromPos(doc.getCursor()) !== index) {
+      completer_log.debug('Dropping stale completion reply');
+      return;
+    }
+    var content = msg.content;
+    if (content.status !== 'ok') {
+      return;
+    }
+    var start = utils.charIndexToJsIndex(content.cursor_start, code);
+    var end = utils.charIndexToJsIndex(content.cursor_end, code);
+    var items = completionItems(content);
+    if (items.length === 0) {
+      return;
+    }
+    this._from = doc.posFromIndex(start);
+    // the text after the cursor which the completion replaces
+    this._tail = Math.max(0, end - index);
+    if (items.length === 1) {
+      this._insert(items[0].text);
+      return;
+    }
+    // complete the common prefix of the matches right away
+    var prefix = commonPrefix(items.map(item => item.text));
+    if (prefix.length > index - start) {
+      this._insert(prefix, false);
+    }
+    this._open(items);
+  }
+
+  /**
+   * Show the popup for a list of completions.
+   */
+  private _open(items: ICompletionItem[]): void {
+    this._items = items;
+    this._node = document.createElement('ul');
+    this._node.className = 'ipy-completer';
+    // keep the focus in the editor when clicking the popup
+    this._node.addEventListener('mousedown', (event: MouseEvent) => {
+      event.preventDefault();
+      var target = <HTMLElement>event.target;
+      while (target && target !== this._node) {
+        var index = this._nodes.indexOf(target);
+        if (index !== -1) {
+          this._select(index);
+          this._accept();
+          return;
+        }
+        target = <HTMLElement>target.parentNode;
+      }
+    });
+    var coords = this._editor.cursorCoords(this._from, 'page');
+    this._node.style.left = coords.left + 'px';
+    this._node.style.top = coords.bottom + 'px';
+    document.body.appendChild(this._node);
+    this._editor.addKeyMap(this._keyMap);
+    this._editor.on('change', this._onChange);
+    this._editor.on('blur', this._onBlur);
+    this._editor.on('cursorActivity', this._onCursor);
+    this._filter();
+  }
+
+  /**
+   * Show the completions matching the text typed since the request.
+   */
+  private _filter(): void {
+    if (!this._node) {
+      return;
+    }
+    var typed = this._typed();
+    if (typed === null) {
+      this.close();
+      return;
+    }
+    this._shown = this._items.filter(item => item.text.indexOf(typed) === 0);
+    if (this._shown.length === 0) {
+      this.close();
+      return;
+    }
+    this._node.innerHTML = '';
+    this._nodes = this._shown.map(item => {
+      var li = document.createElement('li');
+      var text = document.createElement('span');
+      text.className = 'ipy-completer-text';
+      text.textContent = item.text;
+      li.appendChild(text);
+      if (item.type) {
+        var type = document.createElement('span');
+        type.className = 'ipy-completer-type';
+        type.textContent = item.type;
+        li.appendChild(type);
+      }
+      this._node.appendChild(li);
+      return li;
+    });
+    this._select(0);
+  }
+
+  /**
+   * Close the popup if the cursor left the completed token.
+   */
+  private _checkCursor(): void {
+    if (this._typed() === null) {
+      this.close();
+    }
+  }
+
+  /**
+   * Get the text typed between the start of the completion and the
+   * cursor, or `null` if the cursor moved before the start.
+   */
+  private _typed(): string {
+    var doc = this._editor.getDoc();
+    var cursor = doc.getCursor();
+    if (doc.indexFromPos(cursor) < doc.indexFromPos(this._from)) {
+      return null;
+    }
+    var typed = doc.getRange(this._from, cursor);
+    return /\s/.test(typed) ? null : typed;
+  }
+
+  /**
+   * Select a completion in the popup, wrapping around the ends.
+   */
+  private _select(index: number): void {
+    var count = this._nodes.length;
+    if (count === 0) {
+      return;
+    }
+    index = ((index % count) + count) % count;
+    if (this._nodes[this._active]) {
+      this._nodes[this._active].classList.remove('ipy-mod-active');
+    }
+    this._active = index;
+    var node = this._nodes[index];
+    node.classList.add('ipy-mod-active');
+    if (node.offsetTop < this._node.scrollTop) {
+      this._node.scrollTop = node.offsetTop;
+    } else if (node.offsetTop + node.offsetHeight > this._node.scrollTop + this._node.clientHeight) {
+      this._node.scrollTop = node.offsetTop + node.offsetHeight - this._node.clientHeight;
+    }
+  }
+
+  /**
+   * Insert the selected completion.
+   */
+  private _accept(): void {
+    var item = this._shown[this._active];
+    if (item) {
+      this._insert(item.text);
+    }
+    this.close();
+  }
+
+  /**
+   * Replace the completed token with text.
+   *
+   * If `replaceTail` is `false`, the text after the cursor is kept.
+   */
+  private _insert(text: string, replaceTail = true): void {
+    var doc = this._editor.getDoc();
+    var end = doc.indexFromPos(doc.getCursor());
+    if (replaceTail) {
+      end += this._tail;
+      this._tail = 0;
+    }
+    doc.replaceRange(text, this._from, doc.posFromIndex(end));
+  }
+
+  private _editor: CodeMirror.Editor = null;
+  private _getKernel: () => kernel.Kernel = null;
+  private _keyMap: any = null;
+  private _onChange: () => void = null;
+  private _onBlur: () => void = null;
+  private _onCursor: () => void = null;
+  private _requestId = 0;
+  private _from: CodeMirror.Position = null;
+  private _tail = 0;
+  private _items: ICompletionItem[] = [];
+  private _shown: ICompletionItem[] = [];
+  private _nodes: HTMLElement[] = [];
+  private _node: HTMLElement = null;
+  private _active = 0;
+}
+
+
+/**
+ * Get the completions from the content of a `complete_reply`.
+ *
+ * The experimental typed completions of IPython are used if present,
+ * when they all span the same range as the reply.
+ */
+function completionItems(content: any): ICompletionItem[] {
+  var matches: string[] = content.matches || [];
+  var typed: any[] = content.metadata && content.metadata._jupyter_types_experimental;
+  if (Array.isArray(typed) && typed.length) {
+    var sameRange = typed.every(item => {
+      return item.start === content.cursor_start && item.end === content.cursor_end;
+    });
+    if (sameRange) {
+      return typed.map(item => ({ text: String(item.text), type: item.type || '' }));
+    }
+  }
+  // remove duplicates, keeping the kernel ordering
+  var seen: { [text: string]: boolean } = Object.create(null);
+  var items: ICompletionItem[] = [];
+  for (var i = 0; i < matches.length; i++) {
+    if (!seen[matches[i]]) {
+      seen[matches[i]] = true;
+      items.push({ text: matches[i], type: '' });
+    }
+  }
+  return items;
+}
+
+
+/**
+ * Get the longest common prefix of a list of strings.
+ */
+function commonPrefix(values: string[]): string {
+  if (values.length === 0) {
+    return '';
+  }
+  var prefix = values[0];
+  for (var i = 1; i < values.length; i++) {
+    var j = 0;
+    while (j < prefix.length && j < values[i].length && prefix[j] === values[i][j]) {
+      j++;
+    }
+    prefix = prefix.slice(0, j);
+  }
+  return prefix;
+}
@@ -0,0 +1,395 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import utils = require('./utils');
+
+import IAjaxSuccess = utils.IAjaxSuccess;
+import IAjaxError = utils.IAjaxError;
+
+
+/**
+ * The url for the contents service.
+ */
+var CONTENTS_SERVICE_URL = 'api/contents';
+
+
+/**
+ * Get a logger for contents objects.
+ */
+var contents_log = Logger.get('contents');
+
+
+/**
+ * Contents model specification.
+ *
+ * The `content` is only set when requested, and is a notebook, a
+ * string, or a list of contents models, depending on the `type`.
+ */
+export
+interface IContentsModel {
+  name: string;
+  path: string;
+  type: string;
+  writable?: boolean;
+  created?: string;
+  last_modified?: string;
+  mimetype?: string;
+  content?: any;
+  format?: string;
+}
+
+
+/**
+ * Options for a contents get request.
+ */
+export
+interface IContentsOpts {
+  /**
+   * The expected type of the contents: `notebook`, `file` or `directory`.
+   */
+  type?: string;
+
+  /**
+   * The format of file contents: `text` or `base64`.
+   */
+  format?: string;
+
+  /**
+   * Whether to include the content. Defaults to `true`.
+   */
+  content?: boolean;
+}
+
+
+/**
+ * Options for creating a new untitled file.
+ */
+export
+interface ICreateOpts {
+  /**
+   * The extension of the new file, like `.ipynb` or `.txt`.
+   */
+  ext?: string;
+
+  /**
+   * The type of the new contents: `notebook`, `file` or `directory`.
+   */
+  type?: string;
+}
+
+
+/**
+ * Checkpoint model specification.
+ */
+export
+interface ICheckpointModel {
+  id: string;
+  last_modified: string;
+}
+
+
+/**
+ * Contents object for accessing the contents REST api, used to
+ * load, save and list notebooks and other files.
+ */
+export
+class Contents {
+
+  /**
+   * Construct a new contents object.
+   */
+  constructor(baseUrl: string) {
+    this._apiUrl = utils.urlJoinEncode(baseUrl, CONTENTS_SERVICE_URL);
+  }
+
+  /**
+   * GET /api/contents/[:path]
+   *
+   * Get a file or directory.
+   */
+  get(path: string, options?: IContentsOpts): Promise<IContentsModel> {
+    var url = this._getUrl(path);
+    var params: any = {};
+    if (options) {
+      if (options.type) params.type = options.type;
+      if (options.format) params.format = options.format;
+      if (options.content === false) params.content = '0';
+    }
+    if (Object.keys(params).length) {
+      url += utils.jsonToQueryString(params);
+    }
+    return utils.ajaxRequest(url, {
+      method: "GET",
+      dataType: "json"
+    }).then((success: IAjaxSuccess): IContentsModel => {
+      if (success.xhr.status !== 200) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+      validateContentsModel(success.data);
+      return success.data;
+    }, onError);
+  }
+
+  /**
+   * GET /api/contents/[:path]?content=0
+   *
+   * Get the model of a file without its content, or `null` if there
+   * is no file at the path.
+   */
+  getInfo(path: string): Promise<IContentsModel> {
+    var url = this._getUrl(path) + utils.jsonToQueryString({ content: '0' });
+    return utils.ajaxRequest(url, {
+      method: "GET",
+      dataType: "json"
+    }).then((success: IAjaxSuccess): IContentsModel => {
+      if (success.xhr.status === 404) {
+        return null;
+      }
+      if (success.xhr.status !== 200) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+      validateContentsModel(success.data);
+      return success.data;
+    }, onError);
+  }
+
+  /**
+   * POST /api/contents/[:path]
+   *
+   * Create a new untitled file or directory in the given directory.
+   */
+  newUntitled(path: string, options?: ICreateOpts): Promise<IContentsModel> {
+    var data = options ? JSON.stringify(options) : void 0;
+    return utils.ajaxRequest(this._getUrl(path), {
+      method: "POST",
+      dataType: "json",
+      data: data,
+      contentType: 'application/json'
+    }).then((success: IAjaxSuccess): IContentsModel => {
+      if (success.xhr.status !== 201) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+      validateContentsModel(success.data);
+      return success.data;
+    }, onError);
+  }
+
+  /**
+   * DELETE /api/contents/[:path]
+   *
+   * Delete a file or an empty directory.
+   */
+  delete(path: string): Promise<void> {
+    return utils.ajaxRequest(this._getUrl(path), {
+      method: "DELETE",
+      dataType: "json"
+    }).then((success: IAjaxSuccess): void => {
+      if (success.xhr.status !== 204) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+    }, onError);
+  }
+
+  /**
+   * PATCH /api/contents/[:path]
+   *
+   * Rename a file or directory.
+   */
+  rename(path: string, newPath: string): Promise<IContentsModel> {
+    return utils.ajaxRequest(this._getUrl(path), {
+      method: "PATCH",
+      dataType: "json",
+      data: JSON.stringify({ path: newPath }),
+      contentType: 'application/json'
+    }).then((success: IAjaxSuccess): IContentsModel => {
+      if (success.xhr.status !== 200) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+      validateContentsModel(success.data);
+      return success.data;
+    }, onError);
+  }
+
+  /**
+   * PUT /api/contents/[:path]
+   *
+   * Save a file, creating it if necessary. The returned model does
+   * not include the content.
+   */
+  save(path: string, model: IContentsModel): Promise<IContentsModel> {
+    return utils.ajaxRequest(this._getUrl(path), {
+      method: "PUT",
+      dataType: "json",
+      data: JSON.stringify(model),
+      contentType: 'application/json'
+    }).then((success: IAjaxSuccess): IContentsModel => {
+      // 200 for an existing file, 201 for a new one
+      if (success.xhr.status !== 200 && success.xhr.status !== 201) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+      validateContentsModel(success.data);
+      return success.data;
+    }, onError);
+  }
+
+  /**
+   * POST /api/contents/[:toDir]
+   *
+   * Copy a file into a directory, under a new unique name.
+   */
+  copy(fromFile: string, toDir: string): Promise<IContentsModel> {
+    return utils.ajaxRequest(this._getUrl(toDir), {
+      method: "POST",
+      dataType: "json",
+      data: JSON.stringify({ copy_from: fromFile }),
+      contentType: 'application/json'
+    }).then((success: IAjaxSuccess): IContentsModel => {
+      if (success.xhr.status !== 201) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+      validateContentsModel(success.data);
+      return success.data;
+    }, onError);
+  }
+
+  /**
+   * GET /api/contents/[:path]
+   *
+   * List the contents of a directory.
+   */
+  listContents(path: string): Promise<IContentsModel> {
+    return this.get(path, { type: 'directory' }).then((model: IContentsModel) => {
+      if (!Array.isArray(model.content)) {
+        throw Error('Invalid directory listing');
+      }
+      for (var i = 0; i < model.content.length; i++) {
+        validateContentsModel(model.content[i]);
+      }
+      return model;
+    });
+  }
+
+  /**
+   * POST /api/contents/[:path]/checkpoints
+   *
+   * Create a checkpoint of a file.
+   */
+  createCheckpoint(path: string): Promise<ICheckpointModel> {
+    return utils.ajaxRequest(this._getUrl(path, 'checkpoints'), {
+      method: "POST",
+      dataType: "json"
+    }).then((success: IAjaxSuccess): ICheckpointModel => {
+      if (success.xhr.status !== 201) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+      validateCheckpointModel(success.data);
+      return success.data;
+    }, onError);
+  }
+
+  /**
+   * GET /api/contents/[:path]/checkpoints
+   *
+   * List the checkpoints of a file.
+   */
+  listCheckpoints(path: string): Promise<ICheckpointModel[]> {
+    return utils.ajaxRequest(this._getUrl(path, 'checkpoints'), {
+      method: "GET",
+      dataType: "json"
+    }).then((success: IAjaxSuccess): ICheckpointModel[] => {
+      if (success.xhr.status !== 200) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+      if (!Array.isArray(success.data)) {
+        throw Error('Invalid checkpoint list');
+      }
+      for (var i = 0; i < success.data.length; i++) {
+        validateCheckpointModel(success.data[i]);
+      }
+      return success.data;
+    }, onError);
+  }
+
+  /**
+   * POST /api/contents/[:path]/checkpoints/[:checkpoint_id]
+   *
+   * Restore a file to a checkpoint.
+   */
+  restoreCheckpoint(path: string, checkpointId: string): Promise<void> {
+    return utils.ajaxRequest(this._getUrl(path, 'checkpoints', checkpointId), {
+      method: "POST",
+      dataType: "json"
+    }).then((success: IAjaxSuccess): void => {
+      if (success.xhr.status !== 204) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+    }, onError);
+  }
+
+  /**
+   * DELETE /api/contents/[:path]/checkpoints/[:checkpoint_id]
+   *
+   * Delete a checkpoint of a file.
+   */
+  deleteCheckpoint(path: string, checkpointId: string): Promise<void> {
+    return utils.ajaxRequest(this._getUrl(path, 'checkpoints', checkpointId), {
+      method: "DELETE",
+      dataType: "json"
+    }).then((success: IAjaxSuccess): void => {
+      if (success.xhr.status !== 204) {
+        throw Error('Invalid Status: ' + success.xhr.status);
+      }
+    }, onError);
+  }
+
+  /**
+   * Get the url for a path in the contents service.
+   */
+  private _getUrl(...args: string[]): string {
+    return utils.urlJoinEncode.apply(null, [this._apiUrl].concat(args));
+  }
+
+  private _apiUrl = 'unknown';
+}
+
+
+/**
+ * Handle a failed AJAX request by logging the error message, and throwing
+ * another error.
+ */
+function onError(error: IAjaxError): any {
+  contents_log.error('API request failed (' + error.statusText + ')');
+  throw Error(error.statusText);
+}
+
+
+/**
+ * Validate an object as being of IContentsModel type.
+ */
+export
+function validateContentsModel(model: IContentsModel): void {
+  var required = ['name', 'path', 'type'];
+  for (var i = 0; i < required.length; i++) {
+    if (!model.hasOwnProperty(required[i]) ||
+        typeof (<any>model)[required[i]] !== 'string') {
+      throw Error('Invalid Contents Model');
+    }
+  }
+  if (model.hasOwnProperty('last_modified') &&
+      typeof model.last_modified !== 'string') {
+    throw Error('Invalid Contents Model');
+  }
+}
+
+
+/**
+ * Validate an object as being of ICheckpointModel type.
+ */
+export
+function validateCheckpointModel(model: ICheckpointModel): void {
+  if (!model.hasOwnProperty('id') || typeof model.id !== 'string' ||
+      !model.hasOwnProperty('last_modified') ||
+      typeof model.last_modified !== 'string') {
+    throw Error('Invalid Checkpoint Model');
+  }
+}
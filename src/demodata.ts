@@ -1,43 +1,5 @@
 import nbformat = require("./nbformat");
 
-var multiToString = function(x: string | string[]): string {
-  return (typeof x === "string") ? x : x.join("");
-}
-
-var diskToMemory = function(disknb: any): nbformat.Notebook {
-  // Make a copy
-  var nb = JSON.parse(JSON.stringify(disknb));
-  // Convert multiline strings that are arrays to just strings
-  var cells = nb.cells;
-  for (var i = 0; i<cells.length; i++) {
-    var c = cells[i];
-    var c_type = c.cell_type;
-    if (c_type === "raw" || c_type === "markdown" || c_type === "code") {
-        c.source = multiToString(c.source)
-    }
-    if (c_type === "code") {
-      for (var j = 0; j < c.outputs.length; j++) {
-          var out = c.outputs[j];
-          switch (out.output_type) {
-              case "stream":
-                  out.text = multiToString(out.text);
-                  break;
-              case "execute_result":
-              case "display_data":
-                  var d = out.data;
-                  for (var key in d) {
-                    if (d.hasOwnProperty(key) && key !== "application/json") {
-                      d[key] = multiToString(d[key]);
-                    }
-                  }
-                  break;
-          }
-      }
-    }
-  }
-  return nb;
-}
-
 var notebook_disk = {
  "cells": [
   {
@@ -193,4 +155,4 @@ var notebook_disk = {
  "nbformat_minor": 0
 }
 
-export var notebook: nbformat.Notebook = diskToMemory(notebook_disk);
+export var notebook: nbformat.Notebook = nbformat.fromDisk(notebook_disk);
@@ -3,41 +3,91 @@ import NotebookComponent = require("./NotebookComponent");
 import render = phosphor.virtualdom.render;
 import demo = require("./demodata")
 import mathjaxutils = require("./mathjaxutils");
-export function main(): void {
-    //    var notebook = new NotebookApp.NotebookApplication;
-    // notebook.run();
-    var test = document.getElementById('nb');
-    mathjaxutils.init();
-    render(NotebookComponent.Notebook(demo.notebook), test);
-};
-
-
-/*
+import session = require("./session");
+import notebookmodel = require("./notebookmodel");
+import undo = require("./undo");
+import pager = require("./pager");
+import selection = require("./selection");
+import kernelselector = require("./kernelselector");
+import contents = require("./contents");
+import autosave = require("./autosave");
+import nbformat = require("./nbformat");
 
-            this.session = new session.Session(options);
-            this.session.start(success, failure);
+/**
+ * Get a logger for the application entry point.
+ */
+var index_log = Logger.get('index');
 
-    Notebook.prototype._session_started = function (){
-        this._session_starting = false;
-        this.kernel = this.session.kernel;
-        var ncells = this.ncells();
-        for (var i=0; i<ncells; i++) {
-            var cell = this.get_cell(i);
-            if (cell instanceof codecell.CodeCell) {
-                cell.set_kernel(this.session.kernel);
-            }
-        }
-    };
-
-    Notebook.prototype._session_start_failed = function(jqxhr, status, error){
-        this._session_starting = false;
-        utils.log_ajax_error(jqxhr, status, error);
-    };
+/**
+ * The path of the notebook opened by the application.
+ */
+var NOTEBOOK_PATH = 'demo.ipynb';
 
+/**
+ * The text shown for each save status.
+ */
+var SAVE_STATUS_TEXT: { [status: string]: string } = {
+    saving: 'Saving...',
+    saved: 'Saved',
+    saveFailed: 'Save failed',
+    conflict: 'Notebook changed on disk',
+    reloaded: 'Reloaded from disk'
+};
 
-The notebook has a kernel associated with it.  It passes an "execute" call back down to the cells, which the
-cells can call with their ids and the text in the cell.  Or maybe the cell should set its text in a separate call
-and then execute it.
+export function main(): void {
+    var app = new NotebookApp.NotebookApplication();
+    // app.run();
+    var test = document.getElementById('nb');
+    mathjaxutils.init();
 
-   */
+    var contentsService = new contents.Contents('/');
+    autosave.loadNotebook(contentsService, NOTEBOOK_PATH).then((loaded: autosave.ILoadedNotebook) => {
+        openNotebook(app, test, contentsService, loaded.notebook, loaded.model.last_modified);
+    }, (error: Error) => {
+        // start from the demo notebook, which is created on the first save
+        openNotebook(app, test, contentsService, demo.notebook, null);
+    });
+};
 
+/**
+ * Open a notebook with a kernel session, saving it to the contents service.
+ */
+function openNotebook(app: NotebookApp.NotebookApplication, test: HTMLElement,
+                      contentsService: contents.Contents, notebook: nbformat.Notebook,
+                      lastModified: string): void {
+    var kernelspec = notebook.metadata.kernelspec || demo.notebook.metadata.kernelspec;
+    var nbSession = new session.NotebookSession({
+      notebookPath: NOTEBOOK_PATH,
+      kernelName: kernelspec.name,
+      baseUrl: '/',
+      wsUrl: ''
+    });
+    var model = new notebookmodel.NotebookModel(notebook, nbSession);
+    var history = new undo.UndoManager(model);
+    var cellSelection = new selection.NotebookSelection(model);
+    var saver = new autosave.NotebookSaver(model, contentsService, {
+      path: NOTEBOOK_PATH,
+      lastModified: lastModified
+    });
+    app.openNotebook(test, {model: model, selection: cellSelection, history: history, saver: saver});
+    render(NotebookComponent.Notebook({model: model, selection: cellSelection}), test);
+    var pagerNode = document.createElement('div');
+    document.body.appendChild(pagerNode);
+    render(pager.PagerView(model.pager), pagerNode);
+    var selectorNode = document.createElement('div');
+    test.parentNode.insertBefore(selectorNode, test);
+    render(kernelselector.KernelSelector(nbSession), selectorNode);
+    var statusNode = document.createElement('div');
+    statusNode.className = 'ipy-save-status';
+    test.parentNode.insertBefore(statusNode, test);
+    saver.statusChanged.connect((sender: autosave.NotebookSaver, status: string) => {
+      statusNode.textContent = SAVE_STATUS_TEXT[status] || status;
+    });
+    var errorNode = document.createElement('div');
+    errorNode.className = 'ipy-kernel-error';
+    test.parentNode.insertBefore(errorNode, test);
+    nbSession.start().catch((error: Error) => {
+      index_log.error('Could not start the kernel: ' + error.message);
+      errorNode.textContent = 'Could not start the kernel: ' + error.message;
+    });
+}
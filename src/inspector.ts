@@ -0,0 +1,155 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import kernel = require('./kernel');
+import mimerender = require('./mimerender');
+import pager = require('./pager');
+import utils = require('./utils');
+
+import render = phosphor.virtualdom.render;
+import IKernelMsg = kernel.IKernelMsg;
+
+
+/**
+ * Get a logger for the inspector.
+ */
+var inspector_log = Logger.get('inspector');
+
+
+/**
+ * An object which shows kernel help for the code at the cursor of
+ * a CodeMirror editor.
+ *
+ * The first `invoke`, usually on Shift-Tab, shows a tooltip with the
+ * `inspect_reply` for `detail_level` 0. Invoking it again while the
+ * tooltip is open shows the details for `detail_level` 1 in the pager.
+ * A reply is dropped if the text or the cursor changed since the
+ * request was sent.
+ */
+export
+class Inspector {
+
+  /**
+   * Construct a new inspector for an editor.
+   */
+  constructor(editor: CodeMirror.Editor, getKernel: () => kernel.Kernel, getPager: () => pager.Pager) {
+    this._editor = editor;
+    this._getKernel = getKernel;
+    this._getPager = getPager;
+    this._keyMap = {
+      'Esc': () => { this.close(); }
+    };
+    this._onClose = () => { this.close(); };
+  }
+
+  /**
+   * Test whether the tooltip is open.
+   */
+  get isOpen(): boolean {
+    return this._node !== null;
+  }
+
+  /**
+   * Request help for the code at the cursor.
+   *
+   * Returns `false` if no request was sent.
+   */
+  invoke(): boolean {
+    var kernel = this._getKernel();
+    if (!kernel) {
+      return false;
+    }
+    var detailLevel = this.isOpen ? 1 : 0;
+    this.close();
+    var doc = this._editor.getDoc();
+    var code = doc.getValue();
+    var index = doc.indexFromPos(doc.getCursor());
+    var request = ++this._requestId;
+    var cursorPos = utils.jsIndexToCharIndex(index, code);
+    kernel.inspect(code, cursorPos, detailLevel).onReply((msg: IKernelMsg) => {
+      this._handleReply(msg, request, code, index, detailLevel);
+    });
+    return true;
+  }
+
+  /**
+   * Close the tooltip.
+   */
+  close(): void {
+    if (!this._node) {
+      return;
+    }
+    this._editor.removeKeyMap(this._keyMap);
+    this._editor.off('change', this._onClose);
+    this._editor.off('blur', this._onClose);
+    this._editor.off('cursorActivity', this._onClose);
+    render(null, this._node);
+    if (this._node.parentNode) {
+      this._node.parentNode.removeChild(this._node);
+    }
+    this._node = null;
+  }
+
+  /**
+   * Close the tooltip and ignore any pending reply.
+   */
+  dispose(): void {
+    this._requestId++;
+    this.close();
+  }
+
+  /**
+   * Handle an `inspect_reply` from the kernel.
+   */
+  private _handleReply(msg: IKernelMsg, request: number, code: string, index: number, detailLevel: number): void {
+    var doc = this._editor.getDoc();
+    if (request !== this._requestId ||
+        doc.getValue() !== code ||
+        doc.indexFromPos(doc.getCursor()) !== index) {
+      inspector_log.debug('Dropping stale inspect reply');
+      return;
+    }
+    var content = msg.content;
+    if (content.status !== 'ok' || !content.found) {
+      return;
+    }
+    if (detailLevel > 0) {
+      var pager = this._getPager();
+      if (pager) {
+        pager.show(content.data);
+        return;
+      }
+    }
+    this._open(content.data);
+  }
+
+  /**
+   * Show the tooltip for a mimebundle.
+   */
+  private _open(bundle: { [mimetype: string]: any }): void {
+    this._node = document.createElement('div');
+    this._node.className = 'ipy-tooltip';
+    // keep the focus in the editor when clicking the tooltip
+    this._node.addEventListener('mousedown', (event: MouseEvent) => {
+      event.preventDefault();
+    });
+    var coords = this._editor.cursorCoords(null, 'page');
+    this._node.style.left = coords.left + 'px';
+    this._node.style.top = coords.bottom + 'px';
+    document.body.appendChild(this._node);
+    // the reply comes from the kernel of the session, so it is trusted
+    render(mimerender.MimeBundle({ bundle: bundle, trusted: true }), this._node);
+    this._editor.addKeyMap(this._keyMap);
+    this._editor.on('change', this._onClose);
+    this._editor.on('blur', this._onClose);
+    this._editor.on('cursorActivity', this._onClose);
+  }
+
+  private _editor: CodeMirror.Editor = null;
+  private _getKernel: () => kernel.Kernel = null;
+  private _getPager: () => pager.Pager = null;
+  private _keyMap: any = null;
+  private _onClose: () => void = null;
+  private _requestId = 0;
+  private _node: HTMLElement = null;
+}
@@ -15,7 +15,7 @@ import IAjaxError = utils.IAjaxError;
 /**
  * The url for the kernel service.
  */
-var KERNEL_SERVICE_URL = 'api/kernel';
+var KERNEL_SERVICE_URL = 'api/kernels';
 
 
 /**
@@ -49,7 +49,7 @@ interface IKernelMsg {
   msgId?: string;
   msgType?: string;
   channel?: string;
-  buffers?: string[] | ArrayBuffer[];
+  buffers?: (ArrayBuffer | ArrayBufferView)[];
 }
 
 
@@ -105,10 +105,96 @@ interface IKernelLanguageInfo {
 }
 
 
+/**
+ * A filter for subscribing to kernel messages.
+ *
+ * A message matches if it has the given message type and channel.
+ * Omitted fields match any value.
+ */
+export
+interface IMessageFilter {
+  /**
+   * The message type, like `stream` or `status`.
+   */
+  msgType?: string;
+
+  /**
+   * The channel, like `iopub`.
+   */
+  channel?: string;
+}
+
+
+/**
+ * A handler for kernel messages.
+ */
+export
+interface IMessageHandler {
+  (msg: IKernelMsg): void;
+}
+
+
+/**
+ * Options for a request sent to the kernel.
+ */
+export
+interface IRequestOptions {
+  /**
+   * The time in milliseconds after which the request fails if it is
+   * not done. There is no timeout by default.
+   */
+  timeout?: number;
+
+  /**
+   * A token which cancels the request.
+   */
+  token?: CancellationToken;
+}
+
+
+/**
+ * A token for cancelling kernel requests.
+ *
+ * One token can be passed to several requests, which are all cancelled
+ * together. A cancelled request stops handling kernel messages.
+ */
+export
+class CancellationToken {
+
+  /**
+   * A signal emitted when the token is cancelled.
+   */
+  @signal
+  cancelled: ISignal<void>;
+
+  /**
+   * Test whether the token is cancelled.
+   */
+  get isCancelled(): boolean {
+    return this._isCancelled;
+  }
+
+  /**
+   * Cancel the requests using the token.
+   */
+  cancel(): void {
+    if (this._isCancelled) {
+      return;
+    }
+    this._isCancelled = true;
+    this.cancelled.emit(void 0);
+  }
+
+  private _isCancelled = false;
+}
+
+
 /**
  * Object providing a Future interface for message callbacks.
  *
- * Only one callback can be registered per type.
+ * Only one callback can be registered per type. The `reply` and
+ * `done` promises and the `outputReceived` signal can be used by any
+ * number of consumers.
  * If `autoDispose` is set, the future will self-dispose after `isDone` is
  * set and the registered `onDone` handler is called.
  *
@@ -117,6 +203,26 @@ interface IKernelLanguageInfo {
  */
 export
 interface IKernelFuture extends IDisposable {
+  /**
+   * A signal emitted for each iopub message of the request.
+   */
+  outputReceived: ISignal<IKernelMsg>;
+
+  /**
+   * A promise resolved with the shell reply message.
+   *
+   * It is rejected if the future fails, times out, is cancelled or is
+   * disposed before the reply arrives.
+   */
+  reply: Promise<IKernelMsg>;
+
+  /**
+   * A promise resolved with the last message once the future is done.
+   *
+   * It is rejected like the `reply` promise.
+   */
+  done: Promise<IKernelMsg>;
+
   /**
    * The autoDispose behavior of the future.
    *
@@ -148,6 +254,22 @@ interface IKernelFuture extends IDisposable {
    * Register an input handler. Returns `this`.
    */
   onInput(cb: (msg: IKernelMsg) => void): IKernelFuture;
+
+  /**
+   * Register an error handler. Returns `this`.
+   *
+   * This is called if the message could not be delivered, or if the
+   * connection to the kernel died before the future was done.
+   */
+  onError(cb: (error: Error) => void): IKernelFuture;
+
+  /**
+   * Fail the future, which is then disposed.
+   *
+   * The error handler is called and the promises are rejected, unless
+   * the future is already done or disposed.
+   */
+  handleError(error: Error): void;
 }
 
 
@@ -166,6 +288,24 @@ class Kernel {
   @signal
   statusChanged: ISignal<string>;
 
+  /**
+   * A signal emitted when a comm message arrives on the iopub channel.
+   *
+   * This includes `comm_open`, `comm_msg` and `comm_close` messages,
+   * whether or not they are a response to a request made by this kernel.
+   */
+  @signal
+  commMessage: ISignal<IKernelMsg>;
+
+  /**
+   * A signal emitted for every message received from the kernel.
+   *
+   * This includes the messages from requests made by other clients of
+   * the kernel, and from background threads of the kernel.
+   */
+  @signal
+  messageReceived: ISignal<IKernelMsg>;
+
   /**
    * GET /api/kernels
    *
@@ -181,7 +321,7 @@ class Kernel {
         if (!Array.isArray(success.data)) {
           throw Error('Invalid kernel list');
         }
-        for (var i = 0; i < success.data.length(); i++) {
+        for (var i = 0; i < success.data.length; i++) {
           validateKernelId(success.data[i]);
         }
         return success.data;
@@ -267,6 +407,36 @@ class Kernel {
     return this._id;
   }
 
+  /**
+   * Get the maximum number of shell messages queued while the kernel
+   * is not connected.
+   */
+  get queueLimit(): number {
+    return this._queueLimit;
+  }
+
+  /**
+   * Set the maximum number of queued shell messages.
+   */
+  set queueLimit(value: number) {
+    this._queueLimit = value;
+  }
+
+  /**
+   * Get the time in milliseconds after which a queued shell message
+   * expires.
+   */
+  get queueTimeout(): number {
+    return this._queueTimeout;
+  }
+
+  /**
+   * Set the expiry time of queued shell messages.
+   */
+  set queueTimeout(value: number) {
+    this._queueTimeout = value;
+  }
+
   /**
    * GET /api/kernels/[:kernel_id]
    *
@@ -416,24 +586,66 @@ class Kernel {
     }
   }
 
+  /**
+   * Subscribe to the messages received from the kernel which match a
+   * filter, like all the `stream` messages on the iopub channel.
+   *
+   * Unlike the futures, subscriptions also receive messages which are
+   * not a response to a request of this kernel object. Disposing the
+   * returned object removes the subscription.
+   */
+  subscribe(filter: IMessageFilter, handler: IMessageHandler): IDisposable {
+    var subscription: ISubscription = {
+      msgType: filter.msgType || null,
+      channel: filter.channel || null,
+      handler: handler
+    };
+    this._subscriptions.push(subscription);
+    return new Disposable(() => {
+      var index = this._subscriptions.indexOf(subscription);
+      if (index !== -1) {
+        this._subscriptions.splice(index, 1);
+      }
+    });
+  }
+
   /**
    * Send a message on the kernel's shell channel.
+   *
+   * While the kernel is not connected, like during a reconnect, the
+   * message is queued and sent once the connection is back. The future
+   * fails if the queue is full, if the message expires in the queue,
+   * or if the connection to the kernel dies.
    */
-  sendShellMessage(msg_type: string, content: any, metadata = {}, buffers: string[] = []): IKernelFuture {
-    if (!this.isConnected) {
-      throw new Error("kernel is not connected");
-    }
+  sendShellMessage(msg_type: string, content: any, metadata = {}, buffers: (ArrayBuffer | ArrayBufferView)[] = [], options?: IRequestOptions): IKernelFuture {
     var msg = this._createMsg(msg_type, content, metadata, buffers);
     msg.channel = 'shell';
 
-    this._ws.send(serialize.serialize(msg));
-
     var future = new KernelFutureHandler(() => {
       this._handlerMap.delete(msg.header.msgId);
-    });
+    }, options);
 
     this._handlerMap.set(msg.header.msgId, future);
 
+    if (this.isConnected) {
+      this._ws.send(serialize.serialize(msg));
+    } else if (this._status === 'dead' || this._status === 'connectionDead') {
+      this._failLater(future, 'Kernel is dead: ' + msg_type);
+    } else if (this._queue.length >= this._queueLimit) {
+      this._failLater(future, 'Too many messages queued: ' + msg_type);
+    } else {
+      kernel_log.debug('Kernel is not connected, queueing: ' + msg_type);
+      var queued: IQueuedMessage = { msg: msg, future: future, timer: -1 };
+      queued.timer = setTimeout(() => {
+        var index = this._queue.indexOf(queued);
+        if (index !== -1) {
+          this._queue.splice(index, 1);
+          future.handleError(Error('Message expired before the kernel connected: ' + msg_type));
+        }
+      }, this._queueTimeout);
+      this._queue.push(queued);
+    }
+
     return future;
   }
 
@@ -443,8 +655,8 @@ class Kernel {
    * Returns a KernelFuture that will resolve to a `kernel_info_reply` message documented
    * [here](http://ipython.org/ipython-doc/dev/development/messaging.html#kernel-info)
    */
-  kernelInfo(): IKernelFuture {
-    return this.sendShellMessage("kernel_info_request", {});
+  kernelInfo(options?: IRequestOptions): IKernelFuture {
+    return this.sendShellMessage("kernel_info_request", {}, {}, [], options);
   }
 
   /**
@@ -452,14 +664,16 @@ class Kernel {
    *
    * Returns a KernelFuture that will resolve to a `inspect_reply` message documented
    * [here](http://ipython.org/ipython-doc/dev/development/messaging.html#object-information)
+   *
+   * A `detail_level` of 1 requests more details, like the source code.
    */
-  inspect(code: string, cursor_pos: number): IKernelFuture {
+  inspect(code: string, cursor_pos: number, detail_level = 0, options?: IRequestOptions): IKernelFuture {
     var content = {
       code: code,
       cursor_pos: cursor_pos,
-      detail_level: 0
+      detail_level: detail_level
     };
-    return this.sendShellMessage("inspect_request", content);
+    return this.sendShellMessage("inspect_request", content, {}, [], options);
   }
 
   /**
@@ -478,7 +692,7 @@ class Kernel {
    *      }
    *
    */
-  execute(code: string, options?: IKernelExecute): IKernelFuture {
+  execute(code: string, options?: IKernelExecute, requestOptions?: IRequestOptions): IKernelFuture {
     var content = {
       code: code,
       silent: true,
@@ -487,7 +701,7 @@ class Kernel {
       allow_stdin: false
     };
     utils.extend(content, options);
-    return this.sendShellMessage("execute_request", content);
+    return this.sendShellMessage("execute_request", content, {}, [], requestOptions);
   }
 
   /**
@@ -496,22 +710,19 @@ class Kernel {
    * Returns a KernelFuture with will resolve to a `complete_reply` documented
    * [here](http://ipython.org/ipython-doc/dev/development/messaging.html#complete)
    */
-  complete(code: string, cursor_pos: number): IKernelFuture {
+  complete(code: string, cursor_pos: number, options?: IRequestOptions): IKernelFuture {
     var content = {
       code: code,
       cursor_pos: cursor_pos
     };
-    return this.sendShellMessage("complete_request", content);
+    return this.sendShellMessage("complete_request", content, {}, [], options);
   }
 
   /**
    * Send an input reply message to the kernel.
    *
-   * TODO: how to handle this?  Right now called by
-   * ./static/notebook/js/outputarea.js:827:
-   * this.events.trigger('send_input_reply.Kernel', value);
-   *
-   * which has no reference to the session or the kernel
+   * This answers an `input_request` received by the `onInput` handler
+   * of a future, for an execution with `allow_stdin` set.
    */
   sendInputReply(input: any): string {
     if (!this.isConnected) {
@@ -530,7 +741,7 @@ class Kernel {
    * Create a kernel message given input attributes.
    */
   private _createMsg(msg_type: string, content: any,
-    metadata = {}, buffers: string[] = []): IKernelMsg {
+    metadata = {}, buffers: (ArrayBuffer | ArrayBufferView)[] = []): IKernelMsg {
     var msg: IKernelMsg = {
       header: {
         msgId: utils.uuid(),
@@ -547,6 +758,50 @@ class Kernel {
     return msg;
   }
 
+  /**
+   * Send the queued shell messages, in order.
+   */
+  private _flushQueue(): void {
+    var queue = this._queue;
+    this._queue = [];
+    for (var i = 0; i < queue.length; i++) {
+      clearTimeout(queue[i].timer);
+      if (!this._handlerMap.has(queue[i].msg.header.msgId)) {
+        // the caller gave up on the message
+        continue;
+      }
+      this._ws.send(serialize.serialize(queue[i].msg));
+    }
+    if (queue.length) {
+      kernel_log.info('Sent ' + queue.length + ' queued messages');
+    }
+  }
+
+  /**
+   * Fail the queued messages and the futures waiting for a reply,
+   * after the connection to the kernel died.
+   */
+  private _failFutures(reason: string): void {
+    var queue = this._queue;
+    this._queue = [];
+    for (var i = 0; i < queue.length; i++) {
+      clearTimeout(queue[i].timer);
+    }
+    var futures: KernelFutureHandler[] = [];
+    this._handlerMap.forEach((future: KernelFutureHandler) => { futures.push(future); });
+    for (var i = 0; i < futures.length; i++) {
+      futures[i].handleError(Error(reason));
+    }
+  }
+
+  /**
+   * Fail a future asynchronously, so the caller can register handlers.
+   */
+  private _failLater(future: KernelFutureHandler, reason: string): void {
+    kernel_log.error(reason);
+    setTimeout(() => { future.handleError(Error(reason)); }, 0);
+  }
+
   /**
    * Handle a kernel status change message.
    */
@@ -604,10 +859,10 @@ class Kernel {
         // if that fails, then assume the kernel is dead,
         // otherwise just follow the typical websocket closed
         // protocol.
-        this.getInfo().then(function() {
-          this._ws_closed(ws_host_url, false);
-        }, function() {
-          this._kernel_dead();
+        this.getInfo().then(() => {
+          this._wsClosed(ws_host_url, false);
+        }, () => {
+          this._kernelDead();
         });
       }
     };
@@ -659,6 +914,7 @@ class Kernel {
   private _kernelConnected(): void {
     this._handleStatus('connected');
     this._reconnectAttempt = 0;
+    this._flushQueue();
     // get kernel info so we know what state the kernel is in
     this.kernelInfo().onReply((reply?: IKernelMsg) => {
       this._infoReply = reply.content;
@@ -675,6 +931,7 @@ class Kernel {
   private _kernelDead(): void {
     this._handleStatus('dead');
     this.disconnect();
+    this._failFutures('Kernel died');
   }
 
   /**
@@ -717,6 +974,7 @@ class Kernel {
     } else {
       this._handleStatus('connectionDead');
       kernel_log.error("Failed to reconnect, giving up.");
+      this._failFutures('Connection to the kernel is dead');
     }
   }
 
@@ -733,6 +991,11 @@ class Kernel {
     if (msg.channel === 'iopub' && msg.msgType === 'status') {
       this._handleStatusMessage(msg);
     }
+    if (msg.channel === 'iopub' && isCommMsgType(msg.msgType)) {
+      this.commMessage.emit(msg);
+    }
+    this.messageReceived.emit(msg);
+    this._notifySubscriptions(msg);
     if (msg.parentHeader) {
       var header = (<IKernelMsgHeader>msg.parentHeader);
       var future = this._handlerMap.get(header.msgId);
@@ -742,6 +1005,28 @@ class Kernel {
     }
   }
 
+  /**
+   * Call the handlers of the subscriptions matching a message.
+   *
+   * An error in one handler does not prevent the others from running.
+   */
+  private _notifySubscriptions(msg: IKernelMsg): void {
+    // handlers may unsubscribe while being called
+    var subscriptions = this._subscriptions.slice();
+    for (var i = 0; i < subscriptions.length; i++) {
+      var sub = subscriptions[i];
+      if ((sub.msgType !== null && sub.msgType !== msg.msgType) ||
+          (sub.channel !== null && sub.channel !== msg.channel)) {
+        continue;
+      }
+      try {
+        sub.handler(msg);
+      } catch (error) {
+        kernel_log.error('Error in kernel message handler: ' + error.message);
+      }
+    }
+  }
+
   /**
    * Handle status iopub messages from the kernel.
    */
@@ -785,8 +1070,31 @@ class Kernel {
   private _autorestartAttempt = 0;
   private _reconnectAttempt = 0;
   private _handlerMap: Map<string, KernelFutureHandler> = null;
-  private _iopubHandlers: Map<string, (msg: IKernelMsg) => void> = null;
+  private _subscriptions: ISubscription[] = [];
   private _status = 'unknown';
+  private _queue: IQueuedMessage[] = [];
+  private _queueLimit = 100;
+  private _queueTimeout = 30000;
+}
+
+
+/**
+ * A subscription to kernel messages, with `null` matching any value.
+ */
+interface ISubscription {
+  msgType: string;
+  channel: string;
+  handler: IMessageHandler;
+}
+
+
+/**
+ * A shell message waiting for the kernel to connect.
+ */
+interface IQueuedMessage {
+  msg: IKernelMsg;
+  future: KernelFutureHandler;
+  timer: number;
 }
 
 
@@ -797,7 +1105,8 @@ enum KernelFutureFlag {
   GotReply = 0x1,
   GotIdle = 0x2,
   AutoDispose = 0x4,
-  IsDone = 0x8
+  IsDone = 0x8,
+  IsDisposed = 0x10
 }
 
 
@@ -805,6 +1114,50 @@ enum KernelFutureFlag {
  * Implementation of a kernel future.
  */
 class KernelFutureHandler extends Disposable implements IKernelFuture {
+
+  /**
+   * A signal emitted for each iopub message of the request.
+   */
+  @signal
+  outputReceived: ISignal<IKernelMsg>;
+
+  /**
+   * Construct a new kernel future.
+   */
+  constructor(cb: () => void, options?: IRequestOptions) {
+    super(cb);
+    this._replyDeferred = createDeferred<IKernelMsg>();
+    this._doneDeferred = createDeferred<IKernelMsg>();
+    if (options && options.token) {
+      this._token = options.token;
+      if (this._token.isCancelled) {
+        // fail once the caller had a chance to register handlers
+        setTimeout(() => { this._onCancelled(this._token, void 0); }, 0);
+      } else {
+        this._token.cancelled.connect(this._onCancelled, this);
+      }
+    }
+    if (options && options.timeout > 0) {
+      this._timer = setTimeout(() => {
+        this._timer = -1;
+        this.handleError(Error('Kernel request timed out'));
+      }, options.timeout);
+    }
+  }
+
+  /**
+   * Get the promise for the shell reply.
+   */
+  get reply(): Promise<IKernelMsg> {
+    return this._replyDeferred.promise;
+  }
+
+  /**
+   * Get the promise for the end of the request.
+   */
+  get done(): Promise<IKernelMsg> {
+    return this._doneDeferred.promise;
+  }
   /**
    * Get the current autoDispose status of the future.
    */
@@ -864,6 +1217,29 @@ class KernelFutureHandler extends Disposable implements IKernelFuture {
     return this;
   }
 
+  /**
+   * Register an error handler. Returns `this`.
+   */
+  onError(cb: (error: Error) => void): IKernelFuture {
+    this._error = cb;
+    return this;
+  }
+
+  /**
+   * Fail the future, which is then disposed.
+   */
+  handleError(error: Error): void {
+    if (this._testFlag(KernelFutureFlag.IsDisposed) || this.isDone) {
+      return;
+    }
+    kernel_log.debug('Kernel future failed: ' + error.message);
+    var handler = this._error;
+    if (handler) handler(error);
+    this._replyDeferred.reject(error);
+    this._doneDeferred.reject(error);
+    this.dispose();
+  }
+
   /**
    * Handle an incoming message from the kernel belonging to this future.
    */
@@ -871,6 +1247,7 @@ class KernelFutureHandler extends Disposable implements IKernelFuture {
     if (msg.channel === 'iopub') {
       var output = this._output;
       if (output) output(msg);
+      this.outputReceived.emit(msg);
       if (msg.msgType === 'status' && msg.content.execution_state === 'idle') {
         this._setFlag(KernelFutureFlag.GotIdle);
         if (this._testFlag(KernelFutureFlag.GotReply)) {
@@ -878,8 +1255,9 @@ class KernelFutureHandler extends Disposable implements IKernelFuture {
         }
       }
     } else if (msg.channel === 'shell') {
-      var reply = this._output;
+      var reply = this._reply;
       if (reply) reply(msg);
+      this._replyDeferred.resolve(msg);
       this._setFlag(KernelFutureFlag.GotReply)
       if (this._testFlag(KernelFutureFlag.GotIdle)) {
         this._handleDone(msg);
@@ -898,6 +1276,17 @@ class KernelFutureHandler extends Disposable implements IKernelFuture {
     this._output = null;
     this._reply = null;
     this._done = null;
+    this._error = null;
+    this._setFlag(KernelFutureFlag.IsDisposed);
+    this._clearTimer();
+    if (this._token) {
+      this._token.cancelled.disconnect(this._onCancelled, this);
+      this._token = null;
+    }
+    // a no-op once the promises are settled
+    var error = Error('Kernel future was disposed');
+    this._replyDeferred.reject(error);
+    this._doneDeferred.reject(error);
     super.dispose();
   }
 
@@ -906,17 +1295,37 @@ class KernelFutureHandler extends Disposable implements IKernelFuture {
    */
   private _handleDone(msg: IKernelMsg): void {
     this._setFlag(KernelFutureFlag.IsDone);
+    this._clearTimer();
     var done = this._done;
     if (done) done(msg);
+    this._doneDeferred.resolve(msg);
     // clear the other callbacks
     this._reply = null;
     this._done = null;
     this._input = null;
+    this._error = null;
     if (this._testFlag(KernelFutureFlag.AutoDispose)) {
       this.dispose();
     }
   }
 
+  /**
+   * Handle the cancellation of the request.
+   */
+  private _onCancelled(sender: CancellationToken, value: void): void {
+    this.handleError(Error('Kernel request cancelled'));
+  }
+
+  /**
+   * Clear the timeout of the request.
+   */
+  private _clearTimer(): void {
+    if (this._timer !== -1) {
+      clearTimeout(this._timer);
+      this._timer = -1;
+    }
+  }
+
   /**
    * Test whether the given future flag is set.
    */
@@ -943,6 +1352,47 @@ class KernelFutureHandler extends Disposable implements IKernelFuture {
   private _output: (msg: IKernelMsg) => void = null;
   private _reply: (msg: IKernelMsg) => void = null;
   private _done: (msg: IKernelMsg) => void = null;
+  private _error: (error: Error) => void = null;
+  private _replyDeferred: IDeferred<IKernelMsg> = null;
+  private _doneDeferred: IDeferred<IKernelMsg> = null;
+  private _token: CancellationToken = null;
+  private _timer = -1;
+}
+
+
+/**
+ * A promise with its resolve and reject functions.
+ */
+interface IDeferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+}
+
+
+/**
+ * Create a deferred promise.
+ *
+ * The promise is marked as handled, so a rejection nobody listens
+ * to is not reported as an error.
+ */
+function createDeferred<T>(): IDeferred<T> {
+  var deferred: IDeferred<T> = { promise: null, resolve: null, reject: null };
+  deferred.promise = new Promise<T>((resolve, reject) => {
+    deferred.resolve = resolve;
+    deferred.reject = reject;
+  });
+  deferred.promise.catch(() => { });
+  return deferred;
+}
+
+
+/**
+ * Test whether a message type is one of the comm message types.
+ */
+function isCommMsgType(msgType: string): boolean {
+  return (msgType === 'comm_open' || msgType === 'comm_msg' ||
+          msgType === 'comm_close');
 }
 
 
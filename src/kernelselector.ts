@@ -0,0 +1,102 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import kernel = require('./kernel');
+import kernelspecs = require('./kernelspecs');
+import session = require('./session');
+
+import IMessage = phosphor.core.IMessage;
+import BaseComponent = phosphor.virtualdom.BaseComponent;
+import Elem = phosphor.virtualdom.Elem;
+import createFactory = phosphor.virtualdom.createFactory;
+
+
+/**
+ * Get a logger for the kernel selector.
+ */
+var selector_log = Logger.get('kernelselector');
+
+
+/**
+ * A component which shows the kernel of a session, and switches the
+ * session to the installed kernel chosen by the user.
+ */
+class KernelSelectorComponent extends BaseComponent<session.NotebookSession> {
+
+  constructor(data: session.NotebookSession, children: Elem[]) {
+    super(data, children);
+    this.node.classList.add('ipy-kernel-selector');
+    this._select = document.createElement('select');
+    this._select.title = 'Change the kernel of the notebook';
+    this._select.addEventListener('change', () => { this._onSelect(); });
+    this.node.appendChild(this._select);
+    this._session = data;
+    this._session.kernel.statusChanged.connect(this._onKernelStatus, this);
+    kernelspecs.getKernelSpecs(data.baseUrl).then((specs: kernelspecs.IKernelSpecList) => {
+      this._specs = specs;
+      this.update();
+    }).catch((error: Error) => {
+      selector_log.error('Could not load the kernelspecs: ' + error.message);
+    });
+  }
+
+  dispose(): void {
+    this._session.kernel.statusChanged.disconnect(this._onKernelStatus, this);
+    super.dispose();
+  }
+
+  protected onUpdateRequest(msg: IMessage): void {
+    var name = this._session.kernel.name;
+    var specs = this._specs ? kernelspecs.sortedSpecs(this._specs) : [];
+    this._select.innerHTML = '';
+    var found = false;
+    for (var i = 0; i < specs.length; i++) {
+      var option = document.createElement('option');
+      option.value = specs[i].name;
+      option.textContent = specs[i].spec.display_name;
+      if (specs[i].name === name) {
+        option.selected = true;
+        found = true;
+      }
+      this._select.appendChild(option);
+    }
+    if (!found) {
+      // the kernel of the notebook is not installed, or not known yet
+      var current = document.createElement('option');
+      current.value = name;
+      current.textContent = name;
+      current.disabled = true;
+      current.selected = true;
+      this._select.insertBefore(current, this._select.firstChild);
+    }
+    this._select.disabled = this._changing || specs.length === 0;
+  }
+
+  /**
+   * Switch to the kernel chosen in the list.
+   */
+  private _onSelect(): void {
+    var name = this._select.value;
+    if (name === this._session.kernel.name) {
+      return;
+    }
+    this._changing = true;
+    this.update();
+    this._session.changeKernel(name).catch((error: Error) => {
+      selector_log.error('Could not change the kernel: ' + error.message);
+    }).then(() => {
+      this._changing = false;
+      this.update();
+    });
+  }
+
+  private _onKernelStatus(sender: kernel.Kernel, status: string): void {
+    this.update();
+  }
+
+  private _session: session.NotebookSession;
+  private _select: HTMLSelectElement;
+  private _specs: kernelspecs.IKernelSpecList = null;
+  private _changing = false;
+}
+export var KernelSelector = createFactory(KernelSelectorComponent);
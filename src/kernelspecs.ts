@@ -0,0 +1,165 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import utils = require('./utils');
+
+import IAjaxSuccess = utils.IAjaxSuccess;
+
+
+/**
+ * The url for the kernelspec service.
+ */
+var KERNELSPEC_SERVICE_URL = 'api/kernelspecs';
+
+
+/**
+ * Get a logger for kernelspec objects.
+ */
+var kernelspec_log = Logger.get('kernelspecs');
+
+
+/**
+ * The specification of a kernel, from its `kernel.json` file.
+ */
+export
+interface IKernelSpec {
+  /**
+   * The command line used to start the kernel.
+   */
+  argv: string[];
+
+  /**
+   * The name of the kernel shown to the user, like `Python 3`.
+   */
+  display_name: string;
+
+  /**
+   * The language of the kernel, like `python`.
+   */
+  language: string;
+
+  /**
+   * Environment variables set for the kernel.
+   */
+  env?: { [name: string]: string };
+}
+
+
+/**
+ * An installed kernel, as returned by the kernelspec service.
+ */
+export
+interface IKernelSpecModel {
+  /**
+   * The name of the kernel, used to start it, like `python3`.
+   */
+  name: string;
+
+  /**
+   * The specification of the kernel.
+   */
+  spec: IKernelSpec;
+
+  /**
+   * The urls of the kernel resources, like `logo-64x64`.
+   */
+  resources: { [name: string]: string };
+}
+
+
+/**
+ * The installed kernels.
+ */
+export
+interface IKernelSpecList {
+  /**
+   * The name of the default kernel.
+   */
+  default: string;
+
+  /**
+   * The installed kernels, by name.
+   */
+  kernelspecs: { [name: string]: IKernelSpecModel };
+}
+
+
+/**
+ * GET /api/kernelspecs
+ *
+ * Get the installed kernels.
+ */
+export
+function getKernelSpecs(baseUrl: string): Promise<IKernelSpecList> {
+  var url = utils.urlJoinEncode(baseUrl, KERNELSPEC_SERVICE_URL);
+  return utils.ajaxRequest(url, {
+    method: "GET",
+    dataType: "json"
+  }).then((success: IAjaxSuccess): IKernelSpecList => {
+    if (success.xhr.status !== 200) {
+      throw Error('Invalid Status: ' + success.xhr.status);
+    }
+    return validateKernelSpecList(success.data);
+  });
+}
+
+
+/**
+ * Get the installed kernels sorted by display name.
+ */
+export
+function sortedSpecs(specs: IKernelSpecList): IKernelSpecModel[] {
+  var list = Object.keys(specs.kernelspecs).map(name => specs.kernelspecs[name]);
+  return list.sort((a, b) => a.spec.display_name.localeCompare(b.spec.display_name));
+}
+
+
+/**
+ * Validate the kernelspec service response.
+ *
+ * Invalid kernelspecs are dropped with a warning, an invalid list
+ * throws an error.
+ */
+function validateKernelSpecList(data: any): IKernelSpecList {
+  if (!data || typeof data.kernelspecs !== 'object' || data.kernelspecs === null) {
+    throw Error('Invalid kernelspec list');
+  }
+  var kernelspecs: { [name: string]: IKernelSpecModel } = {};
+  for (var name in data.kernelspecs) {
+    if (!data.kernelspecs.hasOwnProperty(name)) {
+      continue;
+    }
+    try {
+      validateKernelSpecModel(data.kernelspecs[name]);
+    } catch (error) {
+      kernelspec_log.warn('Ignoring kernelspec ' + name + ': ' + error.message);
+      continue;
+    }
+    kernelspecs[name] = data.kernelspecs[name];
+  }
+  var defaultName: string = data.default;
+  if (!kernelspecs.hasOwnProperty(defaultName)) {
+    defaultName = Object.keys(kernelspecs)[0] || null;
+  }
+  return { default: defaultName, kernelspecs: kernelspecs };
+}
+
+
+/**
+ * Validate an object as being of IKernelSpecModel type.
+ */
+function validateKernelSpecModel(model: IKernelSpecModel): void {
+  if (!model || typeof model.name !== 'string' || !model.spec) {
+    throw Error('Invalid kernelspec model');
+  }
+  var spec = model.spec;
+  if (typeof spec.display_name !== 'string' || typeof spec.language !== 'string') {
+    throw Error('Invalid kernelspec');
+  }
+  if (!Array.isArray(spec.argv)) {
+    throw Error('Invalid kernelspec argv');
+  }
+  if (!model.resources) {
+    model.resources = {};
+  }
+}
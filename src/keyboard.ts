@@ -0,0 +1,449 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import commands = require('./commands');
+import selection = require('./selection');
+
+import IDisposable = phosphor.utility.IDisposable;
+import CommandRegistry = commands.CommandRegistry;
+import NotebookMode = selection.NotebookMode;
+import NotebookSelection = selection.NotebookSelection;
+
+
+/**
+ * Get a logger for keyboard handling.
+ */
+var keyboard_log = Logger.get('keyboard');
+
+
+/**
+ * The time to wait for the next key of a key sequence, in milliseconds.
+ */
+var SEQUENCE_TIMEOUT = 1000;
+
+
+/**
+ * The modifiers of a key, in the order used by normalized key names.
+ */
+var MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Cmd'];
+
+
+/**
+ * The names of the non-character keys, by key code.
+ */
+var KEY_NAMES: { [keyCode: number]: string } = {
+  8: 'Backspace', 9: 'Tab', 13: 'Enter', 27: 'Esc', 32: 'Space',
+  33: 'PageUp', 34: 'PageDown', 35: 'End', 36: 'Home',
+  37: 'Left', 38: 'Up', 39: 'Right', 40: 'Down', 45: 'Insert', 46: 'Delete',
+  173: '-', 186: ';', 187: '=', 188: 'Comma', 189: '-', 190: '.',
+  191: '/', 192: '`', 219: '[', 220: '\\', 221: ']', 222: '\''
+};
+
+
+/**
+ * A key binding of a notebook keyboard manager.
+ */
+export
+interface IKeyBinding {
+  /**
+   * The mode in which the binding is active.
+   */
+  mode: NotebookMode;
+
+  /**
+   * The normalized key sequence, like `Shift-Enter` or `D,D`.
+   */
+  keys: string;
+
+  /**
+   * The id of the command run by the binding.
+   */
+  command: string;
+}
+
+
+/**
+ * Normalize a key sequence, like `ctrl-shift-enter` or `d, d`.
+ *
+ * The keys of a sequence are separated by commas, and the modifiers
+ * of each key are sorted, so equivalent sequences compare equal.
+ */
+export
+function normalizeKeys(keys: string): string {
+  return keys.split(',').map(normalizeKey).join(',');
+}
+
+
+/**
+ * Get the normalized name of the key pressed in a keyboard event.
+ *
+ * Returns `null` for modifier keys on their own.
+ */
+export
+function keyForEvent(event: KeyboardEvent): string {
+  var code = event.keyCode;
+  var name: string;
+  if (KEY_NAMES[code]) {
+    name = KEY_NAMES[code];
+  } else if ((code >= 48 && code <= 57) || (code >= 65 && code <= 90)) {
+    name = String.fromCharCode(code);
+  } else if (code >= 112 && code <= 123) {
+    name = 'F' + (code - 111);
+  } else {
+    return null;
+  }
+  var parts: string[] = [];
+  if (event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  if (event.metaKey) parts.push('Cmd');
+  parts.push(name);
+  return parts.join('-');
+}
+
+
+/**
+ * A modal keyboard manager for a notebook view.
+ *
+ * In command mode, keys act on the selected cells. In edit mode, keys
+ * go to the editor of the active cell, except for the edit mode
+ * bindings, which are handled before the editor sees them.
+ *
+ * Bindings map key sequences to the ids of commands in a command
+ * registry, and may be remapped by the user. A binding conflicts with
+ * an existing binding of the same mode if one key sequence is equal
+ * to, or a prefix of, the other.
+ *
+ * Esc is left to the editor while it shows a completer or inspector
+ * popup, so the popup is closed instead of leaving edit mode.
+ */
+export
+class KeyboardManager {
+
+  /**
+   * Construct a new keyboard manager for a notebook node.
+   *
+   * The default bindings are installed.
+   */
+  constructor(node: HTMLElement, notebookSelection: NotebookSelection, registry: CommandRegistry) {
+    this._node = node;
+    this._selection = notebookSelection;
+    this._commands = registry;
+    if (this._node.tabIndex < 0) {
+      // allow the node to take the focus in command mode
+      this._node.tabIndex = -1;
+    }
+    this._onKeydown = (event: KeyboardEvent) => { this.processKeydown(event); };
+    this._node.addEventListener('keydown', this._onKeydown, true);
+    this._selection.changed.connect(this._onSelectionChanged, this);
+    for (var i = 0; i < DEFAULT_BINDINGS.length; i++) {
+      var binding = DEFAULT_BINDINGS[i];
+      this.bind(binding.mode, binding.keys, binding.command);
+    }
+  }
+
+  /**
+   * Get a copy of the current key bindings.
+   */
+  get bindings(): IKeyBinding[] {
+    return this._bindings.map(binding => ({
+      mode: binding.mode,
+      keys: binding.keys,
+      command: binding.command
+    }));
+  }
+
+  /**
+   * Get the key sequences bound to a command in a mode.
+   */
+  keysFor(mode: NotebookMode, command: string): string[] {
+    return this._bindings.filter(binding => {
+      return binding.mode === mode && binding.command === command;
+    }).map(binding => binding.keys);
+  }
+
+  /**
+   * Find the bindings which conflict with a key sequence in a mode.
+   */
+  findConflicts(mode: NotebookMode, keys: string): IKeyBinding[] {
+    keys = normalizeKeys(keys);
+    return this._bindings.filter(binding => {
+      return binding.mode === mode && (binding.keys === keys ||
+        isPrefix(binding.keys, keys) || isPrefix(keys, binding.keys));
+    });
+  }
+
+  /**
+   * Bind a key sequence to a command in a mode.
+   *
+   * Throws an error if the binding conflicts with an existing one.
+   * Disposing the returned object removes the binding.
+   */
+  bind(mode: NotebookMode, keys: string, command: string): IDisposable {
+    keys = normalizeKeys(keys);
+    var conflicts = this.findConflicts(mode, keys);
+    if (conflicts.length) {
+      throw Error('Key binding ' + keys + ' conflicts with: ' +
+                  conflicts.map(binding => binding.keys + ' (' + binding.command + ')').join(', '));
+    }
+    var binding: IKeyBinding = { mode: mode, keys: keys, command: command };
+    this._bindings.push(binding);
+    return new phosphor.utility.Disposable(() => {
+      var index = this._bindings.indexOf(binding);
+      if (index !== -1) {
+        this._bindings.splice(index, 1);
+      }
+    });
+  }
+
+  /**
+   * Remove the binding of a key sequence in a mode, if any.
+   */
+  unbind(mode: NotebookMode, keys: string): void {
+    keys = normalizeKeys(keys);
+    this._bindings = this._bindings.filter(binding => {
+      return binding.mode !== mode || binding.keys !== keys;
+    });
+  }
+
+  /**
+   * Replace the bindings of a command in a mode with a key sequence.
+   *
+   * Throws an error, leaving the bindings unchanged, if the new key
+   * sequence conflicts with the binding of another command.
+   */
+  remap(command: string, mode: NotebookMode, keys: string): void {
+    var old = this._bindings;
+    this._bindings = old.filter(binding => {
+      return binding.mode !== mode || binding.command !== command;
+    });
+    try {
+      this.bind(mode, keys, command);
+    } catch (error) {
+      this._bindings = old;
+      throw error;
+    }
+  }
+
+  /**
+   * Handle a keydown event for the notebook.
+   */
+  processKeydown(event: KeyboardEvent): void {
+    var key = keyForEvent(event);
+    if (!key || isForeignInput(<HTMLElement>event.target)) {
+      return;
+    }
+    var mode = this._selection.mode;
+    if (mode === NotebookMode.Edit && key === 'Esc' && hasEditorPopup()) {
+      return;
+    }
+    var keys = this._pending.concat([key]).join(',');
+    this._clearPending();
+    var binding = this._findBinding(mode, keys);
+    if (!binding && keys !== key) {
+      // the sequence was broken, try the key on its own
+      keys = key;
+      binding = this._findBinding(mode, keys);
+    }
+    if (binding) {
+      event.preventDefault();
+      event.stopPropagation();
+      this._runCommand(binding.command);
+      return;
+    }
+    if (this._isSequencePrefix(mode, keys)) {
+      event.preventDefault();
+      event.stopPropagation();
+      this._pending = keys.split(',');
+      this._timer = setTimeout(() => { this._clearPending(); }, SEQUENCE_TIMEOUT);
+    }
+  }
+
+  /**
+   * Stop handling keys for the notebook.
+   */
+  dispose(): void {
+    this._clearPending();
+    this._node.removeEventListener('keydown', this._onKeydown, true);
+    this._selection.changed.disconnect(this._onSelectionChanged, this);
+  }
+
+  /**
+   * Run the command with the given id.
+   */
+  private _runCommand(id: string): void {
+    if (!this._commands.has(id)) {
+      keyboard_log.warn('Key binding for unknown command: ' + id);
+      return;
+    }
+    this._commands.execute(id);
+  }
+
+  /**
+   * Find the binding of a key sequence in a mode.
+   */
+  private _findBinding(mode: NotebookMode, keys: string): IKeyBinding {
+    for (var i = 0; i < this._bindings.length; i++) {
+      var binding = this._bindings[i];
+      if (binding.mode === mode && binding.keys === keys) {
+        return binding;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Test whether keys start a longer key sequence in a mode.
+   */
+  private _isSequencePrefix(mode: NotebookMode, keys: string): boolean {
+    return this._bindings.some(binding => {
+      return binding.mode === mode && isPrefix(keys, binding.keys);
+    });
+  }
+
+  /**
+   * Forget the keys of a pending key sequence.
+   */
+  private _clearPending(): void {
+    if (this._timer !== -1) {
+      clearTimeout(this._timer);
+      this._timer = -1;
+    }
+    this._pending = [];
+  }
+
+  /**
+   * Take the focus back from the editors in command mode.
+   */
+  private _onSelectionChanged(sender: NotebookSelection, value: void): void {
+    if (this._selection.mode !== NotebookMode.Command) {
+      return;
+    }
+    var focused = <HTMLElement>document.activeElement;
+    if (focused !== this._node && this._node.contains(focused)) {
+      this._node.focus();
+    }
+  }
+
+  private _node: HTMLElement = null;
+  private _selection: NotebookSelection = null;
+  private _onKeydown: (event: KeyboardEvent) => void = null;
+  private _commands: CommandRegistry = null;
+  private _bindings: IKeyBinding[] = [];
+  private _pending: string[] = [];
+  private _timer = -1;
+}
+
+
+/**
+ * Normalize a single key, like `shift-ctrl-a` to `Ctrl-Shift-A`.
+ */
+function normalizeKey(key: string): string {
+  key = key.trim();
+  // the last part is the key itself, which may be a `-`
+  var match = /^(.*?)-?([^-]+|-)$/.exec(key);
+  var name = match[2];
+  var modifiers = match[1] ? match[1].split('-') : [];
+  var found: boolean[] = MODIFIERS.map(() => false);
+  for (var i = 0; i < modifiers.length; i++) {
+    var modifier = modifiers[i].toLowerCase();
+    if (modifier === 'cmd' || modifier === 'meta') {
+      modifier = 'cmd';
+    }
+    var index = MODIFIERS.map(m => m.toLowerCase()).indexOf(modifier);
+    if (index === -1) {
+      throw Error('Invalid key modifier: ' + modifiers[i]);
+    }
+    found[index] = true;
+  }
+  if (name.length === 1) {
+    name = name.toUpperCase();
+  } else {
+    name = name.charAt(0).toUpperCase() + name.slice(1);
+    if (name === 'Escape') name = 'Esc';
+    if (name === 'Return') name = 'Enter';
+    if (name === 'Pageup') name = 'PageUp';
+    if (name === 'Pagedown') name = 'PageDown';
+  }
+  var parts = MODIFIERS.filter((m, i) => found[i]);
+  parts.push(name);
+  return parts.join('-');
+}
+
+
+/**
+ * Test whether a key sequence is a strict prefix of another one.
+ */
+function isPrefix(prefix: string, keys: string): boolean {
+  return keys.indexOf(prefix + ',') === 0;
+}
+
+
+/**
+ * Test whether an element is a text input other than a cell editor,
+ * like a stdin prompt, whose keys are left alone.
+ */
+function isForeignInput(target: HTMLElement): boolean {
+  var tag = target.tagName;
+  if (tag !== 'INPUT' && tag !== 'TEXTAREA' && tag !== 'SELECT') {
+    return false;
+  }
+  var node = target;
+  while (node) {
+    if (node.classList && node.classList.contains('CodeMirror')) {
+      return false;
+    }
+    node = node.parentElement;
+  }
+  return true;
+}
+
+
+/**
+ * Test whether an editor shows a completer or inspector popup.
+ *
+ * The popups close when their editor loses the focus, so an open
+ * popup belongs to the focused editor.
+ */
+function hasEditorPopup(): boolean {
+  return document.querySelector('.ipy-completer, .ipy-tooltip') !== null;
+}
+
+
+/**
+ * The default key bindings.
+ */
+var DEFAULT_BINDINGS: IKeyBinding[] = [
+  { mode: NotebookMode.Edit, keys: 'Esc', command: 'notebook:enter-command-mode' },
+  { mode: NotebookMode.Edit, keys: 'Ctrl-M', command: 'notebook:enter-command-mode' },
+  { mode: NotebookMode.Edit, keys: 'Shift-Enter', command: 'notebook:run-cell-and-select-next' },
+  { mode: NotebookMode.Edit, keys: 'Ctrl-Enter', command: 'notebook:run-cell' },
+  { mode: NotebookMode.Edit, keys: 'Alt-Enter', command: 'notebook:run-cell-and-insert-below' },
+  { mode: NotebookMode.Command, keys: 'Enter', command: 'notebook:enter-edit-mode' },
+  { mode: NotebookMode.Command, keys: 'Shift-Enter', command: 'notebook:run-cell-and-select-next' },
+  { mode: NotebookMode.Command, keys: 'Ctrl-Enter', command: 'notebook:run-cell' },
+  { mode: NotebookMode.Command, keys: 'Alt-Enter', command: 'notebook:run-cell-and-insert-below' },
+  { mode: NotebookMode.Command, keys: 'A', command: 'notebook:insert-cell-above' },
+  { mode: NotebookMode.Command, keys: 'B', command: 'notebook:insert-cell-below' },
+  { mode: NotebookMode.Command, keys: 'D,D', command: 'notebook:delete-cells' },
+  { mode: NotebookMode.Command, keys: 'M', command: 'notebook:change-cell-to-markdown' },
+  { mode: NotebookMode.Command, keys: 'Y', command: 'notebook:change-cell-to-code' },
+  { mode: NotebookMode.Command, keys: 'K', command: 'notebook:select-previous-cell' },
+  { mode: NotebookMode.Command, keys: 'Up', command: 'notebook:select-previous-cell' },
+  { mode: NotebookMode.Command, keys: 'J', command: 'notebook:select-next-cell' },
+  { mode: NotebookMode.Command, keys: 'Down', command: 'notebook:select-next-cell' },
+  { mode: NotebookMode.Command, keys: 'Shift-K', command: 'notebook:extend-selection-above' },
+  { mode: NotebookMode.Command, keys: 'Shift-Up', command: 'notebook:extend-selection-above' },
+  { mode: NotebookMode.Command, keys: 'Shift-J', command: 'notebook:extend-selection-below' },
+  { mode: NotebookMode.Command, keys: 'Shift-Down', command: 'notebook:extend-selection-below' },
+  { mode: NotebookMode.Command, keys: 'Ctrl-A', command: 'notebook:select-all' },
+  { mode: NotebookMode.Command, keys: 'Z', command: 'notebook:undo' },
+  { mode: NotebookMode.Command, keys: 'Shift-Z', command: 'notebook:redo' },
+  { mode: NotebookMode.Command, keys: 'I,I', command: 'kernel:interrupt' },
+  { mode: NotebookMode.Command, keys: '0,0', command: 'kernel:restart' },
+  { mode: NotebookMode.Command, keys: 'S', command: 'notebook:save' },
+  { mode: NotebookMode.Command, keys: 'Ctrl-S', command: 'notebook:save' },
+  { mode: NotebookMode.Edit, keys: 'Ctrl-S', command: 'notebook:save' },
+  { mode: NotebookMode.Command, keys: 'Ctrl-Shift-P', command: 'palette:toggle' },
+  { mode: NotebookMode.Edit, keys: 'Ctrl-Shift-P', command: 'palette:toggle' }
+];
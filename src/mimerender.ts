@@ -0,0 +1,381 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import ansi = require('./ansi');
+import mathjaxutils = require('./mathjaxutils');
+import sanitizer = require('./sanitizer');
+
+import IMessage = phosphor.core.IMessage;
+import IDisposable = phosphor.utility.IDisposable;
+import DOM = phosphor.virtualdom.dom;
+import Component = phosphor.virtualdom.Component;
+import BaseComponent = phosphor.virtualdom.BaseComponent;
+import Elem = phosphor.virtualdom.Elem;
+import createFactory = phosphor.virtualdom.createFactory;
+
+
+/**
+ * Get a logger for mime rendering.
+ */
+var render_log = Logger.get('mimerender');
+
+
+/**
+ * The data passed to a renderer for one entry of a mimebundle.
+ */
+export
+interface IRenderData {
+  /**
+   * The mimetype being rendered.
+   */
+  mimetype: string;
+
+  /**
+   * The data for the mimetype, a string or a JSON object.
+   */
+  data: any;
+
+  /**
+   * The output metadata for the mimetype, like image sizes.
+   */
+  metadata: any;
+
+  /**
+   * Whether the output is trusted. Untrusted HTML is sanitized.
+   */
+  trusted: boolean;
+}
+
+
+/**
+ * A function which renders the data for a mimetype.
+ */
+export
+interface IRenderFunc {
+  (data: IRenderData): Elem;
+}
+
+
+/**
+ * Renderer registration options.
+ */
+export
+interface IRendererOptions {
+  /**
+   * The rank of the renderer. When a mimebundle holds several
+   * mimetypes, the one with the highest ranked renderer is used.
+   */
+  rank: number;
+
+  /**
+   * Whether the renderer is safe for untrusted output.
+   *
+   * Unsafe renderers may run code from the output, and are skipped
+   * unless the output is trusted.
+   */
+  safe: boolean;
+}
+
+
+/**
+ * The data for a mimebundle component.
+ */
+export
+interface IMimeBundleData {
+  /**
+   * The mimebundle to render.
+   */
+  bundle: { [mimetype: string]: any };
+
+  /**
+   * The output metadata, keyed by mimetype.
+   */
+  metadata?: { [mimetype: string]: any };
+
+  /**
+   * Whether the output is trusted, enabling the unsafe renderers.
+   */
+  trusted: boolean;
+}
+
+
+/**
+ * A registered renderer.
+ */
+interface IRenderer extends IRendererOptions {
+  mimetype: string;
+  render: IRenderFunc;
+}
+
+
+/**
+ * Register a renderer for a mimetype.
+ *
+ * A renderer replaces any previous renderer for the same mimetype,
+ * until it is disposed. Disposing the returned object removes the
+ * renderer, restoring the previous one.
+ */
+export
+function registerRenderer(mimetype: string, render: IRenderFunc, options: IRendererOptions): IDisposable {
+  var renderer: IRenderer = {
+    mimetype: mimetype,
+    render: render,
+    rank: options.rank,
+    safe: options.safe
+  };
+  var renderers = rendererRegistry.get(mimetype);
+  if (!renderers) {
+    renderers = [];
+    rendererRegistry.set(mimetype, renderers);
+  }
+  renderers.push(renderer);
+  return new phosphor.utility.Disposable(() => {
+    var index = renderers.indexOf(renderer);
+    if (index !== -1) {
+      renderers.splice(index, 1);
+    }
+    if (renderers.length === 0 && rendererRegistry.get(mimetype) === renderers) {
+      rendererRegistry.delete(mimetype);
+    }
+  });
+}
+
+
+/**
+ * Get the preferred mimetype of a mimebundle.
+ *
+ * This is the mimetype with the highest ranked renderer which may
+ * render the output. Returns `null` if no mimetype can be rendered.
+ */
+export
+function preferredMimetype(bundle: { [mimetype: string]: any }, trusted: boolean): string {
+  var renderer = findRenderer(bundle, trusted);
+  return renderer ? renderer.mimetype : null;
+}
+
+
+/**
+ * Render a mimebundle with the preferred renderer.
+ *
+ * Returns `null` if no mimetype can be rendered.
+ */
+export
+function renderMimeBundle(bundle: { [mimetype: string]: any }, metadata: { [mimetype: string]: any }, trusted: boolean): Elem {
+  var renderer = findRenderer(bundle, trusted);
+  if (!renderer) {
+    render_log.warn('No renderer for mimetypes: ' + Object.keys(bundle).join(', '));
+    return null;
+  }
+  return renderer.render({
+    mimetype: renderer.mimetype,
+    data: bundle[renderer.mimetype],
+    metadata: (metadata && metadata[renderer.mimetype]) || {},
+    trusted: trusted
+  });
+}
+
+
+/**
+ * A component which renders a mimebundle with the registered renderers.
+ */
+class MimeBundleComponent extends Component<IMimeBundleData> {
+  render() {
+    return renderMimeBundle(this.data.bundle, this.data.metadata, this.data.trusted);
+  }
+}
+export var MimeBundle = createFactory(MimeBundleComponent);
+
+
+/**
+ * Render markdown into a node, typesetting any math with MathJax.
+ *
+ * HTML in the markdown is allowed, and the result is sanitized.
+ */
+export
+function renderMarkdown(source: string, node: HTMLElement): void {
+  var t = mathjaxutils.remove_math(source);
+  marked(t.html, { sanitize: false, renderer: renderer}, (err: any, html: string) => {
+      node.innerHTML = sanitizer.sanitize(mathjaxutils.replace_math(html, t.math));
+      MathJax.Hub.Queue(["Typeset", MathJax.Hub, node]);
+  });
+}
+
+
+/**
+ * Find the highest ranked renderer for a mimebundle.
+ */
+function findRenderer(bundle: { [mimetype: string]: any }, trusted: boolean): IRenderer {
+  var best: IRenderer = null;
+  for (var mimetype in bundle) {
+    if (!bundle.hasOwnProperty(mimetype)) {
+      continue;
+    }
+    var renderers = rendererRegistry.get(mimetype);
+    if (!renderers) {
+      continue;
+    }
+    // the most recently registered renderer which may be used
+    for (var i = renderers.length - 1; i >= 0; i--) {
+      var candidate = renderers[i];
+      if (!trusted && !candidate.safe) {
+        continue;
+      }
+      if (!best || candidate.rank > best.rank) {
+        best = candidate;
+      }
+      break;
+    }
+  }
+  return best;
+}
+
+
+/**
+ * The registered renderers, by mimetype.
+ */
+var rendererRegistry = new Map<string, IRenderer[]>();
+
+
+// customized renderer example from marked.js readme
+var renderer = new (<any>marked).Renderer();
+renderer.heading = function (text: string, level: number) {
+  var escapedText = text.toLowerCase().replace(/[^\w]+/g, '-');
+  return `<h${level} id="${escapedText}">${text}<a class="anchor-link" href="#${escapedText}">¶</a></h${level}>`;
+}
+
+renderer.unescape = function(html: string): string {
+  // from https://github.com/chjj/marked/blob/2b5802f258c5e23e48366f2377fbb4c807f47658/lib/marked.js#L1085
+  return html.replace(/&([#\w]+);/g, function(_, n) {
+    n = n.toLowerCase();
+    if (n === 'colon') return ':';
+    if (n.charAt(0) === '#') {
+      return n.charAt(1) === 'x'
+        ? String.fromCharCode(parseInt(n.substring(2), 16))
+        : String.fromCharCode(+n.substring(1));
+    }
+    return '';
+  });
+}
+
+renderer.check_url = function(href: string): boolean {
+    try {
+        var prot = decodeURIComponent(this.unescape(href))
+            .replace(/[^\w:]/g, '')
+            .toLowerCase();
+    } catch (e) {
+        return false;
+    }
+    if (prot.indexOf('javascript:') === 0 || prot.indexOf('vbscript:') === 0) {
+        return false;
+    }
+    return true;
+};
+
+renderer.link = function(href: string, title: string, text: string) {
+    //modified from the mark.js source to open all urls in new tabs
+    if (!this.check_url(href)) {
+        return '';
+    }
+    return `<a href="${href}" ${title ? `title="${title}"` : ""} ${href[0] !== "#" ? "target=_blank" : ""}>${text}</a>`;
+};
+
+
+/**
+ * A component which sets its HTML from the data, used for HTML and SVG.
+ *
+ * Untrusted data is sanitized, so it cannot run script.
+ */
+class HTMLComponent extends BaseComponent<IRenderData> {
+  protected onUpdateRequest(msg: IMessage): void {
+    var html: string = this.data.data;
+    this.node.innerHTML = this.data.trusted ? html : sanitizer.sanitize(html);
+  }
+}
+var HTML = createFactory(HTMLComponent);
+
+
+/**
+ * A component which renders markdown.
+ */
+class MarkdownComponent extends BaseComponent<IRenderData> {
+  protected onUpdateRequest(msg: IMessage): void {
+    renderMarkdown(this.data.data, this.node);
+  }
+}
+var Markdown = createFactory(MarkdownComponent);
+
+
+/**
+ * A component which typesets LaTeX with MathJax.
+ */
+class LatexComponent extends BaseComponent<IRenderData> {
+  protected onUpdateRequest(msg: IMessage): void {
+    this.node.textContent = this.data.data;
+    MathJax.Hub.Queue(["Typeset", MathJax.Hub, this.node]);
+  }
+}
+var Latex = createFactory(LatexComponent);
+
+
+/**
+ * A component which runs JavaScript, with the output node bound
+ * to `element`.
+ */
+class JavascriptComponent extends BaseComponent<IRenderData> {
+  protected onUpdateRequest(msg: IMessage): void {
+    this.node.textContent = '';
+    try {
+      new Function('element', this.data.data)(this.node);
+    } catch (error) {
+      render_log.error('Error in JavaScript output: ' + error.message);
+      this.node.textContent = 'Javascript error: ' + error.message;
+    }
+  }
+}
+var Javascript = createFactory(JavascriptComponent);
+
+
+/**
+ * A component which renders plain text, with any ANSI escape
+ * sequences as styled text.
+ */
+class TextComponent extends BaseComponent<IRenderData> {
+
+  constructor(data: IRenderData, children: Elem[]) {
+    super(data, children);
+    this._pre = document.createElement('pre');
+    this.node.appendChild(this._pre);
+  }
+
+  protected onUpdateRequest(msg: IMessage): void {
+    this._pre.innerHTML = ansi.ansiToHTML(this.data.data);
+  }
+
+  private _pre: HTMLElement;
+}
+var PlainText = createFactory(TextComponent);
+
+
+/**
+ * Render base64 encoded image data.
+ */
+function renderImage(data: IRenderData): Elem {
+  var attrs: any = { src: 'data:' + data.mimetype + ';base64,' + data.data };
+  if (data.metadata.width) attrs.width = data.metadata.width;
+  if (data.metadata.height) attrs.height = data.metadata.height;
+  return DOM.img(attrs);
+}
+
+
+registerRenderer('application/javascript', (data: IRenderData) => Javascript(data), { rank: 100, safe: false });
+registerRenderer('text/html', (data: IRenderData) => HTML(data), { rank: 90, safe: true });
+registerRenderer('text/markdown', (data: IRenderData) => Markdown(data), { rank: 80, safe: true });
+registerRenderer('text/latex', (data: IRenderData) => Latex(data), { rank: 70, safe: true });
+registerRenderer('image/svg+xml', (data: IRenderData) => HTML(data), { rank: 60, safe: true });
+registerRenderer('image/png', renderImage, { rank: 50, safe: true });
+registerRenderer('image/jpeg', renderImage, { rank: 40, safe: true });
+// written by some old versions of IPython
+registerRenderer('image/jpg', renderImage, { rank: 40, safe: true });
+registerRenderer('image/gif', renderImage, { rank: 30, safe: true });
+registerRenderer('application/json', (data: IRenderData) => DOM.pre(JSON.stringify(data.data, null, 2)), { rank: 20, safe: true });
+registerRenderer('text/plain', (data: IRenderData) => PlainText(data), { rank: 0, safe: true });
@@ -1,5 +1,7 @@
 // Notebook format interfaces
 
+import nbupgrade = require("./nbupgrade");
+
 // In the notebook format *disk* representation, this would be string | string[]
 export type multilineString = string;
 
@@ -7,6 +9,7 @@ export
 interface MimeBundle {
     // values are always multilineString if we pretend that the application/json key doesn't exist
     // in fact, the in-memory representation always is a string
+    // (the same goes for other json mimetypes, like application/vnd.jupyter.widget-view+json)
     [key: string]: multilineString;
 
     // we fudge the standard a bit here by not telling Typescript about the application/json
@@ -101,6 +104,7 @@ interface Notebook {
             pygments_lexer?: string
         };
         orig_nbformat?: number;
+        signature?: string;
     }
     nbformat_minor: number;
     nbformat: number;
@@ -113,3 +117,522 @@ interface NBData {
     name: string;
     path: string;
 }
+
+
+/**
+ * Get a logger for nbformat functions.
+ */
+var nbformat_log = Logger.get('nbformat');
+
+
+/**
+ * The major version of the notebook format.
+ */
+export
+var MAJOR_VERSION = 4;
+
+
+/**
+ * The minor version of the notebook format.
+ */
+export
+var MINOR_VERSION = 0;
+
+
+/**
+ * Mimetypes other than text/* which are stored as multiline strings.
+ */
+var NON_TEXT_SPLIT_MIMETYPES = ["application/javascript", "image/svg+xml"];
+
+
+/**
+ * A notebook format validation error.
+ */
+export
+interface IValidationError {
+    /**
+     * The path of the invalid value, like `/cells/2/outputs/0/name`.
+     */
+    path: string;
+
+    /**
+     * A description of the error.
+     */
+    message: string;
+}
+
+
+/**
+ * Options for loading a notebook from its disk representation.
+ */
+export
+interface IFromDiskOptions {
+    /**
+     * Throw an error if the notebook is invalid, instead of logging a warning.
+     */
+    strict?: boolean;
+}
+
+
+/**
+ * Test whether a mimetype holds JSON data rather than a multiline string.
+ *
+ * Like the notebook format schema and `rejoin_lines` of the Python
+ * `nbformat` package, this only matches `application/json` and the
+ * `application/*+json` mimetypes.
+ */
+export
+function isJSONMimetype(mimetype: string): boolean {
+    return /^application\/(.*\+)?json$/.test(mimetype);
+}
+
+
+/**
+ * Load a notebook from its disk representation.
+ *
+ * The argument can be the `.ipynb` file contents or the parsed JSON.
+ * Older notebook formats are upgraded, the notebook is validated against
+ * the notebook format, and multiline strings stored as arrays of lines
+ * are joined. Unless `strict` is set, an invalid notebook is only
+ * logged, and its invalid values are kept as they are; a top level
+ * value which is not an object always throws an error.
+ */
+export
+function fromDisk(data: string | {}, options?: IFromDiskOptions): Notebook {
+    var nb = (typeof data === "string") ? JSON.parse(<string>data) : deepCopy(data);
+    if (isObject(nb)) {
+        nb = nbupgrade.upgrade(nb);
+    }
+    var errors = validate(nb);
+    if (errors.length) {
+        var msg = errors.map(formatError).join('\n');
+        if ((options && options.strict) || !isObject(nb)) {
+            throw Error('Invalid notebook:\n' + msg);
+        }
+        nbformat_log.warn('Notebook does not match the notebook format:\n' + msg);
+    }
+    forEachMultiline(nb, multilineToString, mimetype => !isJSONMimetype(mimetype));
+    return nb;
+}
+
+
+/**
+ * Convert a notebook to its disk representation as JSON data.
+ *
+ * Multiline strings are split into arrays of lines.
+ */
+export
+function toDiskJSON(nb: Notebook): {} {
+    var disknb = deepCopy(nb);
+    forEachMultiline(disknb, splitLines, isSplitMimetype);
+    return disknb;
+}
+
+
+/**
+ * Convert a notebook to the contents of an `.ipynb` file.
+ *
+ * This writes the notebook the same way as the Python `nbformat`
+ * package: keys are sorted, the indent is one space, and the file
+ * ends with a newline. A canonical file round-trips unchanged
+ * through `fromDisk` and `toDisk`.
+ */
+export
+function toDisk(nb: Notebook): string {
+    return JSON.stringify(sortKeys(toDiskJSON(nb)), null, 1) + "\n";
+}
+
+
+/**
+ * Convert a notebook to the contents of an nbformat 3 `.ipynb` file,
+ * for use with older tools.
+ *
+ * The file is written like `toDisk`. Output data with no version 3
+ * equivalent is dropped, and the notebook is not signed.
+ */
+export
+function toDiskV3(nb: Notebook): string {
+    var disknb = nbupgrade.downgrade(toDiskJSON(nb));
+    return JSON.stringify(sortKeys(disknb), null, 1) + "\n";
+}
+
+
+/**
+ * Convert a notebook to the canonical JSON text used for signatures.
+ *
+ * This is the compact disk representation with sorted keys, without
+ * the `metadata.signature` value.
+ */
+export
+function canonicalJSON(nb: Notebook): string {
+    var disknb: any = toDiskJSON(nb);
+    delete disknb.metadata.signature;
+    return JSON.stringify(sortKeys(disknb));
+}
+
+
+/**
+ * Validate the disk representation of a notebook against the
+ * notebook format, returning a list of errors.
+ */
+export
+function validate(nb: any): IValidationError[] {
+    var errors: IValidationError[] = [];
+    var error = (path: string, message: string) => {
+        errors.push({ path: path || "/", message: message });
+    };
+    if (!isObject(nb)) {
+        error("", "notebook must be an object");
+        return errors;
+    }
+    checkKeys(nb, "", ["metadata", "nbformat", "nbformat_minor", "cells"], [], error);
+    if (nb.nbformat !== MAJOR_VERSION) {
+        error("/nbformat", "unsupported notebook format: " + nb.nbformat);
+    }
+    if (!isInteger(nb.nbformat_minor) || nb.nbformat_minor < 0) {
+        error("/nbformat_minor", "must be a non-negative integer");
+    }
+    if (isObject(nb.metadata)) {
+        validateNotebookMetadata(nb.metadata, error);
+    }
+    if (!Array.isArray(nb.cells)) {
+        if (nb.cells !== void 0) {
+            error("/cells", "must be an array");
+        }
+        return errors;
+    }
+    for (var i = 0; i < nb.cells.length; i++) {
+        validateCell(nb.cells[i], "/cells/" + i, nb.nbformat_minor, error);
+    }
+    return errors;
+}
+
+
+/**
+ * A callback reporting a validation error.
+ */
+interface IErrorCallback {
+    (path: string, message: string): void;
+}
+
+
+/**
+ * Validate the notebook level metadata.
+ */
+function validateNotebookMetadata(metadata: any, error: IErrorCallback): void {
+    var kernelspec = metadata.kernelspec;
+    if (kernelspec !== void 0) {
+        checkKeys(kernelspec, "/metadata/kernelspec", ["name", "display_name"], null, error);
+        checkString(kernelspec.name, "/metadata/kernelspec/name", error);
+        checkString(kernelspec.display_name, "/metadata/kernelspec/display_name", error);
+    }
+    var language_info = metadata.language_info;
+    if (language_info !== void 0) {
+        checkKeys(language_info, "/metadata/language_info", ["name"], null, error);
+        checkString(language_info.name, "/metadata/language_info/name", error);
+    }
+    if (metadata.orig_nbformat !== void 0 &&
+        (!isInteger(metadata.orig_nbformat) || metadata.orig_nbformat < 1)) {
+        error("/metadata/orig_nbformat", "must be a positive integer");
+    }
+}
+
+
+/**
+ * Validate a cell.
+ */
+function validateCell(cell: any, path: string, minor: number, error: IErrorCallback): void {
+    if (!isObject(cell)) {
+        error(path, "cell must be an object");
+        return;
+    }
+    // cell ids were added in nbformat 4.5
+    var optional = minor >= 5 ? ["id"] : [];
+    switch (cell.cell_type) {
+        case "code":
+            checkKeys(cell, path, ["cell_type", "metadata", "source", "outputs", "execution_count"], optional, error);
+            if (cell.execution_count !== void 0 && cell.execution_count !== null &&
+                !isInteger(cell.execution_count)) {
+                error(path + "/execution_count", "must be an integer or null");
+            }
+            if (Array.isArray(cell.outputs)) {
+                for (var i = 0; i < cell.outputs.length; i++) {
+                    validateOutput(cell.outputs[i], path + "/outputs/" + i, error);
+                }
+            } else if (cell.outputs !== void 0) {
+                error(path + "/outputs", "must be an array");
+            }
+            break;
+        case "markdown":
+        case "raw":
+            checkKeys(cell, path, ["cell_type", "metadata", "source"], optional.concat(["attachments"]), error);
+            break;
+        default:
+            error(path + "/cell_type", "unknown cell type: " + cell.cell_type);
+            return;
+    }
+    if (cell.metadata !== void 0 && !isObject(cell.metadata)) {
+        error(path + "/metadata", "must be an object");
+    }
+    checkMultiline(cell.source, path + "/source", error);
+}
+
+
+/**
+ * Validate an output.
+ */
+function validateOutput(output: any, path: string, error: IErrorCallback): void {
+    if (!isObject(output)) {
+        error(path, "output must be an object");
+        return;
+    }
+    switch (output.output_type) {
+        case "execute_result":
+            checkKeys(output, path, ["output_type", "execution_count", "data", "metadata"], [], error);
+            if (output.execution_count !== void 0 && output.execution_count !== null &&
+                !isInteger(output.execution_count)) {
+                error(path + "/execution_count", "must be an integer or null");
+            }
+            validateMimeBundle(output.data, path + "/data", error);
+            break;
+        case "display_data":
+            checkKeys(output, path, ["output_type", "data", "metadata"], [], error);
+            validateMimeBundle(output.data, path + "/data", error);
+            break;
+        case "stream":
+            checkKeys(output, path, ["output_type", "name", "text"], [], error);
+            checkString(output.name, path + "/name", error);
+            checkMultiline(output.text, path + "/text", error);
+            break;
+        case "error":
+            checkKeys(output, path, ["output_type", "ename", "evalue", "traceback"], [], error);
+            checkString(output.ename, path + "/ename", error);
+            checkString(output.evalue, path + "/evalue", error);
+            if (!Array.isArray(output.traceback) ||
+                !output.traceback.every((line: any) => typeof line === "string")) {
+                error(path + "/traceback", "must be an array of strings");
+            }
+            break;
+        default:
+            error(path + "/output_type", "unknown output type: " + output.output_type);
+    }
+}
+
+
+/**
+ * Validate a mimebundle.
+ */
+function validateMimeBundle(data: any, path: string, error: IErrorCallback): void {
+    if (!isObject(data)) {
+        if (data !== void 0) {
+            error(path, "must be an object");
+        }
+        return;
+    }
+    for (var key in data) {
+        if (data.hasOwnProperty(key) && !isJSONMimetype(key)) {
+            checkMultiline(data[key], path + "/" + key, error);
+        }
+    }
+}
+
+
+/**
+ * Check that an object has the required keys and no unknown keys.
+ *
+ * If `optional` is null, unknown keys are allowed.
+ */
+function checkKeys(obj: any, path: string, required: string[], optional: string[], error: IErrorCallback): void {
+    if (!isObject(obj)) {
+        error(path, "must be an object");
+        return;
+    }
+    for (var i = 0; i < required.length; i++) {
+        if (!obj.hasOwnProperty(required[i])) {
+            error(path, "missing required property: " + required[i]);
+        }
+    }
+    if (optional === null) {
+        return;
+    }
+    for (var key in obj) {
+        if (obj.hasOwnProperty(key) && required.indexOf(key) === -1 &&
+            optional.indexOf(key) === -1) {
+            error(path + "/" + key, "unknown property");
+        }
+    }
+}
+
+
+/**
+ * Check that a value is a string, if it is defined.
+ */
+function checkString(value: any, path: string, error: IErrorCallback): void {
+    if (value !== void 0 && typeof value !== "string") {
+        error(path, "must be a string");
+    }
+}
+
+
+/**
+ * Check that a value is a multiline string, if it is defined.
+ */
+function checkMultiline(value: any, path: string, error: IErrorCallback): void {
+    if (value !== void 0 && !isMultilineValue(value)) {
+        error(path, "must be a string or an array of strings");
+    }
+}
+
+
+/**
+ * Format a validation error for display.
+ */
+function formatError(error: IValidationError): string {
+    return error.path + ": " + error.message;
+}
+
+
+/**
+ * Call a function on every multiline string of a notebook,
+ * replacing the value with the result.
+ *
+ * Output data is only passed to the function for the mimetypes
+ * accepted by `isMultiline`. Cells, outputs and values of the wrong
+ * type, which are left in a notebook loaded without `strict`, are
+ * skipped.
+ */
+function forEachMultiline(nb: any, fn: (value: any) => any, isMultiline: (mimetype: string) => boolean): void {
+    var cells: any[] = Array.isArray(nb.cells) ? nb.cells : [];
+    for (var i = 0; i < cells.length; i++) {
+        var c = cells[i];
+        if (!isObject(c)) {
+            continue;
+        }
+        if (isMultilineValue(c.source)) {
+            c.source = fn(c.source);
+        }
+        if (c.cell_type !== "code" || !Array.isArray(c.outputs)) {
+            continue;
+        }
+        for (var j = 0; j < c.outputs.length; j++) {
+            var out = c.outputs[j];
+            if (!isObject(out)) {
+                continue;
+            }
+            switch (out.output_type) {
+                case "stream":
+                    if (isMultilineValue(out.text)) {
+                        out.text = fn(out.text);
+                    }
+                    break;
+                case "execute_result":
+                case "display_data":
+                    var d = isObject(out.data) ? out.data : {};
+                    for (var key in d) {
+                        if (d.hasOwnProperty(key) && isMultiline(key) && isMultilineValue(d[key])) {
+                            d[key] = fn(d[key]);
+                        }
+                    }
+                    break;
+            }
+        }
+    }
+}
+
+
+/**
+ * Test whether the data of a mimetype is split into lines on disk.
+ *
+ * This matches the Python `nbformat` package, which leaves other
+ * mimetypes (like base64 images) as single strings.
+ */
+function isSplitMimetype(mimetype: string): boolean {
+    return (mimetype.indexOf("text/") === 0 ||
+            NON_TEXT_SPLIT_MIMETYPES.indexOf(mimetype) !== -1);
+}
+
+
+/**
+ * Test whether a value is a multiline string, stored either as a
+ * string or as an array of lines.
+ */
+function isMultilineValue(value: any): boolean {
+    return (typeof value === "string" ||
+            (Array.isArray(value) && value.every((line: any) => typeof line === "string")));
+}
+
+
+/**
+ * Join a multiline string stored as an array of lines.
+ */
+function multilineToString(value: string | string[]): string {
+    return (typeof value === "string") ? <string>value : (<string[]>value).join("");
+}
+
+
+/**
+ * Split a string into an array of lines, keeping the line endings.
+ *
+ * The line boundaries are the same as for the Python `str.splitlines`.
+ */
+function splitLines(value: string | string[]): string[] {
+    if (typeof value !== "string") {
+        return <string[]>value;
+    }
+    var lines: string[] = [];
+    var re = /\r\n|[\n\r\x0b\x0c\x1c\x1d\x1e\x85\u2028\u2029]/g;
+    var start = 0;
+    var match: RegExpExecArray;
+    while ((match = re.exec(<string>value)) !== null) {
+        var end = match.index + match[0].length;
+        lines.push((<string>value).slice(start, end));
+        start = end;
+    }
+    if (start < (<string>value).length) {
+        lines.push((<string>value).slice(start));
+    }
+    return lines;
+}
+
+
+/**
+ * Return a copy of a JSON value with the object keys sorted.
+ */
+function sortKeys(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(sortKeys);
+    }
+    if (!isObject(value)) {
+        return value;
+    }
+    var result: any = {};
+    var keys = Object.keys(value).sort();
+    for (var i = 0; i < keys.length; i++) {
+        result[keys[i]] = sortKeys(value[keys[i]]);
+    }
+    return result;
+}
+
+
+/**
+ * Make a deep copy of a JSON value.
+ */
+function deepCopy(value: any): any {
+    return JSON.parse(JSON.stringify(value));
+}
+
+
+/**
+ * Test whether a value is a plain object.
+ */
+function isObject(value: any): boolean {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+
+/**
+ * Test whether a value is an integer.
+ */
+function isInteger(value: any): boolean {
+    return typeof value === "number" && Math.floor(value) === value;
+}
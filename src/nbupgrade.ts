@@ -0,0 +1,391 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+// This module only works on the disk representation of notebooks, so
+// it is independent of nbformat.ts, which uses it when loading.
+
+
+/**
+ * Get a logger for notebook upgrades.
+ */
+var upgrade_log = Logger.get('nbupgrade');
+
+
+/**
+ * The notebook format major version produced by `upgrade`.
+ */
+var TARGET_MAJOR = 4;
+
+
+/**
+ * The notebook format minor version produced by `upgrade`.
+ */
+var TARGET_MINOR = 0;
+
+
+/**
+ * Mapping from the v3 output data keys to mimetypes.
+ */
+var V3_TO_MIME: { [key: string]: string } = {
+  'text': 'text/plain',
+  'html': 'text/html',
+  'svg': 'image/svg+xml',
+  'png': 'image/png',
+  'jpeg': 'image/jpeg',
+  'latex': 'text/latex',
+  'json': 'application/json',
+  'javascript': 'application/javascript'
+};
+
+
+/**
+ * Upgrade the disk representation of a notebook to nbformat 4.
+ *
+ * Version 3 notebooks are converted and `metadata.orig_nbformat` is
+ * set to the original version. Version 4 notebooks are filled in with
+ * the defaults that early minor versions may be missing. The notebook
+ * is modified in place and returned.
+ */
+export
+function upgrade(nb: any): any {
+  var version = nb.nbformat;
+  if (version === TARGET_MAJOR) {
+    return upgradeMinor(nb);
+  }
+  if (version !== 3) {
+    throw Error('Cannot upgrade notebook format version: ' + version);
+  }
+  upgrade_log.info('Upgrading notebook from nbformat 3');
+  var cells: any[] = [];
+  var worksheets: any[] = nb.worksheets || [];
+  for (var i = 0; i < worksheets.length; i++) {
+    var wsCells: any[] = worksheets[i].cells || [];
+    for (var j = 0; j < wsCells.length; j++) {
+      cells.push(upgradeCell(wsCells[j]));
+    }
+  }
+  var metadata = nb.metadata || {};
+  if (metadata.orig_nbformat === void 0) {
+    metadata.orig_nbformat = version;
+  }
+  // these were dropped in version 4
+  delete metadata.name;
+  delete metadata.signature;
+  delete nb.worksheets;
+  nb.metadata = metadata;
+  nb.cells = cells;
+  nb.nbformat = TARGET_MAJOR;
+  nb.nbformat_minor = TARGET_MINOR;
+  return nb;
+}
+
+
+/**
+ * Downgrade the disk representation of an nbformat 4 notebook to
+ * nbformat 3, for use with older tools.
+ *
+ * The signature is dropped, since it was computed for the version 4
+ * notebook. The notebook is not modified, a new notebook is returned.
+ */
+export
+function downgrade(nb: any): any {
+  if (nb.nbformat !== TARGET_MAJOR) {
+    throw Error('Cannot downgrade notebook format version: ' + nb.nbformat);
+  }
+  nb = JSON.parse(JSON.stringify(nb));
+  var cells: any[] = nb.cells || [];
+  var metadata = nb.metadata || {};
+  delete metadata.orig_nbformat;
+  delete metadata.signature;
+  // version 3 notebooks require a name
+  if (metadata.name === void 0) {
+    metadata.name = '';
+  }
+  return {
+    metadata: metadata,
+    nbformat: 3,
+    nbformat_minor: 0,
+    worksheets: [{
+      cells: cells.map(downgradeCell),
+      metadata: {}
+    }]
+  };
+}
+
+
+/**
+ * Fill in the defaults of a version 4 notebook.
+ *
+ * Cells and outputs which are not objects are left for the validation
+ * to report.
+ */
+function upgradeMinor(nb: any): any {
+  nb.metadata = nb.metadata || {};
+  if (typeof nb.nbformat_minor !== 'number') {
+    nb.nbformat_minor = TARGET_MINOR;
+  }
+  var cells: any[] = Array.isArray(nb.cells) ? nb.cells : [];
+  for (var i = 0; i < cells.length; i++) {
+    var cell = cells[i];
+    if (!isObject(cell)) {
+      continue;
+    }
+    cell.metadata = cell.metadata || {};
+    if (cell.source === void 0) {
+      cell.source = '';
+    }
+    if (cell.cell_type !== 'code') {
+      continue;
+    }
+    cell.outputs = cell.outputs || [];
+    if (cell.execution_count === void 0) {
+      cell.execution_count = null;
+    }
+    var outputs: any[] = Array.isArray(cell.outputs) ? cell.outputs : [];
+    for (var j = 0; j < outputs.length; j++) {
+      var output = outputs[j];
+      if (!isObject(output)) {
+        continue;
+      }
+      if (output.output_type === 'execute_result' ||
+          output.output_type === 'display_data') {
+        output.metadata = output.metadata || {};
+        output.data = output.data || {};
+      }
+      if (output.output_type === 'execute_result' &&
+          output.execution_count === void 0) {
+        output.execution_count = null;
+      }
+    }
+  }
+  return nb;
+}
+
+
+/**
+ * Upgrade a version 3 cell.
+ */
+function upgradeCell(cell: any): any {
+  cell.metadata = cell.metadata || {};
+  switch (cell.cell_type) {
+    case 'code':
+      delete cell.language;
+      if (cell.collapsed !== void 0) {
+        cell.metadata.collapsed = cell.collapsed;
+        delete cell.collapsed;
+      }
+      cell.source = cell.input === void 0 ? '' : cell.input;
+      delete cell.input;
+      cell.execution_count = cell.prompt_number === void 0 ? null : cell.prompt_number;
+      delete cell.prompt_number;
+      cell.outputs = (cell.outputs || []).map(upgradeOutput);
+      break;
+    case 'heading':
+      var level = cell.level || 1;
+      var source = joinLines(cell.source || '');
+      cell.cell_type = 'markdown';
+      cell.source = repeat('#', level) + ' ' + source.split(/\r\n|\r|\n/).join(' ');
+      delete cell.level;
+      break;
+    case 'html':
+      // html cells were already deprecated, markdown renders them
+      cell.cell_type = 'markdown';
+      break;
+  }
+  if (cell.source === void 0) {
+    cell.source = '';
+  }
+  return cell;
+}
+
+
+/**
+ * Upgrade a version 3 output.
+ */
+function upgradeOutput(output: any): any {
+  switch (output.output_type) {
+    case 'pyout':
+      output.output_type = 'execute_result';
+      output.execution_count = output.prompt_number === void 0 ? null : output.prompt_number;
+      delete output.prompt_number;
+      upgradeMimeBundle(output);
+      break;
+    case 'display_data':
+      upgradeMimeBundle(output);
+      break;
+    case 'pyerr':
+      output.output_type = 'error';
+      break;
+    case 'stream':
+      output.name = output.stream || 'stdout';
+      delete output.stream;
+      break;
+  }
+  return output;
+}
+
+
+/**
+ * Move the v3 top-level output data keys into a mimebundle.
+ */
+function upgradeMimeBundle(output: any): void {
+  var data: any = {};
+  var metadata: any = {};
+  var oldMetadata = output.metadata || {};
+  for (var key in V3_TO_MIME) {
+    if (!V3_TO_MIME.hasOwnProperty(key)) {
+      continue;
+    }
+    var mime = V3_TO_MIME[key];
+    if (output.hasOwnProperty(key)) {
+      var value = output[key];
+      if (mime === 'application/json' && typeof joinLines(value) === 'string') {
+        try {
+          value = JSON.parse(joinLines(value));
+        } catch (error) {
+          upgrade_log.warn('Invalid JSON output data: ' + error.message);
+        }
+      }
+      data[mime] = value;
+      delete output[key];
+    }
+    if (oldMetadata.hasOwnProperty(key)) {
+      metadata[mime] = oldMetadata[key];
+      delete oldMetadata[key];
+    }
+  }
+  // keep any metadata that is not specific to a data key
+  for (var key in oldMetadata) {
+    if (oldMetadata.hasOwnProperty(key)) {
+      metadata[key] = oldMetadata[key];
+    }
+  }
+  output.data = data;
+  output.metadata = metadata;
+}
+
+
+/**
+ * Downgrade a version 4 cell.
+ */
+function downgradeCell(cell: any): any {
+  delete cell.id;
+  delete cell.attachments;
+  switch (cell.cell_type) {
+    case 'code':
+      cell.language = 'python';
+      cell.input = cell.source;
+      delete cell.source;
+      // cells which never ran have no prompt number
+      if (cell.execution_count !== null) {
+        cell.prompt_number = cell.execution_count;
+      }
+      delete cell.execution_count;
+      cell.collapsed = !!cell.metadata.collapsed;
+      delete cell.metadata.collapsed;
+      cell.outputs = (cell.outputs || []).map(downgradeOutput);
+      break;
+    case 'markdown':
+      var source = joinLines(cell.source);
+      var match = /^(#{1,6})\s*(.*)$/.exec(source);
+      if (match && source.indexOf('\n') === -1) {
+        cell.cell_type = 'heading';
+        cell.level = match[1].length;
+        cell.source = match[2];
+      }
+      break;
+  }
+  return cell;
+}
+
+
+/**
+ * Downgrade a version 4 output.
+ */
+function downgradeOutput(output: any): any {
+  switch (output.output_type) {
+    case 'execute_result':
+      output.output_type = 'pyout';
+      output.prompt_number = output.execution_count;
+      delete output.execution_count;
+      downgradeMimeBundle(output);
+      break;
+    case 'display_data':
+      downgradeMimeBundle(output);
+      break;
+    case 'error':
+      output.output_type = 'pyerr';
+      break;
+    case 'stream':
+      output.stream = output.name;
+      delete output.name;
+      break;
+  }
+  return output;
+}
+
+
+/**
+ * Flatten a mimebundle into the v3 top-level output data keys.
+ *
+ * Mimetypes with no v3 key are dropped.
+ */
+function downgradeMimeBundle(output: any): void {
+  var data = output.data || {};
+  var metadata = output.metadata || {};
+  var newMetadata: any = {};
+  for (var key in V3_TO_MIME) {
+    if (!V3_TO_MIME.hasOwnProperty(key)) {
+      continue;
+    }
+    var mime = V3_TO_MIME[key];
+    if (data.hasOwnProperty(mime)) {
+      var value = data[mime];
+      if (mime === 'application/json') {
+        value = JSON.stringify(value);
+      }
+      output[key] = value;
+      delete data[mime];
+    }
+    if (metadata.hasOwnProperty(mime)) {
+      newMetadata[key] = metadata[mime];
+      delete metadata[mime];
+    }
+  }
+  for (var dropped in data) {
+    if (data.hasOwnProperty(dropped)) {
+      upgrade_log.warn('Dropping output data with no v3 equivalent: ' + dropped);
+    }
+  }
+  for (var key in metadata) {
+    if (metadata.hasOwnProperty(key)) {
+      newMetadata[key] = metadata[key];
+    }
+  }
+  delete output.data;
+  output.metadata = newMetadata;
+}
+
+
+/**
+ * Join a multiline value stored as an array of lines.
+ */
+function joinLines(value: any): any {
+  return Array.isArray(value) ? value.join('') : value;
+}
+
+
+/**
+ * Repeat a string a number of times.
+ */
+function repeat(value: string, count: number): string {
+  return new Array(count + 1).join(value);
+}
+
+
+/**
+ * Test whether a value is a plain object.
+ */
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,356 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import autosave = require('./autosave');
+import commands = require('./commands');
+import nbformat = require('./nbformat');
+import notebookmodel = require('./notebookmodel');
+import selection = require('./selection');
+import undo = require('./undo');
+
+import IDisposable = phosphor.utility.IDisposable;
+import ICommand = commands.ICommand;
+import CommandRegistry = commands.CommandRegistry;
+import NotebookMode = selection.NotebookMode;
+import NotebookSelection = selection.NotebookSelection;
+
+
+/**
+ * Get a logger for notebook commands.
+ */
+var command_log = Logger.get('notebookcommands');
+
+
+/**
+ * The objects the notebook commands act on.
+ */
+export
+interface INotebookContext {
+  /**
+   * The notebook model.
+   */
+  model: notebookmodel.NotebookModel;
+
+  /**
+   * The selection of the notebook view.
+   */
+  selection: NotebookSelection;
+
+  /**
+   * The undo history of the notebook, if any.
+   */
+  history?: undo.UndoManager;
+
+  /**
+   * The saver of the notebook, if any.
+   */
+  saver?: autosave.NotebookSaver;
+}
+
+
+/**
+ * Register the commands acting on a notebook.
+ *
+ * Disposing the returned object removes the commands.
+ */
+export
+function registerNotebookCommands(registry: CommandRegistry, context: INotebookContext): IDisposable {
+  var sel = context.selection;
+  var model = context.model;
+  var hasSession = () => model.session !== null;
+  var hasCells = () => model.cellCount > 0;
+  var list: ICommand[] = [
+    {
+      id: 'notebook:enter-command-mode',
+      label: 'Enter Command Mode',
+      category: 'Mode',
+      execute: () => { sel.mode = NotebookMode.Command; }
+    },
+    {
+      id: 'notebook:enter-edit-mode',
+      label: 'Enter Edit Mode',
+      category: 'Mode',
+      isEnabled: () => sel.activeCell !== null && sel.activeCell.cell_type === 'code',
+      execute: () => { sel.mode = NotebookMode.Edit; }
+    },
+    {
+      id: 'notebook:run-cell',
+      label: 'Run Selected Cells',
+      category: 'Cell',
+      isEnabled: hasSession,
+      execute: () => {
+        runSelected(sel);
+        sel.mode = NotebookMode.Command;
+      }
+    },
+    {
+      id: 'notebook:run-cell-and-select-next',
+      label: 'Run Selected Cells and Select Next',
+      category: 'Cell',
+      isEnabled: hasSession,
+      execute: () => {
+        runSelected(sel);
+        var next = lastSelected(sel) + 1;
+        if (next >= model.cellCount) {
+          insertCell(sel, next);
+          sel.mode = NotebookMode.Edit;
+        } else {
+          sel.mode = NotebookMode.Command;
+          sel.activeIndex = next;
+        }
+      }
+    },
+    {
+      id: 'notebook:run-cell-and-insert-below',
+      label: 'Run Selected Cells and Insert Below',
+      category: 'Cell',
+      isEnabled: hasSession,
+      execute: () => {
+        runSelected(sel);
+        insertCell(sel, lastSelected(sel) + 1);
+        sel.mode = NotebookMode.Edit;
+      }
+    },
+    {
+      id: 'notebook:run-all',
+      label: 'Run All Cells',
+      category: 'Cell',
+      isEnabled: () => hasSession() && hasCells(),
+      execute: () => { model.scheduler.runAll(); }
+    },
+    {
+      id: 'notebook:run-all-above',
+      label: 'Run All Cells Above',
+      category: 'Cell',
+      isEnabled: () => hasSession() && sel.activeIndex > 0,
+      execute: () => { model.scheduler.runAbove(sel.activeIndex); }
+    },
+    {
+      id: 'notebook:run-all-below',
+      label: 'Run Selected Cell and All Below',
+      category: 'Cell',
+      isEnabled: () => hasSession() && sel.activeIndex !== -1,
+      execute: () => { model.scheduler.runBelow(sel.activeIndex); }
+    },
+    {
+      id: 'notebook:toggle-stop-on-error',
+      label: 'Toggle Stop Running Cells on Error',
+      category: 'Cell',
+      execute: () => { model.scheduler.stopOnError = !model.scheduler.stopOnError; }
+    },
+    {
+      id: 'notebook:insert-cell-above',
+      label: 'Insert Cell Above',
+      category: 'Cell',
+      execute: () => { insertCell(sel, Math.max(0, sel.selectedIndices[0] || 0)); }
+    },
+    {
+      id: 'notebook:insert-cell-below',
+      label: 'Insert Cell Below',
+      category: 'Cell',
+      execute: () => { insertCell(sel, lastSelected(sel) + 1); }
+    },
+    {
+      id: 'notebook:delete-cells',
+      label: 'Delete Selected Cells',
+      category: 'Cell',
+      isEnabled: hasCells,
+      execute: () => {
+        var indices = sel.selectedIndices;
+        for (var i = indices.length - 1; i >= 0; i--) {
+          model.deleteCell(indices[i]);
+        }
+      }
+    },
+    {
+      id: 'notebook:change-cell-to-markdown',
+      label: 'Change to Markdown Cell',
+      category: 'Cell',
+      isEnabled: hasCells,
+      execute: () => { setSelectedType(sel, 'markdown'); }
+    },
+    {
+      id: 'notebook:change-cell-to-code',
+      label: 'Change to Code Cell',
+      category: 'Cell',
+      isEnabled: hasCells,
+      execute: () => { setSelectedType(sel, 'code'); }
+    },
+    {
+      id: 'notebook:clear-outputs',
+      label: 'Clear Outputs of Selected Cells',
+      category: 'Cell',
+      isEnabled: hasCells,
+      execute: () => {
+        var indices = sel.selectedIndices;
+        for (var i = 0; i < indices.length; i++) {
+          if (model.getCell(indices[i]).cell_type === 'code') {
+            model.clearOutputs(indices[i]);
+          }
+        }
+      }
+    },
+    {
+      id: 'notebook:select-previous-cell',
+      label: 'Select Previous Cell',
+      category: 'Selection',
+      execute: () => { sel.activeIndex = sel.activeIndex - 1; }
+    },
+    {
+      id: 'notebook:select-next-cell',
+      label: 'Select Next Cell',
+      category: 'Selection',
+      execute: () => { sel.activeIndex = sel.activeIndex + 1; }
+    },
+    {
+      id: 'notebook:extend-selection-above',
+      label: 'Extend Selection Above',
+      category: 'Selection',
+      execute: () => { sel.extendTo(sel.activeIndex - 1); }
+    },
+    {
+      id: 'notebook:extend-selection-below',
+      label: 'Extend Selection Below',
+      category: 'Selection',
+      execute: () => { sel.extendTo(sel.activeIndex + 1); }
+    },
+    {
+      id: 'notebook:select-all',
+      label: 'Select All Cells',
+      category: 'Selection',
+      execute: () => { sel.selectAll(); }
+    },
+    {
+      id: 'notebook:undo',
+      label: 'Undo Cell Operation',
+      category: 'Notebook',
+      isEnabled: () => !!context.history && context.history.canUndo,
+      execute: () => { context.history.undo(); }
+    },
+    {
+      id: 'notebook:redo',
+      label: 'Redo Cell Operation',
+      category: 'Notebook',
+      isEnabled: () => !!context.history && context.history.canRedo,
+      execute: () => { context.history.redo(); }
+    },
+    {
+      id: 'notebook:save',
+      label: 'Save Notebook',
+      category: 'Notebook',
+      isEnabled: () => !!context.saver,
+      execute: () => {
+        context.saver.save().catch((error: Error) => {
+          command_log.error('Save failed: ' + error.message);
+        });
+      }
+    },
+    {
+      id: 'notebook:export',
+      label: 'Download as Notebook (.ipynb)',
+      category: 'Notebook',
+      execute: () => {
+        var path = context.saver ? context.saver.path : 'notebook.ipynb';
+        download(path.split('/').pop(), nbformat.toDisk(model.signedNotebook()));
+      }
+    },
+    {
+      id: 'notebook:export-v3',
+      label: 'Download as Notebook v3 (.ipynb)',
+      category: 'Notebook',
+      execute: () => {
+        var path = context.saver ? context.saver.path : 'notebook.ipynb';
+        download(path.split('/').pop(), nbformat.toDiskV3(model.notebook));
+      }
+    },
+    {
+      id: 'notebook:trust',
+      label: 'Trust Notebook',
+      category: 'Notebook',
+      isEnabled: () => !model.trusted,
+      execute: () => { model.trusted = true; }
+    },
+    {
+      id: 'kernel:interrupt',
+      label: 'Interrupt Kernel',
+      category: 'Kernel',
+      isEnabled: hasSession,
+      execute: () => {
+        model.session.kernel.interrupt().catch((error: Error) => {
+          command_log.error('Interrupt failed: ' + error.message);
+        });
+      }
+    },
+    {
+      id: 'kernel:restart',
+      label: 'Restart Kernel',
+      category: 'Kernel',
+      isEnabled: hasSession,
+      execute: () => {
+        model.session.kernel.restart().catch((error: Error) => {
+          command_log.error('Restart failed: ' + error.message);
+        });
+      }
+    }
+  ];
+  var disposables = list.map(command => registry.add(command));
+  return new phosphor.utility.Disposable(() => {
+    for (var i = 0; i < disposables.length; i++) {
+      disposables[i].dispose();
+    }
+  });
+}
+
+
+/**
+ * Get the index of the last selected cell, or `-1` if there are no cells.
+ */
+function lastSelected(sel: NotebookSelection): number {
+  var indices = sel.selectedIndices;
+  return indices.length ? indices[indices.length - 1] : -1;
+}
+
+
+/**
+ * Run the selected code cells.
+ */
+function runSelected(sel: NotebookSelection): void {
+  sel.model.scheduler.run(sel.selectedCells);
+}
+
+
+/**
+ * Insert a new code cell, activating it.
+ */
+function insertCell(sel: NotebookSelection, index: number): void {
+  sel.model.insertCell(index, notebookmodel.createCell('code'));
+  sel.activeIndex = index;
+}
+
+
+/**
+ * Change the type of the selected cells.
+ */
+function setSelectedType(sel: NotebookSelection, cellType: string): void {
+  // the selection follows the replaced cells
+  var indices = sel.selectedIndices;
+  for (var i = 0; i < indices.length; i++) {
+    sel.model.setCellType(indices[i], cellType);
+  }
+}
+
+
+/**
+ * Save text to a file through the browser.
+ */
+function download(name: string, text: string): void {
+  var blob = new Blob([text], { type: 'application/x-ipynb+json' });
+  var url = URL.createObjectURL(blob);
+  var link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', name);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
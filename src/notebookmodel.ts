@@ -0,0 +1,1186 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import nbformat = require('./nbformat');
+import session = require('./session');
+import kernel = require('./kernel');
+import comm = require('./comm');
+import widgets = require('./widgets');
+import pager = require('./pager');
+import scheduler = require('./scheduler');
+import trust = require('./trust');
+
+import ISignal = phosphor.core.ISignal;
+import signal = phosphor.core.signal;
+import IDisposable = phosphor.utility.IDisposable;
+import IKernelMsg = kernel.IKernelMsg;
+import IKernelFuture = kernel.IKernelFuture;
+
+
+/**
+ * Get a logger for notebook model objects.
+ */
+var model_log = Logger.get('notebookmodel');
+
+
+/**
+ * The type of a notebook change.
+ */
+export
+enum ChangeType {
+  /**
+   * A cell was inserted at `index`.
+   */
+  CellInserted,
+
+  /**
+   * The cell at `index` was removed.
+   */
+  CellRemoved,
+
+  /**
+   * The cell at `index` was moved to `newIndex`.
+   */
+  CellMoved,
+
+  /**
+   * The cell at `index` was replaced by a new cell object.
+   */
+  CellReplaced,
+
+  /**
+   * The source of the cell at `index` changed.
+   */
+  SourceChanged,
+
+  /**
+   * The outputs of the cell at `index` were replaced.
+   */
+  OutputsChanged,
+
+  /**
+   * An output was appended to the cell at `index`.
+   */
+  OutputAppended,
+
+  /**
+   * The output at `outputIndex` of the cell at `index` was replaced.
+   */
+  OutputChanged,
+
+  /**
+   * The execution count of the cell at `index` changed.
+   */
+  ExecutionCountChanged,
+
+  /**
+   * The pending input request of the cell at `index` changed. The new
+   * request, or `null` once answered, is the `newValue`.
+   */
+  InputRequestChanged,
+
+  /**
+   * Whether the notebook is trusted changed.
+   */
+  TrustChanged,
+
+  /**
+   * The notebook metadata value `name` changed.
+   */
+  MetadataChanged,
+
+  /**
+   * The whole notebook document was replaced.
+   */
+  NotebookReplaced
+}
+
+
+/**
+ * The arguments for the notebook model `changed` signal.
+ *
+ * Each change carries enough information to be reverted.
+ */
+export
+interface INotebookChange {
+  /**
+   * The type of the change.
+   */
+  type: ChangeType;
+
+  /**
+   * The index of the affected cell, or `-1` for notebook changes.
+   */
+  index: number;
+
+  /**
+   * The affected cell, after the change.
+   */
+  cell?: nbformat.Cell;
+
+  /**
+   * The new index of a moved cell.
+   */
+  newIndex?: number;
+
+  /**
+   * The index of a changed output.
+   */
+  outputIndex?: number;
+
+  /**
+   * The name of a changed metadata value.
+   */
+  name?: string;
+
+  /**
+   * The value before the change.
+   */
+  oldValue?: any;
+
+  /**
+   * The value after the change.
+   */
+  newValue?: any;
+
+  /**
+   * Whether the change was made in response to the kernel.
+   */
+  fromKernel?: boolean;
+}
+
+
+/**
+ * A pending request from the kernel for user input, like `input()`.
+ */
+export
+interface IInputRequest {
+  /**
+   * The prompt to display to the user.
+   */
+  prompt: string;
+
+  /**
+   * Whether the input is a password and should not be displayed.
+   */
+  password: boolean;
+}
+
+
+/**
+ * An output with a display id, in the display id index.
+ */
+interface IDisplayEntry {
+  cell: nbformat.CodeCell;
+  output: nbformat.Output;
+}
+
+
+/**
+ * Test whether a change alters the list of cells.
+ *
+ * Views of the whole notebook only need to re-render for these.
+ */
+export
+function isStructuralChange(change: INotebookChange): boolean {
+  switch (change.type) {
+    case ChangeType.CellInserted:
+    case ChangeType.CellRemoved:
+    case ChangeType.CellMoved:
+    case ChangeType.CellReplaced:
+    case ChangeType.NotebookReplaced:
+      return true;
+  }
+  return false;
+}
+
+
+/**
+ * The model of a notebook document attached to a kernel session.
+ *
+ * The model owns the notebook and all changes to the document go
+ * through its mutation methods, each of which emits a `changed` signal
+ * describing the change. The model also executes code cells using the
+ * session kernel, interpreting the kernel messages as changes to the cells.
+ */
+export
+class NotebookModel {
+
+  /**
+   * A signal emitted when the notebook changes.
+   */
+  @signal
+  changed: ISignal<INotebookChange>;
+
+  /**
+   * A signal emitted when the dirty state of the model changes.
+   */
+  @signal
+  dirtyChanged: ISignal<boolean>;
+
+  /**
+   * Construct a new notebook model.
+   */
+  constructor(notebook: nbformat.Notebook, nbSession?: session.NotebookSession) {
+    this._notebook = notebook;
+    this._trusted = trust.checkSignature(notebook);
+    if (nbSession) {
+      this._session = nbSession;
+      this._comms = new comm.CommManager(nbSession.kernel);
+      this._widgets = new widgets.WidgetManager(this._comms);
+      nbSession.kernel.statusChanged.connect(this._onKernelStatus, this);
+      // updates may target outputs of any cell, or of another client
+      this._displayUpdates = nbSession.kernel.subscribe({ msgType: 'update_display_data', channel: 'iopub' }, (msg: IKernelMsg) => {
+        this._kernelChange(() => { this._updateDisplay(msg); });
+      });
+    }
+    this._pager = new pager.Pager();
+    this._scheduler = new scheduler.ExecutionScheduler(this);
+  }
+
+  /**
+   * Get the notebook document owned by the model.
+   *
+   * The document should be treated as read-only, use the mutation
+   * methods of the model to change it.
+   */
+  get notebook(): nbformat.Notebook {
+    return this._notebook;
+  }
+
+  /**
+   * Get the kernel session of the model.
+   */
+  get session(): session.NotebookSession {
+    return this._session;
+  }
+
+  /**
+   * Get the comm manager for the session kernel.
+   */
+  get comms(): comm.CommManager {
+    return this._comms;
+  }
+
+  /**
+   * Get the widget manager for the session kernel.
+   */
+  get widgets(): widgets.WidgetManager {
+    return this._widgets;
+  }
+
+  /**
+   * Test whether the notebook has changed since it was last saved.
+   */
+  get dirty(): boolean {
+    return this._dirty;
+  }
+
+  /**
+   * Set the dirty state of the notebook.
+   *
+   * Any change marks the notebook dirty; this should be cleared when
+   * the notebook is saved.
+   */
+  set dirty(value: boolean) {
+    if (this._dirty === value) {
+      return;
+    }
+    this._dirty = value;
+    this.dirtyChanged.emit(value);
+  }
+
+  /**
+   * Get the pager showing long form content from the kernel.
+   */
+  get pager(): pager.Pager {
+    return this._pager;
+  }
+
+  /**
+   * Get the scheduler running queued code cells one after the other.
+   */
+  get scheduler(): scheduler.ExecutionScheduler {
+    return this._scheduler;
+  }
+
+  /**
+   * Get whether the notebook is trusted.
+   *
+   * A notebook is trusted when it was opened with a valid signature,
+   * or when the user trusts it explicitly.
+   */
+  get trusted(): boolean {
+    return this._trusted;
+  }
+
+  /**
+   * Set whether the notebook is trusted.
+   *
+   * A trusted notebook is signed when it is saved.
+   */
+  set trusted(value: boolean) {
+    if (this._trusted === value) {
+      return;
+    }
+    this._trusted = value;
+    this._emit({
+      type: ChangeType.TrustChanged,
+      index: -1,
+      oldValue: !value,
+      newValue: value
+    });
+  }
+
+  /**
+   * Test whether an output of the notebook is trusted.
+   *
+   * All outputs of a trusted notebook are trusted, as are outputs
+   * produced by the kernel in this session. Untrusted outputs are only
+   * rendered with the safe mime renderers.
+   */
+  isOutputTrusted(output: nbformat.Output): boolean {
+    return this._trusted || this._sessionOutputs.has(output);
+  }
+
+  /**
+   * Get the notebook to save, signed if all of its outputs are trusted.
+   *
+   * Otherwise the notebook is saved without a signature, and will be
+   * untrusted when opened again.
+   */
+  signedNotebook(): nbformat.Notebook {
+    return trust.signNotebook(this._notebook, this._allOutputsTrusted());
+  }
+
+  /**
+   * Get the number of cells in the notebook.
+   */
+  get cellCount(): number {
+    return this._notebook.cells.length;
+  }
+
+  /**
+   * Get the cell at the given index.
+   */
+  getCell(index: number): nbformat.Cell {
+    return this._notebook.cells[index];
+  }
+
+  /**
+   * Stop listening to the session kernel and executing cells.
+   *
+   * The kernel messages are subscribed to on the kernel object of the
+   * session, which is kept when the kernel is restarted or changed, so
+   * this should be called once the model is no longer used.
+   */
+  dispose(): void {
+    this._scheduler.dispose();
+    if (this._session) {
+      this._session.kernel.statusChanged.disconnect(this._onKernelStatus, this);
+      this._displayUpdates.dispose();
+      this._widgets.dispose();
+      this._comms.dispose();
+    }
+    this._clearPending.clear();
+    this._inputRequests.clear();
+  }
+
+  /**
+   * Get the index of a cell, or `-1` if it is not in the notebook.
+   */
+  indexOf(cell: nbformat.Cell): number {
+    return this._notebook.cells.indexOf(cell);
+  }
+
+  /**
+   * Insert a cell at the given index.
+   */
+  insertCell(index: number, cell: nbformat.Cell): void {
+    index = Math.max(0, Math.min(index, this.cellCount));
+    this._notebook.cells.splice(index, 0, cell);
+    this._emit({ type: ChangeType.CellInserted, index: index, cell: cell });
+  }
+
+  /**
+   * Delete the cell at the given index, returning the cell.
+   */
+  deleteCell(index: number): nbformat.Cell {
+    var cell = this._checkIndex(index);
+    this._notebook.cells.splice(index, 1);
+    this._emit({ type: ChangeType.CellRemoved, index: index, cell: cell });
+    return cell;
+  }
+
+  /**
+   * Move the cell at `fromIndex` so that it ends up at `toIndex`.
+   */
+  moveCell(fromIndex: number, toIndex: number): void {
+    var cell = this._checkIndex(fromIndex);
+    this._checkIndex(toIndex);
+    if (fromIndex === toIndex) {
+      return;
+    }
+    var cells = this._notebook.cells;
+    cells.splice(fromIndex, 1);
+    cells.splice(toIndex, 0, cell);
+    this._emit({
+      type: ChangeType.CellMoved,
+      index: fromIndex,
+      newIndex: toIndex,
+      cell: cell
+    });
+  }
+
+  /**
+   * Replace the cell at the given index with another cell object.
+   */
+  setCell(index: number, cell: nbformat.Cell): void {
+    var old = this._checkIndex(index);
+    if (old === cell) {
+      return;
+    }
+    this._notebook.cells[index] = cell;
+    this._emit({
+      type: ChangeType.CellReplaced,
+      index: index,
+      cell: cell,
+      oldValue: old,
+      newValue: cell
+    });
+  }
+
+  /**
+   * Change the type of the cell at the given index.
+   *
+   * The cell is replaced by a new cell of the given type, keeping the
+   * source and metadata. Outputs are lost when changing from code.
+   */
+  setCellType(index: number, cellType: string): void {
+    var old = <nbformat.CodeCell>this._checkIndex(index);
+    if (old.cell_type === cellType) {
+      return;
+    }
+    var metadata = JSON.parse(JSON.stringify(old.metadata));
+    this.setCell(index, createCell(cellType, old.source, metadata));
+  }
+
+  /**
+   * Set the source of the cell at the given index.
+   */
+  setSource(index: number, source: string): void {
+    var cell = <nbformat.CodeCell>this._checkIndex(index);
+    var old = cell.source;
+    if (old === source) {
+      return;
+    }
+    cell.source = source;
+    this._emit({
+      type: ChangeType.SourceChanged,
+      index: index,
+      cell: cell,
+      oldValue: old,
+      newValue: source
+    });
+  }
+
+  /**
+   * Split the cell at the given index at a position in its source.
+   *
+   * The cell keeps the source before the position, and a new cell of
+   * the same type holding the rest of the source is inserted below it.
+   */
+  splitCell(index: number, position: number): void {
+    var cell = <nbformat.CodeCell>this._checkIndex(index);
+    var source = cell.source;
+    var below = createCell(cell.cell_type, source.slice(position), {});
+    this.setSource(index, source.slice(0, position));
+    this.insertCell(index + 1, below);
+  }
+
+  /**
+   * Merge the cell below the given index into the cell at the index.
+   *
+   * The sources are joined with a newline, and the lower cell is removed.
+   */
+  mergeCells(index: number): void {
+    var cell = <nbformat.CodeCell>this._checkIndex(index);
+    var below = <nbformat.CodeCell>this._checkIndex(index + 1);
+    this.setSource(index, cell.source + '\n' + below.source);
+    this.deleteCell(index + 1);
+  }
+
+  /**
+   * Replace the outputs of the code cell at the given index.
+   */
+  setOutputs(index: number, outputs: nbformat.Output[]): void {
+    var cell = this._checkCodeCell(index);
+    var old = cell.outputs;
+    cell.outputs = outputs;
+    this._emit({
+      type: ChangeType.OutputsChanged,
+      index: index,
+      cell: cell,
+      oldValue: old,
+      newValue: outputs
+    });
+  }
+
+  /**
+   * Clear the outputs of the code cell at the given index.
+   */
+  clearOutputs(index: number): void {
+    var cell = this._checkCodeCell(index);
+    if (cell.outputs.length !== 0) {
+      this.setOutputs(index, []);
+    }
+  }
+
+  /**
+   * Append an output to the code cell at the given index.
+   *
+   * Consecutive stream outputs with the same name are merged.
+   */
+  appendOutput(index: number, output: nbformat.Output): void {
+    var cell = this._checkCodeCell(index);
+    var outputs = cell.outputs;
+    var last = <nbformat.Stream>outputs[outputs.length - 1];
+    if (output.output_type === 'stream' && last &&
+        last.output_type === 'stream' &&
+        last.name === (<nbformat.Stream>output).name) {
+      var merged: nbformat.Stream = {
+        output_type: 'stream',
+        name: last.name,
+        text: last.text + (<nbformat.Stream>output).text
+      };
+      this.setOutput(index, outputs.length - 1, merged);
+      return;
+    }
+    outputs.push(output);
+    this._trackOutput(output);
+    this._emit({
+      type: ChangeType.OutputAppended,
+      index: index,
+      cell: cell,
+      outputIndex: outputs.length - 1,
+      newValue: output
+    });
+  }
+
+  /**
+   * Replace a single output of the code cell at the given index.
+   */
+  setOutput(index: number, outputIndex: number, output: nbformat.Output): void {
+    var cell = this._checkCodeCell(index);
+    var old = cell.outputs[outputIndex];
+    if (!old) {
+      throw Error('Invalid output index: ' + outputIndex);
+    }
+    cell.outputs[outputIndex] = output;
+    this._trackOutput(output);
+    this._emit({
+      type: ChangeType.OutputChanged,
+      index: index,
+      cell: cell,
+      outputIndex: outputIndex,
+      oldValue: old,
+      newValue: output
+    });
+  }
+
+  /**
+   * Set the execution count of the code cell at the given index.
+   */
+  setExecutionCount(index: number, count: number): void {
+    var cell = this._checkCodeCell(index);
+    var old = cell.execution_count;
+    if (old === count) {
+      return;
+    }
+    cell.execution_count = count;
+    this._emit({
+      type: ChangeType.ExecutionCountChanged,
+      index: index,
+      cell: cell,
+      oldValue: old,
+      newValue: count
+    });
+  }
+
+  /**
+   * Replace the whole notebook document, like when reloading it.
+   *
+   * Outputs of cells still executing are no longer tracked.
+   */
+  replaceNotebook(notebook: nbformat.Notebook): void {
+    var old = this._notebook;
+    this._notebook = notebook;
+    this._trusted = trust.checkSignature(notebook);
+    this._sessionOutputs.clear();
+    this._clearPending.clear();
+    this._emit({
+      type: ChangeType.NotebookReplaced,
+      index: -1,
+      oldValue: old,
+      newValue: notebook
+    });
+  }
+
+  /**
+   * Set a value in the notebook metadata.
+   */
+  setMetadata(name: string, value: any): void {
+    var metadata: any = this._notebook.metadata;
+    var old = metadata[name];
+    if (value === void 0) {
+      delete metadata[name];
+    } else {
+      metadata[name] = value;
+    }
+    this._emit({
+      type: ChangeType.MetadataChanged,
+      index: -1,
+      name: name,
+      oldValue: old,
+      newValue: value
+    });
+  }
+
+  /**
+   * Get the pending input request of a code cell, or `null`.
+   */
+  getInputRequest(cell: nbformat.CodeCell): IInputRequest {
+    return this._inputRequests.get(cell) || null;
+  }
+
+  /**
+   * Answer the pending input request of an executing code cell.
+   *
+   * The reply is sent on the stdin channel of the kernel, and the
+   * prompt and value are echoed to the outputs of the cell, with the
+   * value masked for passwords.
+   */
+  sendInput(cell: nbformat.CodeCell, value: string): void {
+    var request = this._inputRequests.get(cell);
+    if (!request) {
+      throw Error('No pending input request');
+    }
+    this._session.kernel.sendInputReply(value);
+    var echo = request.prompt + (request.password ? '\u00b7\u00b7\u00b7\u00b7\u00b7\u00b7\u00b7\u00b7' : value);
+    this._kernelChange(() => {
+      this._setInputRequest(cell, null);
+      var index = this.indexOf(cell);
+      if (index !== -1) {
+        this.appendOutput(index, <nbformat.Stream>{
+          output_type: 'stream',
+          name: 'stdout',
+          text: echo + '\n'
+        });
+      }
+    });
+  }
+
+  /**
+   * Execute a code cell using the session kernel.
+   *
+   * The outputs of the cell are cleared, and then rebuilt from the
+   * messages sent by the kernel in response to the request.
+   */
+  executeCell(cell: nbformat.CodeCell): IKernelFuture {
+    if (!this._session) {
+      throw Error('Notebook has no session');
+    }
+    var index = this.indexOf(cell);
+    this._checkCodeCell(index);
+    this._kernelChange(() => {
+      this.clearOutputs(index);
+      this.setExecutionCount(index, null);
+    });
+    this._clearPending.delete(cell);
+    this._kernelChange(() => { this._setInputRequest(cell, null); });
+
+    var future = this._session.kernel.execute(cell.source, {
+      silent: false,
+      store_history: true,
+      allow_stdin: true
+    });
+    future.onOutput((msg: IKernelMsg) => {
+      this._kernelChange(() => { this._handleOutput(cell, msg); });
+    });
+    future.onReply((msg: IKernelMsg) => {
+      this._kernelChange(() => { this._handleReply(cell, msg); });
+    });
+    future.onInput((msg: IKernelMsg) => {
+      if (msg.msgType === 'input_request') {
+        this._kernelChange(() => {
+          this._setInputRequest(cell, {
+            prompt: msg.content.prompt || '',
+            password: !!msg.content.password
+          });
+        });
+      }
+    });
+    future.onDone((msg: IKernelMsg) => {
+      this._clearPending.delete(cell);
+      // the kernel no longer waits for an answer
+      this._kernelChange(() => { this._setInputRequest(cell, null); });
+    });
+    future.onError((error: Error) => {
+      model_log.error('Execution failed: ' + error.message);
+      this._clearPending.delete(cell);
+      this._kernelChange(() => { this._setInputRequest(cell, null); });
+    });
+    future.autoDispose = true;
+    return future;
+  }
+
+  /**
+   * Handle an iopub message for an executing cell.
+   */
+  private _handleOutput(cell: nbformat.CodeCell, msg: IKernelMsg): void {
+    var index = this.indexOf(cell);
+    if (index === -1) {
+      // the cell was deleted or replaced while executing
+      return;
+    }
+    var content = msg.content;
+    switch (msg.msgType) {
+      case 'execute_input':
+        this.setExecutionCount(index, content.execution_count);
+        break;
+      case 'clear_output':
+        if (content.wait) {
+          this._clearPending.set(cell, true);
+        } else {
+          this.clearOutputs(index);
+        }
+        break;
+      case 'stream':
+      case 'execute_result':
+      case 'display_data':
+      case 'error':
+        if (this._clearPending.get(cell)) {
+          this._clearPending.delete(cell);
+          this.clearOutputs(index);
+        }
+        var output = msgToOutput(msg);
+        var displayId = getDisplayId(msg);
+        if (displayId) {
+          // a new display with an existing id updates the others too
+          this._updateDisplay(msg);
+          this._outputDisplayIds.set(output, displayId);
+        }
+        this.appendOutput(index, output);
+        break;
+    }
+  }
+
+  /**
+   * Handle an `update_display_data` message, or a display message
+   * reusing a display id, replacing the data of every output with
+   * its display id.
+   */
+  private _updateDisplay(msg: IKernelMsg): void {
+    var displayId = getDisplayId(msg);
+    var entries = this._displayIndex.get(displayId);
+    if (!entries) {
+      return;
+    }
+    // replacing the outputs changes the index
+    entries = entries.slice();
+    for (var i = 0; i < entries.length; i++) {
+      var cellIndex = this.indexOf(entries[i].cell);
+      var outputIndex = entries[i].cell.outputs.indexOf(entries[i].output);
+      if (cellIndex === -1 || outputIndex === -1) {
+        continue;
+      }
+      var old = <nbformat.DisplayData>entries[i].output;
+      var updated = <nbformat.DisplayData>JSON.parse(JSON.stringify(old));
+      updated.data = msg.content.data;
+      updated.metadata = msg.content.metadata || {};
+      this._outputDisplayIds.set(updated, displayId);
+      this.setOutput(cellIndex, outputIndex, updated);
+    }
+  }
+
+  /**
+   * Update the display id index for a change of the notebook.
+   */
+  private _updateDisplayIndex(change: INotebookChange): void {
+    switch (change.type) {
+      case ChangeType.CellInserted:
+        this._indexCell(change.cell, true);
+        break;
+      case ChangeType.CellRemoved:
+        this._indexCell(change.cell, false);
+        this._forgetOutputs(cellOutputs(change.cell), []);
+        break;
+      case ChangeType.CellReplaced:
+        this._indexCell(change.oldValue, false);
+        this._indexCell(change.newValue, true);
+        this._forgetOutputs(cellOutputs(change.oldValue), cellOutputs(change.newValue));
+        break;
+      case ChangeType.OutputsChanged:
+        this._indexOutputs(<nbformat.CodeCell>change.cell, change.oldValue, false);
+        this._indexOutputs(<nbformat.CodeCell>change.cell, change.newValue, true);
+        this._forgetOutputs(change.oldValue, change.newValue);
+        break;
+      case ChangeType.OutputAppended:
+        this._indexOutputs(<nbformat.CodeCell>change.cell, [change.newValue], true);
+        break;
+      case ChangeType.OutputChanged:
+        this._indexOutputs(<nbformat.CodeCell>change.cell, [change.oldValue], false);
+        this._indexOutputs(<nbformat.CodeCell>change.cell, [change.newValue], true);
+        this._forgetOutputs([change.oldValue], [change.newValue]);
+        break;
+      case ChangeType.NotebookReplaced:
+        this._displayIndex.clear();
+        this._outputDisplayIds.clear();
+        break;
+    }
+  }
+
+  /**
+   * Add or remove the outputs of a cell in the display id index.
+   */
+  private _indexCell(cell: nbformat.Cell, add: boolean): void {
+    if (cell && cell.cell_type === 'code') {
+      this._indexOutputs(<nbformat.CodeCell>cell, (<nbformat.CodeCell>cell).outputs, add);
+    }
+  }
+
+  /**
+   * Add or remove outputs in the display id index.
+   */
+  private _indexOutputs(cell: nbformat.CodeCell, outputs: nbformat.Output[], add: boolean): void {
+    for (var i = 0; i < outputs.length; i++) {
+      var displayId = this._outputDisplayIds.get(outputs[i]);
+      if (!displayId) {
+        continue;
+      }
+      var entries = this._displayIndex.get(displayId) || [];
+      var index = -1;
+      for (var j = 0; j < entries.length; j++) {
+        if (entries[j].output === outputs[i]) {
+          index = j;
+          break;
+        }
+      }
+      if (add && index === -1) {
+        entries.push({ cell: cell, output: outputs[i] });
+      } else if (!add && index !== -1) {
+        entries.splice(index, 1);
+      }
+      if (entries.length) {
+        this._displayIndex.set(displayId, entries);
+      } else {
+        this._displayIndex.delete(displayId);
+      }
+    }
+  }
+
+  /**
+   * Forget the display ids and the session origin of removed outputs.
+   *
+   * Outputs which are still in the notebook, listed in `kept`, are
+   * left alone. Outputs restored later, like by an undo, are treated
+   * as outputs loaded from disk.
+   */
+  private _forgetOutputs(removed: nbformat.Output[], kept: nbformat.Output[]): void {
+    for (var i = 0; i < removed.length; i++) {
+      if (kept.indexOf(removed[i]) === -1) {
+        this._outputDisplayIds.delete(removed[i]);
+        this._sessionOutputs.delete(removed[i]);
+      }
+    }
+  }
+
+  /**
+   * Handle the shell reply for an executing cell.
+   */
+  private _handleReply(cell: nbformat.CodeCell, msg: IKernelMsg): void {
+    var index = this.indexOf(cell);
+    if (index === -1) {
+      return;
+    }
+    var content = msg.content;
+    if (content.execution_count !== void 0) {
+      this.setExecutionCount(index, content.execution_count);
+    }
+    var payloads: any[] = content.payload || [];
+    for (var i = 0; i < payloads.length; i++) {
+      if (payloads[i].source === 'page') {
+        this._pager.showPayload(payloads[i]);
+      }
+    }
+    if (content.status !== 'ok') {
+      model_log.debug('Execution ended with status: ' + content.status);
+    }
+  }
+
+  /**
+   * Handle a status change of the session kernel.
+   */
+  private _onKernelStatus(sender: kernel.Kernel, status: string): void {
+    if (status === 'ready') {
+      this._kernelChange(() => { this._updateKernelMetadata(); });
+    }
+  }
+
+  /**
+   * Update the kernelspec and language metadata from the kernel info.
+   *
+   * The metadata is only set when it changed, like after switching
+   * to another kernel, so opening a notebook does not make it dirty.
+   */
+  private _updateKernelMetadata(): void {
+    var k = this._session.kernel;
+    var metadata = this._notebook.metadata;
+    var old = metadata.kernelspec;
+    var spec = this._session.kernelSpec;
+    var displayName = k.name;
+    if (spec && spec.name === k.name) {
+      displayName = spec.spec.display_name;
+    } else if (old && old.name === k.name) {
+      displayName = old.display_name;
+    }
+    var kernelspec = { name: k.name, display_name: displayName };
+    if (!jsonEqual(kernelspec, old)) {
+      this.setMetadata('kernelspec', kernelspec);
+    }
+    var info = k.infoReply;
+    if (info && info.language_info) {
+      var languageInfo = JSON.parse(JSON.stringify(info.language_info));
+      if (!jsonEqual(languageInfo, metadata.language_info)) {
+        this.setMetadata('language_info', languageInfo);
+      }
+    }
+  }
+
+  /**
+   * Set or clear the pending input request of a cell.
+   */
+  private _setInputRequest(cell: nbformat.CodeCell, request: IInputRequest): void {
+    var old = this._inputRequests.get(cell) || null;
+    if (old === request) {
+      return;
+    }
+    if (request) {
+      this._inputRequests.set(cell, request);
+    } else {
+      this._inputRequests.delete(cell);
+    }
+    this._emit({
+      type: ChangeType.InputRequestChanged,
+      index: this.indexOf(cell),
+      cell: cell,
+      oldValue: old,
+      newValue: request
+    });
+  }
+
+  /**
+   * Remember an output produced by the kernel in this session.
+   */
+  private _trackOutput(output: nbformat.Output): void {
+    if (this._fromKernel) {
+      this._sessionOutputs.set(output, true);
+    }
+  }
+
+  /**
+   * Test whether all the outputs of the notebook are trusted.
+   */
+  private _allOutputsTrusted(): boolean {
+    if (this._trusted) {
+      return true;
+    }
+    var cells = this._notebook.cells;
+    for (var i = 0; i < cells.length; i++) {
+      if (cells[i].cell_type !== 'code') {
+        continue;
+      }
+      var outputs = (<nbformat.CodeCell>cells[i]).outputs;
+      for (var j = 0; j < outputs.length; j++) {
+        if (!this._sessionOutputs.has(outputs[j])) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Get the cell at an index, throwing if the index is invalid.
+   */
+  private _checkIndex(index: number): nbformat.Cell {
+    var cell = this._notebook.cells[index];
+    if (index < 0 || !cell) {
+      throw Error('Invalid cell index: ' + index);
+    }
+    return cell;
+  }
+
+  /**
+   * Get the code cell at an index, throwing if it is not a code cell.
+   */
+  private _checkCodeCell(index: number): nbformat.CodeCell {
+    var cell = this._checkIndex(index);
+    if (cell.cell_type !== 'code') {
+      throw Error('Not a code cell: ' + index);
+    }
+    return <nbformat.CodeCell>cell;
+  }
+
+  /**
+   * Make changes to the model in response to the kernel.
+   */
+  private _kernelChange(fn: () => void): void {
+    var old = this._fromKernel;
+    this._fromKernel = true;
+    try {
+      fn();
+    } finally {
+      this._fromKernel = old;
+    }
+  }
+
+  /**
+   * Emit a change signal.
+   */
+  private _emit(change: INotebookChange): void {
+    change.fromKernel = this._fromKernel;
+    this._updateDisplayIndex(change);
+    this.changed.emit(change);
+    // input requests are transient, they are not part of the document
+    if (change.type !== ChangeType.InputRequestChanged) {
+      this.dirty = true;
+    }
+  }
+
+  private _notebook: nbformat.Notebook = null;
+  private _session: session.NotebookSession = null;
+  private _comms: comm.CommManager = null;
+  private _widgets: widgets.WidgetManager = null;
+  private _pager: pager.Pager = null;
+  private _scheduler: scheduler.ExecutionScheduler = null;
+  private _clearPending = new Map<nbformat.CodeCell, boolean>();
+  private _inputRequests = new Map<nbformat.CodeCell, IInputRequest>();
+  private _sessionOutputs = new Map<nbformat.Output, boolean>();
+  private _outputDisplayIds = new Map<nbformat.Output, string>();
+  private _displayIndex = new Map<string, IDisplayEntry[]>();
+  private _displayUpdates: IDisposable = null;
+  private _fromKernel = false;
+  private _dirty = false;
+  private _trusted = false;
+}
+
+
+/**
+ * Create a new empty cell of the given type.
+ */
+export
+function createCell(cellType: string, source = '', metadata: {} = {}): nbformat.Cell {
+  switch (cellType) {
+    case 'code':
+      return <nbformat.CodeCell>{
+        cell_type: 'code',
+        source: source,
+        metadata: metadata,
+        outputs: [],
+        execution_count: null
+      };
+    case 'markdown':
+    case 'raw':
+      return <nbformat.MarkdownCell>{
+        cell_type: cellType,
+        source: source,
+        metadata: metadata
+      };
+  }
+  throw Error('Invalid cell type: ' + cellType);
+}
+
+
+/**
+ * Convert an output message from the kernel to a notebook output.
+ */
+export
+function msgToOutput(msg: IKernelMsg): nbformat.Output {
+  var content = msg.content;
+  switch (msg.msgType) {
+    case 'stream':
+      return <nbformat.Stream>{
+        output_type: 'stream',
+        name: content.name,
+        text: content.text
+      };
+    case 'execute_result':
+      return <nbformat.ExecuteResult>{
+        output_type: 'execute_result',
+        execution_count: content.execution_count,
+        data: content.data,
+        metadata: content.metadata || {}
+      };
+    case 'display_data':
+      return <nbformat.DisplayData>{
+        output_type: 'display_data',
+        data: content.data,
+        metadata: content.metadata || {}
+      };
+    case 'error':
+      return <nbformat.JupyterError>{
+        output_type: 'error',
+        ename: content.ename,
+        evalue: content.evalue,
+        traceback: content.traceback
+      };
+  }
+  throw Error('Not an output message: ' + msg.msgType);
+}
+
+
+/**
+ * Get the outputs of a cell, or an empty list for a non-code cell.
+ */
+function cellOutputs(cell: nbformat.Cell): nbformat.Output[] {
+  if (cell && cell.cell_type === 'code') {
+    return (<nbformat.CodeCell>cell).outputs;
+  }
+  return [];
+}
+
+
+/**
+ * Get the display id of a display message, or `null`.
+ */
+function getDisplayId(msg: IKernelMsg): string {
+  var transient = msg.content.transient;
+  return (transient && transient.display_id) || null;
+}
+
+
+/**
+ * Test whether two JSON values are equal, ignoring the key order.
+ */
+function jsonEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  var keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) {
+    return false;
+  }
+  for (var i = 0; i < keys.length; i++) {
+    if (!b.hasOwnProperty(keys[i]) || !jsonEqual(a[keys[i]], b[keys[i]])) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,154 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import mimerender = require('./mimerender');
+
+import ISignal = phosphor.core.ISignal;
+import signal = phosphor.core.signal;
+import IMessage = phosphor.core.IMessage;
+import BaseComponent = phosphor.virtualdom.BaseComponent;
+import Elem = phosphor.virtualdom.Elem;
+import createFactory = phosphor.virtualdom.createFactory;
+import render = phosphor.virtualdom.render;
+
+
+/**
+ * The content shown in the pager.
+ */
+export
+interface IPagerContent {
+  /**
+   * The mimebundle to display.
+   */
+  bundle: { [mimetype: string]: any };
+
+  /**
+   * The line to scroll to, for `page` payloads.
+   */
+  start: number;
+}
+
+
+/**
+ * The pager holds long form content from the kernel, like the detailed
+ * help shown for `obj??` or a second Shift-Tab.
+ *
+ * The content comes from the kernel of the current session, so it is
+ * always rendered as trusted.
+ */
+export
+class Pager {
+
+  /**
+   * A signal emitted when the pager content is shown or closed.
+   */
+  @signal
+  changed: ISignal<IPagerContent>;
+
+  /**
+   * Get the current content, or `null` if the pager is closed.
+   */
+  get content(): IPagerContent {
+    return this._content;
+  }
+
+  /**
+   * Test whether the pager is open.
+   */
+  get isOpen(): boolean {
+    return this._content !== null;
+  }
+
+  /**
+   * Show a mimebundle in the pager.
+   */
+  show(bundle: { [mimetype: string]: any }, start = 0): void {
+    this._content = { bundle: bundle, start: start };
+    this.changed.emit(this._content);
+  }
+
+  /**
+   * Show a `page` payload of an execute reply.
+   *
+   * Old kernels send the text in the payload, instead of a mimebundle.
+   */
+  showPayload(payload: any): void {
+    var bundle = payload.data;
+    if (!bundle) {
+      bundle = { 'text/plain': payload.text || '' };
+      if (payload.html) {
+        bundle['text/html'] = payload.html;
+      }
+    }
+    this.show(bundle, payload.start || 0);
+  }
+
+  /**
+   * Close the pager.
+   */
+  close(): void {
+    if (this._content === null) {
+      return;
+    }
+    this._content = null;
+    this.changed.emit(null);
+  }
+
+  private _content: IPagerContent = null;
+}
+
+
+/**
+ * A component which displays the content of a pager in a pane with
+ * a close button.
+ */
+class PagerComponent extends BaseComponent<Pager> {
+
+  constructor(data: Pager, children: Elem[]) {
+    super(data, children);
+    this.node.classList.add('ipy-pager');
+    var close = document.createElement('button');
+    close.classList.add('ipy-pager-close');
+    close.textContent = '×';
+    close.addEventListener('click', () => { this.data.close(); });
+    this._contentNode = document.createElement('div');
+    this._contentNode.classList.add('ipy-pager-content');
+    this.node.appendChild(close);
+    this.node.appendChild(this._contentNode);
+    this._pager = data;
+    this._pager.changed.connect(this._onChanged, this);
+  }
+
+  dispose(): void {
+    this._pager.changed.disconnect(this._onChanged, this);
+    super.dispose();
+  }
+
+  protected onUpdateRequest(msg: IMessage): void {
+    var content = this._pager.content;
+    this.node.style.display = content ? '' : 'none';
+    if (!content) {
+      render(null, this._contentNode);
+      return;
+    }
+    render(mimerender.MimeBundle({ bundle: content.bundle, trusted: true }), this._contentNode);
+    this._scrollToLine(content.start);
+  }
+
+  /**
+   * Scroll the pane to a line of text content.
+   */
+  private _scrollToLine(line: number): void {
+    var style = window.getComputedStyle(this._contentNode);
+    var lineHeight = parseFloat(style.lineHeight);
+    this.node.scrollTop = isNaN(lineHeight) ? 0 : line * lineHeight;
+  }
+
+  private _onChanged(sender: Pager, content: IPagerContent): void {
+    this.update();
+  }
+
+  private _pager: Pager;
+  private _contentNode: HTMLElement;
+}
+export var PagerView = createFactory(PagerComponent);
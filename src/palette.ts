@@ -0,0 +1,296 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import commands = require('./commands');
+
+import ICommand = commands.ICommand;
+import CommandRegistry = commands.CommandRegistry;
+
+
+/**
+ * The result of a fuzzy match.
+ */
+export
+interface IFuzzyMatch {
+  /**
+   * The score of the match, higher is better.
+   */
+  score: number;
+
+  /**
+   * The indices of the matched characters in the text.
+   */
+  indices: number[];
+}
+
+
+/**
+ * Match a query against text, as a case insensitive subsequence.
+ *
+ * Matches at the start of words and runs of consecutive characters
+ * score higher. Returns `null` if the text does not match.
+ */
+export
+function fuzzyMatch(query: string, text: string): IFuzzyMatch {
+  var q = query.toLowerCase().replace(/\s+/g, '');
+  var t = text.toLowerCase();
+  var indices: number[] = [];
+  var score = 0;
+  var j = 0;
+  for (var i = 0; i < t.length && j < q.length; i++) {
+    if (t[i] !== q[j]) {
+      continue;
+    }
+    var previous = indices[indices.length - 1];
+    if (i === 0 || /[\s:\-_(]/.test(t[i - 1])) {
+      score += 3;
+    } else if (previous === i - 1) {
+      score += 2;
+    } else {
+      score += 1;
+    }
+    indices.push(i);
+    j++;
+  }
+  if (j < q.length) {
+    return null;
+  }
+  // prefer shorter texts for equal matches
+  return { score: score - text.length / 1000, indices: indices };
+}
+
+
+/**
+ * A function which gets the shortcut of a command, for display.
+ */
+export
+interface IShortcutFunc {
+  (command: string): string;
+}
+
+
+/**
+ * A searchable palette of the commands of a command registry.
+ *
+ * Typing filters the commands with a fuzzy match on their category
+ * and label, Enter runs the selected command and Escape closes the
+ * palette. Disabled commands are shown but cannot be run.
+ */
+export
+class CommandPalette {
+
+  /**
+   * Construct a new command palette for a registry.
+   */
+  constructor(registry: CommandRegistry, shortcut?: IShortcutFunc) {
+    this._commands = registry;
+    this._shortcut = shortcut || null;
+  }
+
+  /**
+   * Test whether the palette is open.
+   */
+  get isOpen(): boolean {
+    return this._node !== null;
+  }
+
+  /**
+   * Open the palette, focusing the search box.
+   */
+  open(): void {
+    if (this._node) {
+      this._input.focus();
+      return;
+    }
+    this._lastFocus = <HTMLElement>document.activeElement;
+    this._node = document.createElement('div');
+    this._node.className = 'ipy-palette';
+    this._input = document.createElement('input');
+    this._input.className = 'ipy-palette-input';
+    this._input.placeholder = 'Search commands';
+    this._list = document.createElement('ul');
+    this._list.className = 'ipy-palette-list';
+    this._node.appendChild(this._input);
+    this._node.appendChild(this._list);
+    this._input.addEventListener('input', () => { this._filter(); });
+    this._input.addEventListener('keydown', (event: KeyboardEvent) => {
+      this._onKeydown(event);
+    });
+    this._input.addEventListener('blur', () => { this.close(); });
+    this._list.addEventListener('mousedown', (event: MouseEvent) => {
+      // keep the focus in the search box
+      event.preventDefault();
+      var target = <HTMLElement>event.target;
+      while (target && target !== this._list) {
+        var index = this._nodes.indexOf(target);
+        if (index !== -1) {
+          this._active = index;
+          this._run();
+          return;
+        }
+        target = <HTMLElement>target.parentNode;
+      }
+    });
+    document.body.appendChild(this._node);
+    this._filter();
+    this._input.focus();
+  }
+
+  /**
+   * Close the palette, restoring the focus.
+   */
+  close(): void {
+    if (!this._node) {
+      return;
+    }
+    var node = this._node;
+    this._node = null;
+    if (node.parentNode) {
+      node.parentNode.removeChild(node);
+    }
+    this._shown = [];
+    this._nodes = [];
+    if (this._lastFocus && document.body.contains(this._lastFocus)) {
+      this._lastFocus.focus();
+    }
+    this._lastFocus = null;
+  }
+
+  /**
+   * Toggle the palette.
+   */
+  toggle(): void {
+    if (this.isOpen) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  /**
+   * Show the commands matching the search box.
+   */
+  private _filter(): void {
+    var query = this._input.value;
+    var matches: { command: ICommand; match: IFuzzyMatch; offset: number }[] = [];
+    var list = this._commands.list();
+    for (var i = 0; i < list.length; i++) {
+      var prefix = list[i].category + ': ';
+      var match = query ? fuzzyMatch(query, prefix + list[i].label) : { score: 0, indices: [] };
+      if (match) {
+        matches.push({ command: list[i], match: match, offset: prefix.length });
+      }
+    }
+    if (query) {
+      // keep the registry order for equal scores
+      matches = matches.map((m, index) => ({ m: m, index: index }))
+        .sort((a, b) => (b.m.match.score - a.m.match.score) || (a.index - b.index))
+        .map(item => item.m);
+    }
+    this._shown = matches.map(m => m.command);
+    this._list.innerHTML = '';
+    this._nodes = matches.map(m => {
+      var li = document.createElement('li');
+      if (!this._commands.isEnabled(m.command.id)) {
+        li.classList.add('ipy-mod-disabled');
+      }
+      var category = document.createElement('span');
+      category.className = 'ipy-palette-category';
+      category.textContent = m.command.category;
+      li.appendChild(category);
+      var label = document.createElement('span');
+      label.className = 'ipy-palette-label';
+      label.innerHTML = highlight(m.command.label, m.match.indices, m.offset);
+      li.appendChild(label);
+      var keys = this._shortcut ? this._shortcut(m.command.id) : '';
+      if (keys) {
+        var shortcut = document.createElement('span');
+        shortcut.className = 'ipy-palette-shortcut';
+        shortcut.textContent = keys;
+        li.appendChild(shortcut);
+      }
+      this._list.appendChild(li);
+      return li;
+    });
+    this._select(0);
+  }
+
+  /**
+   * Handle a key in the search box.
+   */
+  private _onKeydown(event: KeyboardEvent): void {
+    switch (event.keyCode) {
+      case 13:  // Enter
+        this._run();
+        break;
+      case 27:  // Escape
+        this.close();
+        break;
+      case 38:  // Up
+        this._select(this._active - 1);
+        break;
+      case 40:  // Down
+        this._select(this._active + 1);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  /**
+   * Select a command in the list, wrapping around the ends.
+   */
+  private _select(index: number): void {
+    var count = this._nodes.length;
+    if (count === 0) {
+      return;
+    }
+    index = ((index % count) + count) % count;
+    if (this._nodes[this._active]) {
+      this._nodes[this._active].classList.remove('ipy-mod-active');
+    }
+    this._active = index;
+    this._nodes[index].classList.add('ipy-mod-active');
+    this._nodes[index].scrollIntoView(false);
+  }
+
+  /**
+   * Close the palette and run the selected command.
+   */
+  private _run(): void {
+    var command = this._shown[this._active];
+    if (!command || !this._commands.isEnabled(command.id)) {
+      return;
+    }
+    this.close();
+    this._commands.execute(command.id);
+  }
+
+  private _commands: CommandRegistry = null;
+  private _shortcut: IShortcutFunc = null;
+  private _node: HTMLElement = null;
+  private _input: HTMLInputElement = null;
+  private _list: HTMLElement = null;
+  private _nodes: HTMLElement[] = [];
+  private _shown: ICommand[] = [];
+  private _active = 0;
+  private _lastFocus: HTMLElement = null;
+}
+
+
+/**
+ * Escape text as HTML, marking the matched characters.
+ *
+ * The indices are relative to the text with a prefix of `offset`
+ * characters, which is not shown.
+ */
+function highlight(text: string, indices: number[], offset: number): string {
+  var out = '';
+  for (var i = 0; i < text.length; i++) {
+    var c = text[i].replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    out += indices.indexOf(i + offset) !== -1 ? '<mark>' + c + '</mark>' : c;
+  }
+  return out;
+}
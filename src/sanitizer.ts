@@ -0,0 +1,304 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+
+/**
+ * Get a logger for the sanitizer.
+ */
+var sanitizer_log = Logger.get('sanitizer');
+
+
+/**
+ * Elements which are removed along with their content.
+ */
+var DROPPED_ELEMENTS = toSet([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed',
+  'applet', 'base', 'link', 'meta', 'template', 'noscript', 'form',
+  'foreignobject', 'animate', 'animatemotion', 'animatetransform', 'set',
+  'handler', 'listener', 'math'
+]);
+
+
+/**
+ * The allowed HTML elements. Other elements are replaced by their content.
+ */
+var HTML_ELEMENTS = toSet([
+  'a', 'abbr', 'address', 'article', 'aside', 'b', 'bdi', 'bdo',
+  'blockquote', 'br', 'caption', 'center', 'cite', 'code', 'col',
+  'colgroup', 'dd', 'del', 'details', 'dfn', 'div', 'dl', 'dt', 'em',
+  'figcaption', 'figure', 'font', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5',
+  'h6', 'header', 'hr', 'i', 'img', 'ins', 'kbd', 'label', 'li', 'main',
+  'mark', 'nav', 'ol', 'p', 'pre', 'q', 's', 'samp', 'section', 'small',
+  'span', 'strike', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody',
+  'td', 'tfoot', 'th', 'thead', 'time', 'tr', 'tt', 'u', 'ul', 'var',
+  'wbr'
+]);
+
+
+/**
+ * The allowed SVG elements.
+ */
+var SVG_ELEMENTS = toSet([
+  'svg', 'g', 'defs', 'desc', 'title', 'symbol', 'use', 'image', 'path',
+  'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text',
+  'tspan', 'textpath', 'lineargradient', 'radialgradient', 'stop',
+  'clippath', 'mask', 'pattern', 'marker', 'filter', 'fegaussianblur',
+  'feoffset', 'feblend', 'fecolormatrix', 'femerge', 'femergenode',
+  'feflood', 'fecomposite'
+]);
+
+
+/**
+ * The attributes allowed on any element.
+ */
+var GLOBAL_ATTRIBUTES = toSet([
+  'class', 'id', 'title', 'lang', 'dir', 'style', 'align', 'valign',
+  'width', 'height', 'hidden'
+]);
+
+
+/**
+ * The attributes allowed on specific HTML elements.
+ */
+var HTML_ATTRIBUTES: { [element: string]: { [attr: string]: boolean } } = {
+  'a': toSet(['href', 'name', 'target', 'rel']),
+  'img': toSet(['src', 'alt', 'border']),
+  'ol': toSet(['start', 'type', 'reversed']),
+  'ul': toSet(['type']),
+  'li': toSet(['value']),
+  'td': toSet(['colspan', 'rowspan', 'headers', 'nowrap']),
+  'th': toSet(['colspan', 'rowspan', 'headers', 'scope', 'nowrap']),
+  'table': toSet(['border', 'cellpadding', 'cellspacing', 'summary']),
+  'col': toSet(['span']),
+  'colgroup': toSet(['span']),
+  'font': toSet(['color', 'face', 'size']),
+  'blockquote': toSet(['cite']),
+  'q': toSet(['cite']),
+  'del': toSet(['cite', 'datetime']),
+  'ins': toSet(['cite', 'datetime']),
+  'time': toSet(['datetime']),
+  'details': toSet(['open'])
+};
+
+
+/**
+ * The attributes allowed on SVG elements, in lower case.
+ */
+var SVG_ATTRIBUTES = toSet([
+  'x', 'y', 'x1', 'x2', 'y1', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'dx',
+  'dy', 'd', 'points', 'transform', 'viewbox', 'preserveaspectratio',
+  'version', 'xmlns', 'xmlns:xlink', 'fill', 'fill-opacity', 'fill-rule',
+  'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap',
+  'stroke-linejoin', 'stroke-dasharray', 'stroke-dashoffset',
+  'stroke-miterlimit', 'opacity', 'color', 'font-family', 'font-size',
+  'font-style', 'font-weight', 'text-anchor', 'dominant-baseline',
+  'alignment-baseline', 'baseline-shift', 'letter-spacing', 'rotate',
+  'textlength', 'lengthadjust', 'offset', 'stop-color', 'stop-opacity',
+  'gradientunits', 'gradienttransform', 'spreadmethod', 'fx', 'fy',
+  'clip-path', 'clip-rule', 'clippathunits', 'mask', 'maskunits',
+  'maskcontentunits', 'patternunits', 'patterncontentunits',
+  'patterntransform', 'marker-start', 'marker-mid', 'marker-end',
+  'markerwidth', 'markerheight', 'markerunits', 'refx', 'refy', 'orient',
+  'filter', 'stddeviation', 'in', 'in2', 'result', 'mode', 'values',
+  'type', 'operator', 'k1', 'k2', 'k3', 'k4', 'flood-color',
+  'flood-opacity', 'href', 'xlink:href', 'visibility', 'display',
+  'shape-rendering', 'text-rendering', 'image-rendering',
+  'vector-effect', 'overflow'
+]);
+
+
+/**
+ * The attributes holding a URL, which are checked against the schemes.
+ */
+var URL_ATTRIBUTES = toSet(['href', 'src', 'xlink:href', 'cite']);
+
+
+/**
+ * The allowed URL schemes. Relative URLs are always allowed.
+ */
+var URL_SCHEMES = toSet(['http', 'https', 'ftp', 'mailto']);
+
+
+/**
+ * The allowed CSS properties in style attributes.
+ */
+var CSS_PROPERTIES = toSet([
+  'background-color', 'border', 'border-bottom', 'border-collapse',
+  'border-color', 'border-left', 'border-radius', 'border-right',
+  'border-spacing', 'border-style', 'border-top', 'border-width',
+  'clear', 'color', 'display', 'float', 'font', 'font-family',
+  'font-size', 'font-style', 'font-variant', 'font-weight', 'height',
+  'letter-spacing', 'line-height', 'list-style-type', 'margin',
+  'margin-bottom', 'margin-left', 'margin-right', 'margin-top',
+  'max-height', 'max-width', 'min-height', 'min-width', 'overflow',
+  'padding', 'padding-bottom', 'padding-left', 'padding-right',
+  'padding-top', 'table-layout', 'text-align', 'text-decoration',
+  'text-indent', 'text-transform', 'vertical-align', 'visibility',
+  'white-space', 'width', 'word-spacing', 'word-wrap', 'fill', 'stroke',
+  'stroke-width', 'opacity'
+]);
+
+
+/**
+ * A pattern for CSS values which may load resources or run code.
+ */
+var UNSAFE_CSS = /url\s*\(|expression\s*\(|javascript:|behavior|-moz-binding|@import|\\/i;
+
+
+/**
+ * Sanitize HTML, which may contain SVG, with a whitelist policy.
+ *
+ * Only whitelisted elements, attributes, URL schemes and CSS
+ * properties are kept. Dangerous elements like `script` are removed
+ * with their content, other unknown elements are replaced by their
+ * content. The HTML is parsed in an inert document, so nothing is
+ * loaded or run while sanitizing.
+ */
+export
+function sanitize(html: string): string {
+  var doc = document.implementation.createHTMLDocument('');
+  var root = doc.createElement('div');
+  root.innerHTML = html;
+  sanitizeChildren(root);
+  return root.innerHTML;
+}
+
+
+/**
+ * Test whether a URL is allowed by the URL scheme policy.
+ */
+export
+function isSafeURL(url: string, attr = 'href', tag = 'a'): boolean {
+  // remove the characters which browsers ignore in schemes
+  var value = url.replace(/[\u0000- \u007f-\u009f]/g, '');
+  var match = /^([a-z][a-z0-9+.\-]*):/i.exec(value);
+  if (!match) {
+    // a relative URL, or a fragment
+    return true;
+  }
+  var scheme = match[1].toLowerCase();
+  if (scheme === 'data') {
+    // raster images cannot run script
+    return attr === 'src' && tag === 'img' && /^data:image\/(png|jpeg|gif|webp|bmp);/i.test(value);
+  }
+  return URL_SCHEMES[scheme] === true;
+}
+
+
+/**
+ * Sanitize a style attribute value, keeping the allowed properties.
+ */
+export
+function sanitizeStyle(style: string): string {
+  var kept: string[] = [];
+  var declarations = style.split(';');
+  for (var i = 0; i < declarations.length; i++) {
+    var index = declarations[i].indexOf(':');
+    if (index === -1) {
+      continue;
+    }
+    var name = declarations[i].slice(0, index).trim().toLowerCase();
+    var value = declarations[i].slice(index + 1).trim();
+    if (CSS_PROPERTIES[name] === true && value && !UNSAFE_CSS.test(value)) {
+      kept.push(name + ': ' + value);
+    }
+  }
+  return kept.join('; ');
+}
+
+
+/**
+ * Sanitize the children of a node in place.
+ */
+function sanitizeChildren(node: Node): void {
+  var child = node.firstChild;
+  while (child) {
+    var next = child.nextSibling;
+    if (child.nodeType === Node.ELEMENT_NODE) {
+      sanitizeElement(<Element>child);
+    } else if (child.nodeType !== Node.TEXT_NODE) {
+      // comments, processing instructions and CDATA
+      node.removeChild(child);
+    }
+    child = next;
+  }
+}
+
+
+/**
+ * Sanitize an element and its children in place.
+ */
+function sanitizeElement(element: Element): void {
+  var tag = element.localName.toLowerCase();
+  var isSVG = element.namespaceURI === 'http://www.w3.org/2000/svg';
+  var parent = element.parentNode;
+  if (DROPPED_ELEMENTS[tag] === true) {
+    sanitizer_log.debug('Removing element: ' + tag);
+    parent.removeChild(element);
+    return;
+  }
+  var allowed = isSVG ? SVG_ELEMENTS[tag] === true : HTML_ELEMENTS[tag] === true;
+  sanitizeChildren(element);
+  if (!allowed) {
+    // keep the content of unknown elements
+    while (element.firstChild) {
+      parent.insertBefore(element.firstChild, element);
+    }
+    parent.removeChild(element);
+    return;
+  }
+  sanitizeAttributes(element, tag, isSVG);
+}
+
+
+/**
+ * Remove the attributes of an element not allowed by the policy.
+ */
+function sanitizeAttributes(element: Element, tag: string, isSVG: boolean): void {
+  var attrs: Attr[] = [];
+  for (var i = 0; i < element.attributes.length; i++) {
+    attrs.push(element.attributes[i]);
+  }
+  for (var i = 0; i < attrs.length; i++) {
+    var name = attrs[i].name.toLowerCase();
+    var value = attrs[i].value;
+    var allowed = GLOBAL_ATTRIBUTES[name] === true;
+    if (isSVG) {
+      allowed = allowed || SVG_ATTRIBUTES[name] === true;
+    } else if (HTML_ATTRIBUTES[tag]) {
+      allowed = allowed || HTML_ATTRIBUTES[tag][name] === true;
+    }
+    if (allowed && URL_ATTRIBUTES[name] === true) {
+      // svg `use` may only reference the document itself
+      allowed = tag === 'use' ? value.trim().charAt(0) === '#' : isSafeURL(value, name, tag);
+    }
+    if (!allowed) {
+      element.removeAttribute(attrs[i].name);
+      continue;
+    }
+    if (name === 'style') {
+      var style = sanitizeStyle(value);
+      if (style) {
+        element.setAttribute(attrs[i].name, style);
+      } else {
+        element.removeAttribute(attrs[i].name);
+      }
+    }
+  }
+  if (tag === 'a' && element.getAttribute('target')) {
+    // do not give the opened page access to the notebook
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+}
+
+
+/**
+ * Create a set from a list of names.
+ */
+function toSet(names: string[]): { [name: string]: boolean } {
+  var set: { [name: string]: boolean } = Object.create(null);
+  for (var i = 0; i < names.length; i++) {
+    set[names[i]] = true;
+  }
+  return set;
+}
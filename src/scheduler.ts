@@ -0,0 +1,260 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import kernel = require('./kernel');
+import nbformat = require('./nbformat');
+import notebookmodel = require('./notebookmodel');
+import session = require('./session');
+
+import ISignal = phosphor.core.ISignal;
+import signal = phosphor.core.signal;
+import IKernelFuture = kernel.IKernelFuture;
+import IKernelMsg = kernel.IKernelMsg;
+
+
+/**
+ * Get a logger for the execution scheduler.
+ */
+var scheduler_log = Logger.get('scheduler');
+
+
+/**
+ * A queue of code cells executed one after the other.
+ *
+ * Queued cells are pending until they have run. When a cell fails and
+ * `stopOnError` is set, the rest of the queue is dropped. The queue is
+ * also dropped when the kernel is interrupted, restarted or dies.
+ */
+export
+class ExecutionScheduler {
+
+  /**
+   * A signal emitted when a cell becomes pending or stops being pending.
+   */
+  @signal
+  pendingChanged: ISignal<nbformat.CodeCell>;
+
+  /**
+   * Construct a new scheduler for the cells of a notebook model.
+   */
+  constructor(model: notebookmodel.NotebookModel) {
+    this._model = model;
+    if (model.session) {
+      model.session.statusChanged.connect(this._onSessionStatus, this);
+      model.session.kernel.statusChanged.connect(this._onKernelStatus, this);
+    }
+  }
+
+  /**
+   * Get whether the queue is dropped when a cell fails.
+   */
+  get stopOnError(): boolean {
+    return this._stopOnError;
+  }
+
+  /**
+   * Set whether the queue is dropped when a cell fails.
+   */
+  set stopOnError(value: boolean) {
+    this._stopOnError = value;
+  }
+
+  /**
+   * Get the cell being executed, or `null`.
+   */
+  get runningCell(): nbformat.CodeCell {
+    return this._running;
+  }
+
+  /**
+   * Get the number of cells waiting to be executed.
+   */
+  get queueLength(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Test whether a cell is queued or being executed.
+   */
+  isPending(cell: nbformat.CodeCell): boolean {
+    return cell === this._running || this._queue.indexOf(cell) !== -1;
+  }
+
+  /**
+   * Add code cells to the end of the queue.
+   *
+   * Cells which are not code cells, or are already pending, are
+   * ignored.
+   */
+  run(cells: nbformat.Cell[]): void {
+    if (!this._model.session) {
+      throw Error('Notebook has no session');
+    }
+    for (var i = 0; i < cells.length; i++) {
+      var cell = <nbformat.CodeCell>cells[i];
+      if (cell.cell_type !== 'code' || this.isPending(cell)) {
+        continue;
+      }
+      this._queue.push(cell);
+      this.pendingChanged.emit(cell);
+    }
+    this._runNext();
+  }
+
+  /**
+   * Run all the code cells of the notebook.
+   */
+  runAll(): void {
+    this.run(this._model.notebook.cells);
+  }
+
+  /**
+   * Run the code cells above the cell at an index, excluding it.
+   */
+  runAbove(index: number): void {
+    this.run(this._model.notebook.cells.slice(0, index));
+  }
+
+  /**
+   * Run the code cells from the cell at an index to the end.
+   */
+  runBelow(index: number): void {
+    this.run(this._model.notebook.cells.slice(index));
+  }
+
+  /**
+   * Drop the cells waiting to be executed.
+   *
+   * The cell being executed is not affected.
+   */
+  clear(): void {
+    var queue = this._queue;
+    this._queue = [];
+    for (var i = 0; i < queue.length; i++) {
+      this.pendingChanged.emit(queue[i]);
+    }
+  }
+
+  /**
+   * Stop scheduling cells.
+   */
+  dispose(): void {
+    this.clear();
+    if (this._model.session) {
+      this._model.session.statusChanged.disconnect(this._onSessionStatus, this);
+      this._model.session.kernel.statusChanged.disconnect(this._onKernelStatus, this);
+    }
+  }
+
+  /**
+   * Execute the next queued cell, unless a cell is being executed.
+   */
+  private _runNext(): void {
+    while (!this._running && this._queue.length) {
+      var cell = this._queue.shift();
+      if (this._model.indexOf(cell) === -1) {
+        // the cell was deleted while queued
+        this.pendingChanged.emit(cell);
+        continue;
+      }
+      this._execute(cell);
+    }
+  }
+
+  /**
+   * Execute a cell, running the next one once it is done.
+   */
+  private _execute(cell: nbformat.CodeCell): void {
+    try {
+      var future = this._model.executeCell(cell);
+    } catch (error) {
+      scheduler_log.error('Could not execute cell: ' + error.message);
+      this.pendingChanged.emit(cell);
+      this.clear();
+      return;
+    }
+    this._running = cell;
+    this._future = future;
+    future.reply.then((msg: IKernelMsg) => {
+      if (msg.content.status === 'error' && this._stopOnError && this._future === future) {
+        scheduler_log.info('Cell failed, dropping ' + this._queue.length + ' queued cells');
+        this.clear();
+      }
+    }, () => {
+      // failures are handled once the future is done
+    });
+    future.done.then(() => {
+      this._finish(future);
+    }, (error: Error) => {
+      scheduler_log.error('Execution failed: ' + error.message);
+      if (this._future === future) {
+        this.clear();
+      }
+      this._finish(future);
+    });
+  }
+
+  /**
+   * Handle the end of an execution.
+   */
+  private _finish(future: IKernelFuture): void {
+    if (this._future !== future) {
+      return;
+    }
+    var cell = this._running;
+    this._running = null;
+    this._future = null;
+    this.pendingChanged.emit(cell);
+    this._runNext();
+  }
+
+  /**
+   * Handle a status change of the session kernel.
+   */
+  private _onKernelStatus(sender: kernel.Kernel, status: string): void {
+    switch (status) {
+      case 'interrupting':
+        // the running cell ends with an error reply
+        this.clear();
+        break;
+      case 'restarting':
+      case 'autorestarting':
+        this._abort('Kernel restarted');
+        break;
+      case 'dead':
+        this._abort('Kernel died');
+        break;
+      case 'connectionDead':
+        this._abort('Connection to the kernel is dead');
+        break;
+    }
+  }
+
+  /**
+   * Handle a status change of the session.
+   */
+  private _onSessionStatus(sender: session.NotebookSession, status: string): void {
+    if (status === 'kernelKilled' || status === 'kernelDead') {
+      this._abort('Kernel ' + (status === 'kernelKilled' ? 'killed' : 'died'));
+    }
+  }
+
+  /**
+   * Drop the queue and give up on the running cell.
+   *
+   * The running cell fails, so the model clears its input request.
+   */
+  private _abort(reason: string): void {
+    this.clear();
+    if (this._future) {
+      // the reply of the running cell will never arrive
+      this._future.handleError(Error(reason));
+    }
+  }
+
+  private _model: notebookmodel.NotebookModel;
+  private _queue: nbformat.CodeCell[] = [];
+  private _running: nbformat.CodeCell = null;
+  private _future: IKernelFuture = null;
+  private _stopOnError = true;
+}
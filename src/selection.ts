@@ -0,0 +1,246 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import nbformat = require('./nbformat');
+import notebookmodel = require('./notebookmodel');
+
+import ISignal = phosphor.core.ISignal;
+import signal = phosphor.core.signal;
+import ChangeType = notebookmodel.ChangeType;
+import INotebookChange = notebookmodel.INotebookChange;
+import NotebookModel = notebookmodel.NotebookModel;
+
+
+/**
+ * The interaction mode of a notebook view.
+ */
+export
+enum NotebookMode {
+  /**
+   * Keys act on the selected cells.
+   */
+  Command,
+
+  /**
+   * Keys go to the editor of the active cell.
+   */
+  Edit
+}
+
+
+/**
+ * The cell selection and interaction mode of a notebook view.
+ *
+ * One cell is active, and the selection is the contiguous range of
+ * cells between the active cell and an anchor cell, which is extended
+ * with Shift in command mode. The cells are tracked by object, so the
+ * selection follows the cells through insertions, deletions and moves.
+ */
+export
+class NotebookSelection {
+
+  /**
+   * A signal emitted when the selection or the mode changes.
+   */
+  @signal
+  changed: ISignal<void>;
+
+  /**
+   * Construct a new selection for a notebook model.
+   */
+  constructor(model: NotebookModel) {
+    this._model = model;
+    this._model.changed.connect(this._onModelChanged, this);
+    this._active = this._anchor = model.getCell(0) || null;
+  }
+
+  /**
+   * Get the notebook model.
+   */
+  get model(): NotebookModel {
+    return this._model;
+  }
+
+  /**
+   * Get the interaction mode.
+   */
+  get mode(): NotebookMode {
+    return this._mode;
+  }
+
+  /**
+   * Set the interaction mode.
+   *
+   * Entering edit mode collapses the selection to the active cell.
+   */
+  set mode(value: NotebookMode) {
+    if (this._mode === value) {
+      return;
+    }
+    this._mode = value;
+    if (value === NotebookMode.Edit) {
+      this._anchor = this._active;
+    }
+    this.changed.emit(void 0);
+  }
+
+  /**
+   * Get the index of the active cell, or `-1` if there are no cells.
+   */
+  get activeIndex(): number {
+    return this._active ? this._model.indexOf(this._active) : -1;
+  }
+
+  /**
+   * Set the active cell by index, collapsing the selection to it.
+   *
+   * The index is clamped to the cells of the notebook.
+   */
+  set activeIndex(index: number) {
+    var cell = this._clampedCell(index);
+    if (cell === this._active && cell === this._anchor) {
+      return;
+    }
+    this._active = this._anchor = cell;
+    this.changed.emit(void 0);
+  }
+
+  /**
+   * Get the active cell, or `null` if there are no cells.
+   */
+  get activeCell(): nbformat.Cell {
+    return this._active;
+  }
+
+  /**
+   * Get the sorted indices of the selected cells.
+   */
+  get selectedIndices(): number[] {
+    var active = this.activeIndex;
+    if (active === -1) {
+      return [];
+    }
+    var anchor = this._anchor ? this._model.indexOf(this._anchor) : active;
+    var indices: number[] = [];
+    for (var i = Math.min(active, anchor); i <= Math.max(active, anchor); i++) {
+      indices.push(i);
+    }
+    return indices;
+  }
+
+  /**
+   * Get the selected cells, in notebook order.
+   */
+  get selectedCells(): nbformat.Cell[] {
+    return this.selectedIndices.map(index => this._model.getCell(index));
+  }
+
+  /**
+   * Test whether a cell is the active cell.
+   */
+  isActive(cell: nbformat.Cell): boolean {
+    return cell === this._active;
+  }
+
+  /**
+   * Test whether a cell is selected.
+   */
+  isSelected(cell: nbformat.Cell): boolean {
+    return this.selectedCells.indexOf(cell) !== -1;
+  }
+
+  /**
+   * Move the active cell to an index, extending the selection from
+   * the anchor cell to it.
+   */
+  extendTo(index: number): void {
+    var cell = this._clampedCell(index);
+    if (cell === this._active) {
+      return;
+    }
+    this._active = cell;
+    this.changed.emit(void 0);
+  }
+
+  /**
+   * Select all the cells, activating the last cell.
+   */
+  selectAll(): void {
+    var count = this._model.cellCount;
+    if (count === 0) {
+      return;
+    }
+    this._anchor = this._model.getCell(0);
+    this._active = this._model.getCell(count - 1);
+    this.changed.emit(void 0);
+  }
+
+  /**
+   * Stop tracking the model.
+   */
+  dispose(): void {
+    this._model.changed.disconnect(this._onModelChanged, this);
+  }
+
+  /**
+   * Get the cell at an index clamped to the notebook cells.
+   */
+  private _clampedCell(index: number): nbformat.Cell {
+    var count = this._model.cellCount;
+    if (count === 0) {
+      return null;
+    }
+    return this._model.getCell(Math.max(0, Math.min(index, count - 1)));
+  }
+
+  /**
+   * Keep the selection valid when the cells change.
+   */
+  private _onModelChanged(sender: NotebookModel, change: INotebookChange): void {
+    var changed = false;
+    switch (change.type) {
+      case ChangeType.CellInserted:
+        if (!this._active) {
+          this._active = this._anchor = change.cell;
+          changed = true;
+        }
+        break;
+      case ChangeType.CellRemoved:
+        if (change.cell === this._active) {
+          this._active = this._anchor = this._clampedCell(change.index);
+          changed = true;
+        } else if (change.cell === this._anchor) {
+          this._anchor = this._active;
+          changed = true;
+        }
+        break;
+      case ChangeType.CellReplaced:
+        if (change.oldValue === this._active) {
+          this._active = change.newValue;
+          changed = true;
+        }
+        if (change.oldValue === this._anchor) {
+          this._anchor = change.newValue;
+          changed = true;
+        }
+        break;
+      case ChangeType.CellMoved:
+        // the cells in the selected range may have changed
+        changed = true;
+        break;
+      case ChangeType.NotebookReplaced:
+        this._active = this._anchor = this._clampedCell(0);
+        this._mode = NotebookMode.Command;
+        changed = true;
+        break;
+    }
+    if (changed) {
+      this.changed.emit(void 0);
+    }
+  }
+
+  private _model: NotebookModel = null;
+  private _mode = NotebookMode.Command;
+  private _active: nbformat.Cell = null;
+  private _anchor: nbformat.Cell = null;
+}
@@ -78,7 +78,12 @@ function serializeBinary(msg: IKernelMsg): ArrayBuffer {
     // msg.buffers elements could be either views or ArrayBuffers
     // buffers elements are ArrayBuffers
     var b: any = msg.buffers[i];
-    buffers.push(b instanceof ArrayBuffer ? b : b.buffer);
+    if (b instanceof ArrayBuffer) {
+      buffers.push(b);
+    } else {
+      // only send the region of the underlying buffer covered by the view
+      buffers.push(b.buffer.slice(b.byteOffset, b.byteOffset + b.byteLength));
+    }
   }
   var nbufs = buffers.length;
   offsets.push(4 * (nbufs + 1));
@@ -3,6 +3,7 @@
 
 import utils = require('./utils')
 import kernel = require('./kernel')
+import kernelspecs = require('./kernelspecs')
 
 import ISignal = phosphor.core.ISignal;
 import signal = phosphor.core.signal;
@@ -47,7 +48,7 @@ interface ISessionId {
 export
 interface ISessionOptions {
   notebookPath: string;
-  kernelName: string;
+  kernelName?: string;
   baseUrl: string;
   wsUrl: string;
 };
@@ -99,6 +100,9 @@ class NotebookSession {
     this._baseUrl = options.baseUrl;
     this._wsUrl = options.wsUrl;
     this._kernel = new kernel.Kernel(this._baseUrl, this._wsUrl);
+    if (options.kernelName) {
+      this._kernel.name = options.kernelName;
+    }
     this._sessionUrl = utils.urlJoinEncode(this._baseUrl, SESSION_SERVICE_URL,
                                            this._id);
   }
@@ -110,6 +114,22 @@ class NotebookSession {
     return this._kernel;
   }
 
+  /**
+   * Get the base url of the notebook server.
+   */
+  get baseUrl(): string {
+    return this._baseUrl;
+  }
+
+  /**
+   * Get the spec of the session kernel, or `null` if it is not known.
+   *
+   * This is set when the kernel is changed with `changeKernel`.
+   */
+  get kernelSpec(): kernelspecs.IKernelSpecModel {
+    return this._kernelSpec;
+  }
+
   /**
    * POST /api/sessions
    *
@@ -170,7 +190,6 @@ class NotebookSession {
       if (success.xhr.status !== 204) {
         throw Error('Invalid response');
       }
-      validateSessionId(success.data);
     }, (rejected: IAjaxError) => {
         if (rejected.xhr.status === 410) {
           throw Error('The kernel was deleted but the session was not');
@@ -183,15 +202,38 @@ class NotebookSession {
    * Restart the session by deleting it and then starting it fresh.
    */
   restart(options?: ISessionOptions): Promise<void> {
+    if (options && options.notebookPath) {
+      this._notebookPath = options.notebookPath;
+    }
+    if (options && options.kernelName && options.kernelName !== this._kernel.name) {
+      return this.changeKernel(options.kernelName).then(() => {});
+    }
     return this.delete().then(() => this.start()).catch(
-        () => this.start()).then(() => {
-      if (options && options.notebookPath) {
-        this._notebookPath = options.notebookPath;
-      }
-      if (options && options.kernelName) {
-        this._kernel.name = options.kernelName;
+        () => this.start()).then(() => {});
+  }
+
+  /**
+   * Switch the session to another installed kernel.
+   *
+   * The name is checked against the kernelspec service, and the
+   * session is restarted with the new kernel. Rejects if no kernel
+   * with the name is installed.
+   */
+  changeKernel(name: string): Promise<ISessionId> {
+    return kernelspecs.getKernelSpecs(this._baseUrl).then((specs: kernelspecs.IKernelSpecList) => {
+      var spec = specs.kernelspecs[name];
+      if (!spec) {
+        throw Error('No such kernel: ' + name);
       }
-    })
+      return this.delete().catch((error: Error) => {
+        session_log.warn('Could not delete session: ' + error.message);
+      }).then(() => {
+        this._kernel.name = name;
+        this._kernelSpec = spec;
+        this._handleStatus('kernelChanged');
+        return this.start();
+      });
+    });
   }
 
   /**
@@ -240,6 +282,7 @@ class NotebookSession {
   private _sessionUrl = "unknown";
   private _wsUrl = "unknown";
   private _kernel: kernel.Kernel = null;
+  private _kernelSpec: kernelspecs.IKernelSpecModel = null;
 }
 
 
@@ -0,0 +1,318 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import nbformat = require('./nbformat');
+
+
+/**
+ * Get a logger for notebook trust.
+ */
+var trust_log = Logger.get('trust');
+
+
+/**
+ * The signature scheme, the prefix of `metadata.signature`.
+ */
+export
+var SIGNATURE_SCHEME = 'hmac-sha256';
+
+
+/**
+ * A store for the secret used to sign notebooks.
+ *
+ * A notebook is trusted when its signature was made with the secret,
+ * so the secret must never leave the local machine.
+ */
+export
+interface ISecretStore {
+  /**
+   * Get the secret, creating it if needed.
+   */
+  getSecret(): string;
+}
+
+
+/**
+ * A secret store keeping the secret in the browser local storage.
+ *
+ * If local storage is not available, the secret only lasts for the
+ * page, and no saved notebook will be trusted when opened again.
+ */
+export
+class LocalSecretStore implements ISecretStore {
+
+  /**
+   * Construct a new local secret store.
+   */
+  constructor(key = 'jupyter-notebook-secret') {
+    this._key = key;
+  }
+
+  /**
+   * Get the secret, creating it on first use.
+   */
+  getSecret(): string {
+    if (this._secret) {
+      return this._secret;
+    }
+    try {
+      this._secret = window.localStorage.getItem(this._key);
+    } catch (error) {
+      trust_log.warn('Local storage is not available: ' + error.message);
+    }
+    if (!this._secret) {
+      this._secret = randomHex(32);
+      try {
+        window.localStorage.setItem(this._key, this._secret);
+      } catch (error) {
+        trust_log.warn('Notebook secret could not be stored: ' + error.message);
+      }
+    }
+    return this._secret;
+  }
+
+  private _key: string;
+  private _secret: string = null;
+}
+
+
+/**
+ * Set the secret store used to sign and check notebooks.
+ */
+export
+function setSecretStore(store: ISecretStore): void {
+  secretStore = store;
+}
+
+
+/**
+ * Compute the signature of a notebook.
+ *
+ * This is an HMAC-SHA256 of the canonical notebook JSON, with the
+ * secret of the secret store as the key.
+ */
+export
+function computeSignature(nb: nbformat.Notebook): string {
+  var secret = secretStore.getSecret();
+  return SIGNATURE_SCHEME + ':' + toHex(hmacSHA256(utf8(secret), utf8(nbformat.canonicalJSON(nb))));
+}
+
+
+/**
+ * Test whether a notebook has a valid signature.
+ */
+export
+function checkSignature(nb: nbformat.Notebook): boolean {
+  var signature = nb.metadata.signature;
+  if (typeof signature !== 'string') {
+    return false;
+  }
+  if (signature.split(':')[0] !== SIGNATURE_SCHEME) {
+    trust_log.debug('Unknown signature scheme: ' + signature);
+    return false;
+  }
+  return constantTimeEqual(signature, computeSignature(nb));
+}
+
+
+/**
+ * Get a copy of a notebook to save, signed or with the signature removed.
+ *
+ * The cells are shared with the original notebook, only the metadata
+ * is copied.
+ */
+export
+function signNotebook(nb: nbformat.Notebook, trusted: boolean): nbformat.Notebook {
+  var metadata: any = {};
+  for (var key in nb.metadata) {
+    if (key !== 'signature') {
+      metadata[key] = (<any>nb.metadata)[key];
+    }
+  }
+  var signed: nbformat.Notebook = {
+    metadata: metadata,
+    nbformat: nb.nbformat,
+    nbformat_minor: nb.nbformat_minor,
+    cells: nb.cells
+  };
+  if (trusted) {
+    metadata.signature = computeSignature(signed);
+  }
+  return signed;
+}
+
+
+/**
+ * Compute the HMAC-SHA256 of a message.
+ */
+export
+function hmacSHA256(key: number[], message: number[]): number[] {
+  var blockSize = 64;
+  if (key.length > blockSize) {
+    key = sha256(key);
+  }
+  var inner: number[] = [];
+  var outer: number[] = [];
+  for (var i = 0; i < blockSize; i++) {
+    var b = key[i] || 0;
+    inner.push(b ^ 0x36);
+    outer.push(b ^ 0x5c);
+  }
+  return sha256(outer.concat(sha256(inner.concat(message))));
+}
+
+
+/**
+ * Compute the SHA-256 digest of a list of bytes.
+ */
+export
+function sha256(bytes: number[]): number[] {
+  var h = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+    0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ];
+  // pad to a multiple of 64 bytes, ending with the bit length
+  var data = bytes.concat([0x80]);
+  while (data.length % 64 !== 56) {
+    data.push(0);
+  }
+  var bits = bytes.length * 8;
+  var high = Math.floor(bits / 0x100000000);
+  data.push((high >>> 24) & 0xff, (high >>> 16) & 0xff, (high >>> 8) & 0xff, high & 0xff);
+  data.push((bits >>> 24) & 0xff, (bits >>> 16) & 0xff, (bits >>> 8) & 0xff, bits & 0xff);
+
+  var w = new Array<number>(64);
+  for (var offset = 0; offset < data.length; offset += 64) {
+    for (var i = 0; i < 16; i++) {
+      var j = offset + i * 4;
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+    for (var i = 16; i < 64; i++) {
+      var s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      var s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+    var a = h[0], b = h[1], c = h[2], d = h[3];
+    var e = h[4], f = h[5], g = h[6], k = h[7];
+    for (var i = 0; i < 64; i++) {
+      var t1 = (k + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) +
+                ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      var t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) +
+                ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      k = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    h[0] = (h[0] + a) | 0;
+    h[1] = (h[1] + b) | 0;
+    h[2] = (h[2] + c) | 0;
+    h[3] = (h[3] + d) | 0;
+    h[4] = (h[4] + e) | 0;
+    h[5] = (h[5] + f) | 0;
+    h[6] = (h[6] + g) | 0;
+    h[7] = (h[7] + k) | 0;
+  }
+  var digest: number[] = [];
+  for (var i = 0; i < 8; i++) {
+    digest.push((h[i] >>> 24) & 0xff, (h[i] >>> 16) & 0xff, (h[i] >>> 8) & 0xff, h[i] & 0xff);
+  }
+  return digest;
+}
+
+
+/**
+ * Encode a string as UTF-8 bytes.
+ */
+export
+function utf8(text: string): number[] {
+  var bytes: number[] = [];
+  for (var i = 0; i < text.length; i++) {
+    var c = text.charCodeAt(i);
+    if (c >= 0xd800 && c < 0xdc00 && i + 1 < text.length) {
+      // combine a surrogate pair into one code point
+      c = 0x10000 + ((c - 0xd800) << 10) + (text.charCodeAt(++i) - 0xdc00);
+    }
+    if (c < 0x80) {
+      bytes.push(c);
+    } else if (c < 0x800) {
+      bytes.push(0xc0 | (c >> 6), 0x80 | (c & 0x3f));
+    } else if (c < 0x10000) {
+      bytes.push(0xe0 | (c >> 12), 0x80 | ((c >> 6) & 0x3f), 0x80 | (c & 0x3f));
+    } else {
+      bytes.push(0xf0 | (c >> 18), 0x80 | ((c >> 12) & 0x3f),
+                 0x80 | ((c >> 6) & 0x3f), 0x80 | (c & 0x3f));
+    }
+  }
+  return bytes;
+}
+
+
+/**
+ * The SHA-256 round constants.
+ */
+var SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
+
+
+/**
+ * The secret store used to sign and check notebooks.
+ */
+var secretStore: ISecretStore = new LocalSecretStore();
+
+
+/**
+ * Rotate a 32 bit integer right.
+ */
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n));
+}
+
+
+/**
+ * Format bytes as a hex string.
+ */
+function toHex(bytes: number[]): string {
+  return bytes.map(b => (b < 16 ? '0' : '') + b.toString(16)).join('');
+}
+
+
+/**
+ * Create a random hex string from a number of random bytes.
+ */
+function randomHex(count: number): string {
+  var bytes = new Uint8Array(count);
+  window.crypto.getRandomValues(bytes);
+  var list: number[] = [];
+  for (var i = 0; i < bytes.length; i++) {
+    list.push(bytes[i]);
+  }
+  return toHex(list);
+}
+
+
+/**
+ * Compare strings in a time independent of where they differ.
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  var diff = 0;
+  for (var i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
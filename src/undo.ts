@@ -0,0 +1,392 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import notebookmodel = require('./notebookmodel');
+
+import ISignal = phosphor.core.ISignal;
+import signal = phosphor.core.signal;
+import ChangeType = notebookmodel.ChangeType;
+import INotebookChange = notebookmodel.INotebookChange;
+import NotebookModel = notebookmodel.NotebookModel;
+
+
+/**
+ * The default maximum number of undo steps.
+ */
+var DEFAULT_MAX_DEPTH = 100;
+
+
+/**
+ * Undo manager initialization options.
+ */
+export
+interface IUndoOptions {
+  /**
+   * The maximum number of steps kept in the undo history.
+   */
+  maxDepth?: number;
+}
+
+
+/**
+ * An undo history for the structural edits of a notebook model.
+ *
+ * Cell insertion, deletion, moves and replacements (including cell
+ * type changes) and output clears are recorded. Source changes are
+ * only recorded as part of a step with structural edits, such as a
+ * split or a merge; text editing within a cell is left to the editor.
+ * Changes made in response to the kernel, such as the outputs of an
+ * execution, are not recorded.
+ *
+ * Later text editing of a cell is added to the most recent step which
+ * changed the cell, so undoing the step starts from the edited source,
+ * and redoing it brings the edits back.
+ *
+ * Changes are grouped into atomic steps. All the changes made in a
+ * single turn of the event loop form one step, unless an explicit
+ * transaction is opened with `beginTransaction`.
+ */
+export
+class UndoManager {
+
+  /**
+   * A signal emitted when the undo or redo history changes.
+   */
+  @signal
+  historyChanged: ISignal<void>;
+
+  /**
+   * Construct a new undo manager for a notebook model.
+   */
+  constructor(model: NotebookModel, options?: IUndoOptions) {
+    this._model = model;
+    if (options && options.maxDepth !== void 0) {
+      this.maxDepth = options.maxDepth;
+    }
+    this._model.changed.connect(this._onModelChanged, this);
+  }
+
+  /**
+   * Get the maximum number of steps in the undo history.
+   */
+  get maxDepth(): number {
+    return this._maxDepth;
+  }
+
+  /**
+   * Set the maximum number of steps in the undo history.
+   *
+   * The oldest steps are dropped if the history is too long.
+   */
+  set maxDepth(value: number) {
+    this._maxDepth = Math.max(1, Math.floor(value));
+    if (this._undoStack.length > this._maxDepth) {
+      this._undoStack.splice(0, this._undoStack.length - this._maxDepth);
+      this.historyChanged.emit(void 0);
+    }
+  }
+
+  /**
+   * Test whether there is a step to undo.
+   */
+  get canUndo(): boolean {
+    return this._undoStack.length > 0 || this._hasOpenStep();
+  }
+
+  /**
+   * Test whether there is a step to redo.
+   */
+  get canRedo(): boolean {
+    return this._redoStack.length > 0;
+  }
+
+  /**
+   * Open a transaction, grouping all changes into one step until
+   * the matching call to `endTransaction`.
+   *
+   * Transactions may be nested, the step ends with the outermost.
+   */
+  beginTransaction(): void {
+    this._clearTimer();
+    this._depth++;
+  }
+
+  /**
+   * Close a transaction opened with `beginTransaction`.
+   */
+  endTransaction(): void {
+    if (this._depth === 0) {
+      throw Error('No open transaction');
+    }
+    this._depth--;
+    if (this._depth === 0) {
+      this._closeStep();
+    }
+  }
+
+  /**
+   * Run a function, grouping all of its changes into one step.
+   */
+  transact(fn: () => void): void {
+    this.beginTransaction();
+    try {
+      fn();
+    } finally {
+      this.endTransaction();
+    }
+  }
+
+  /**
+   * Undo the most recent step.
+   */
+  undo(): void {
+    if (this._depth > 0) {
+      throw Error('Cannot undo during a transaction');
+    }
+    this._closeStep();
+    var step = this._undoStack.pop();
+    if (!step) {
+      return;
+    }
+    this._apply(() => {
+      for (var i = step.length - 1; i >= 0; i--) {
+        revertChange(this._model, step[i]);
+      }
+    });
+    this._redoStack.push(step);
+    this.historyChanged.emit(void 0);
+  }
+
+  /**
+   * Redo the most recently undone step.
+   */
+  redo(): void {
+    if (this._depth > 0) {
+      throw Error('Cannot redo during a transaction');
+    }
+    this._closeStep();
+    var step = this._redoStack.pop();
+    if (!step) {
+      return;
+    }
+    this._apply(() => {
+      for (var i = 0; i < step.length; i++) {
+        applyChange(this._model, step[i]);
+      }
+    });
+    this._undoStack.push(step);
+    this.historyChanged.emit(void 0);
+  }
+
+  /**
+   * Clear the undo and redo history.
+   */
+  clear(): void {
+    this._clearTimer();
+    this._current = [];
+    this._undoStack = [];
+    this._redoStack = [];
+    this.historyChanged.emit(void 0);
+  }
+
+  /**
+   * Stop recording changes of the model.
+   */
+  dispose(): void {
+    this._clearTimer();
+    this._model.changed.disconnect(this._onModelChanged, this);
+    this._current = [];
+    this._undoStack = [];
+    this._redoStack = [];
+  }
+
+  /**
+   * Handle a change of the notebook model.
+   */
+  private _onModelChanged(sender: NotebookModel, change: INotebookChange): void {
+    if (change.type === ChangeType.NotebookReplaced) {
+      // the recorded changes no longer apply to the new document
+      this.clear();
+      return;
+    }
+    if (this._applying || !isRecorded(change)) {
+      return;
+    }
+    this._current.push(change);
+    if (this._depth === 0 && this._timer === -1) {
+      this._timer = setTimeout(() => {
+        this._timer = -1;
+        this._closeStep();
+      }, 0);
+    }
+  }
+
+  /**
+   * Test whether the open step holds a structural change.
+   */
+  private _hasOpenStep(): boolean {
+    for (var i = 0; i < this._current.length; i++) {
+      if (this._current[i].type !== ChangeType.SourceChanged) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Close the open step, pushing it on the undo stack.
+   *
+   * Steps made only of source changes are added to the steps which
+   * changed their cells, see `_addSourceChange`.
+   */
+  private _closeStep(): void {
+    this._clearTimer();
+    var hasStep = this._hasOpenStep();
+    var step = this._current;
+    this._current = [];
+    if (!hasStep) {
+      step.forEach(change => { this._addSourceChange(change); });
+      return;
+    }
+    this._undoStack.push(step);
+    if (this._undoStack.length > this._maxDepth) {
+      this._undoStack.shift();
+    }
+    this._redoStack = [];
+    this.historyChanged.emit(void 0);
+  }
+
+  /**
+   * Add a source change to the most recent step which changed its cell.
+   *
+   * The change is dropped if no step changed the cell. Consecutive
+   * changes of a cell are merged into one.
+   */
+  private _addSourceChange(change: INotebookChange): void {
+    for (var i = this._undoStack.length - 1; i >= 0; i--) {
+      var step = this._undoStack[i];
+      if (!step.some(other => other.cell === change.cell)) {
+        continue;
+      }
+      var last = step[step.length - 1];
+      if (last.type === ChangeType.SourceChanged && last.cell === change.cell) {
+        step[step.length - 1] = {
+          type: ChangeType.SourceChanged,
+          index: last.index,
+          cell: last.cell,
+          oldValue: last.oldValue,
+          newValue: change.newValue
+        };
+      } else {
+        step.push(change);
+      }
+      return;
+    }
+  }
+
+  /**
+   * Apply changes to the model without recording them.
+   */
+  private _apply(fn: () => void): void {
+    this._applying = true;
+    try {
+      fn();
+    } finally {
+      this._applying = false;
+    }
+  }
+
+  /**
+   * Cancel the timer closing an implicit step.
+   */
+  private _clearTimer(): void {
+    if (this._timer !== -1) {
+      clearTimeout(this._timer);
+      this._timer = -1;
+    }
+  }
+
+  private _model: NotebookModel = null;
+  private _maxDepth = DEFAULT_MAX_DEPTH;
+  private _depth = 0;
+  private _timer = -1;
+  private _applying = false;
+  private _current: INotebookChange[] = [];
+  private _undoStack: INotebookChange[][] = [];
+  private _redoStack: INotebookChange[][] = [];
+}
+
+
+/**
+ * Test whether a change is recorded in the undo history.
+ */
+function isRecorded(change: INotebookChange): boolean {
+  if (change.fromKernel) {
+    return false;
+  }
+  switch (change.type) {
+    case ChangeType.CellInserted:
+    case ChangeType.CellRemoved:
+    case ChangeType.CellMoved:
+    case ChangeType.CellReplaced:
+    case ChangeType.SourceChanged:
+    case ChangeType.OutputsChanged:
+      return true;
+  }
+  return false;
+}
+
+
+/**
+ * Apply a recorded change to the model again.
+ */
+function applyChange(model: NotebookModel, change: INotebookChange): void {
+  switch (change.type) {
+    case ChangeType.CellInserted:
+      model.insertCell(change.index, change.cell);
+      break;
+    case ChangeType.CellRemoved:
+      model.deleteCell(change.index);
+      break;
+    case ChangeType.CellMoved:
+      model.moveCell(change.index, change.newIndex);
+      break;
+    case ChangeType.CellReplaced:
+      model.setCell(change.index, change.newValue);
+      break;
+    case ChangeType.SourceChanged:
+      // the cell may have moved since an added text edit
+      model.setSource(model.indexOf(change.cell), change.newValue);
+      break;
+    case ChangeType.OutputsChanged:
+      model.setOutputs(change.index, change.newValue);
+      break;
+  }
+}
+
+
+/**
+ * Revert a recorded change of the model.
+ */
+function revertChange(model: NotebookModel, change: INotebookChange): void {
+  switch (change.type) {
+    case ChangeType.CellInserted:
+      model.deleteCell(change.index);
+      break;
+    case ChangeType.CellRemoved:
+      model.insertCell(change.index, change.cell);
+      break;
+    case ChangeType.CellMoved:
+      model.moveCell(change.newIndex, change.index);
+      break;
+    case ChangeType.CellReplaced:
+      model.setCell(change.index, change.oldValue);
+      break;
+    case ChangeType.SourceChanged:
+      model.setSource(model.indexOf(change.cell), change.oldValue);
+      break;
+    case ChangeType.OutputsChanged:
+      model.setOutputs(change.index, change.oldValue);
+      break;
+  }
+}
@@ -163,7 +163,8 @@ function ajaxRequest(url: string, settings: IAjaxSetttings): Promise<any> {
     }
     req.onload = () => {
       var response = req.response;
-      if (settings.dataType === 'json') {
+      // responses like 204 No Content have an empty body
+      if (settings.dataType === 'json' && req.response) {
         response = JSON.parse(req.response);
       }
       resolve({data: response, statusText: req.statusText, xhr: req});
@@ -178,3 +179,48 @@ function ajaxRequest(url: string, settings: IAjaxSetttings): Promise<any> {
     }
   });
 }
+
+
+/**
+ * Convert a JavaScript string index into a unicode character offset.
+ *
+ * The kernel messaging protocol counts cursor positions in unicode
+ * code points, while JavaScript strings are indexed by UTF-16 code
+ * units, so characters outside the BMP count twice in JavaScript.
+ */
+export
+function jsIndexToCharIndex(jsIdx: number, text: string): number {
+  var charIdx = jsIdx;
+  for (var i = 0; i + 1 < text.length && i < jsIdx; i++) {
+    var code = text.charCodeAt(i);
+    // check for the first half of a surrogate pair
+    if (code >= 0xD800 && code <= 0xDBFF) {
+      var next = text.charCodeAt(i + 1);
+      if (next >= 0xDC00 && next <= 0xDFFF) {
+        charIdx--;
+        i++;
+      }
+    }
+  }
+  return charIdx;
+}
+
+
+/**
+ * Convert a unicode character offset into a JavaScript string index.
+ */
+export
+function charIndexToJsIndex(charIdx: number, text: string): number {
+  var jsIdx = charIdx;
+  for (var i = 0; i + 1 < text.length && i < jsIdx; i++) {
+    var code = text.charCodeAt(i);
+    if (code >= 0xD800 && code <= 0xDBFF) {
+      var next = text.charCodeAt(i + 1);
+      if (next >= 0xDC00 && next <= 0xDFFF) {
+        jsIdx++;
+        i++;
+      }
+    }
+  }
+  return jsIdx;
+}
@@ -0,0 +1,909 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import comm = require('./comm');
+import kernel = require('./kernel');
+import mimerender = require('./mimerender');
+
+import ISignal = phosphor.core.ISignal;
+import signal = phosphor.core.signal;
+import IMessage = phosphor.core.IMessage;
+import IDisposable = phosphor.utility.IDisposable;
+import BaseComponent = phosphor.virtualdom.BaseComponent;
+import createFactory = phosphor.virtualdom.createFactory;
+import IKernelMsg = kernel.IKernelMsg;
+
+
+/**
+ * The comm target used by the kernel for widget models.
+ */
+export
+var WIDGET_TARGET_NAME = 'jupyter.widget';
+
+
+/**
+ * The mimetype of a display message referencing a widget model.
+ */
+export
+var WIDGET_VIEW_MIMETYPE = 'application/vnd.jupyter.widget-view+json';
+
+
+/**
+ * The prefix used by the kernel for references to other models.
+ */
+var MODEL_REF_PREFIX = 'IPY_MODEL_';
+
+
+/**
+ * Get a logger for widget objects.
+ */
+var widget_log = Logger.get('widgets');
+
+
+/**
+ * The state of a widget model.
+ */
+export
+interface IWidgetState {
+  [key: string]: any;
+}
+
+
+/**
+ * The data for a widget view display, as found under the
+ * `application/vnd.jupyter.widget-view+json` key of a mimebundle.
+ */
+export
+interface IWidgetViewData {
+  model_id: string;
+  version_major?: number;
+  version_minor?: number;
+}
+
+
+/**
+ * The arguments for the widget model `stateChanged` signal.
+ */
+export
+interface IWidgetStateChange {
+  /**
+   * The keys which changed.
+   */
+  keys: string[];
+
+  /**
+   * Whether the change came from the kernel.
+   */
+  fromKernel: boolean;
+}
+
+
+/**
+ * A rendered view of a widget model.
+ */
+export
+interface IWidgetView extends IDisposable {
+  /**
+   * The root node of the view.
+   */
+  node: HTMLElement;
+
+  /**
+   * Update the view from the current state of its model.
+   */
+  update(): void;
+}
+
+
+/**
+ * A factory which creates a view for a widget model.
+ */
+export
+interface IWidgetViewFactory {
+  (model: WidgetModel): IWidgetView;
+}
+
+
+/**
+ * The front-end copy of a widget model living in the kernel.
+ *
+ * State changes made with `set` are synced to the kernel, and
+ * updates from the kernel are applied to the local state. Each
+ * change emits the `stateChanged` signal.
+ */
+export
+class WidgetModel {
+
+  /**
+   * A signal emitted when the model state changes.
+   */
+  @signal
+  stateChanged: ISignal<IWidgetStateChange>;
+
+  /**
+   * A signal emitted when a custom message arrives from the kernel.
+   */
+  @signal
+  customMessage: ISignal<any>;
+
+  /**
+   * A signal emitted when the model is closed.
+   */
+  @signal
+  closed: ISignal<void>;
+
+  /**
+   * Construct a new widget model.
+   *
+   * This should not be called directly, the widget manager creates
+   * models when the kernel opens a widget comm.
+   */
+  constructor(manager: WidgetManager, widgetComm: comm.Comm, state: IWidgetState) {
+    this._manager = manager;
+    this._comm = widgetComm;
+    this._state = state || {};
+    this._comm.onMsg((msg: IKernelMsg) => { this._handleMsg(msg); });
+    this._comm.onClose((msg: IKernelMsg) => { this._handleClose(); });
+  }
+
+  /**
+   * Get the id of the model.
+   */
+  get modelId(): string {
+    return this._comm.commId;
+  }
+
+  /**
+   * Get the manager which owns the model.
+   */
+  get manager(): WidgetManager {
+    return this._manager;
+  }
+
+  /**
+   * Get the name of the view used to render the model.
+   */
+  get viewName(): string {
+    return this._state['_view_name'] || '';
+  }
+
+  /**
+   * Test whether the model has been closed.
+   */
+  get isClosed(): boolean {
+    return this._comm.isClosed;
+  }
+
+  /**
+   * Get the value of a state key.
+   */
+  get(key: string): any {
+    return this._state[key];
+  }
+
+  /**
+   * Set the value of a state key and sync it to the kernel.
+   */
+  set(key: string, value: any): void {
+    var state: IWidgetState = {};
+    state[key] = value;
+    this.update(state);
+  }
+
+  /**
+   * Set several state keys and sync them to the kernel as one message.
+   */
+  update(state: IWidgetState): void {
+    var keys = Object.keys(state);
+    if (keys.length === 0) {
+      return;
+    }
+    for (var i = 0; i < keys.length; i++) {
+      this._state[keys[i]] = state[keys[i]];
+    }
+    this.stateChanged.emit({ keys: keys, fromKernel: false });
+    if (this._comm.isClosed) {
+      return;
+    }
+    var split = removeBuffers(state);
+    this._comm.send({
+      method: 'update',
+      state: split.state,
+      buffer_paths: split.bufferPaths
+    }, {}, split.buffers);
+  }
+
+  /**
+   * Send a custom message to the kernel-side widget.
+   */
+  sendCustom(content: any, buffers?: comm.CommBuffer[]): void {
+    this._comm.send({ method: 'custom', content: content }, {}, buffers);
+  }
+
+  /**
+   * Ask the kernel for the full state of the model.
+   */
+  requestState(): void {
+    this._comm.send({ method: 'request_state' });
+  }
+
+  /**
+   * Resolve a state value holding a reference to another model.
+   *
+   * Returns `undefined` if the value is not a model reference or the
+   * model is unknown.
+   */
+  resolveRef(value: any): WidgetModel {
+    if (!isModelRef(value)) {
+      return void 0;
+    }
+    return this._manager.getModel(value.slice(MODEL_REF_PREFIX.length));
+  }
+
+  /**
+   * Close the model and the comm behind it.
+   */
+  close(): void {
+    this._comm.close();
+  }
+
+  /**
+   * Handle a comm message from the kernel.
+   */
+  private _handleMsg(msg: IKernelMsg): void {
+    var data = msg.content.data;
+    switch (data.method) {
+      case 'update':
+        var state = data.state || {};
+        putBuffers(state, data.buffer_paths || [], msg.buffers || []);
+        var keys = Object.keys(state);
+        for (var i = 0; i < keys.length; i++) {
+          this._state[keys[i]] = state[keys[i]];
+        }
+        this.stateChanged.emit({ keys: keys, fromKernel: true });
+        break;
+      case 'custom':
+        this.customMessage.emit(data.content);
+        break;
+      default:
+        widget_log.warn('Unknown widget message method: ' + data.method);
+        break;
+    }
+  }
+
+  /**
+   * Handle the closing of the comm.
+   */
+  private _handleClose(): void {
+    this._manager.unregisterModel(this);
+    this.closed.emit(void 0);
+  }
+
+  private _manager: WidgetManager = null;
+  private _comm: comm.Comm = null;
+  private _state: IWidgetState = null;
+}
+
+
+/**
+ * A manager for the widget models of a kernel.
+ *
+ * The manager holds the ephemeral widget state for a notebook, and
+ * can be swapped out without touching the notebook document.
+ */
+export
+class WidgetManager {
+
+  /**
+   * A signal emitted when a new model is created.
+   */
+  @signal
+  modelCreated: ISignal<WidgetModel>;
+
+  /**
+   * Construct a new widget manager.
+   */
+  constructor(comms: comm.CommManager) {
+    this._models = new Map<string, WidgetModel>();
+    this._target = comms.registerTarget(WIDGET_TARGET_NAME,
+      (widgetComm: comm.Comm, msg: IKernelMsg) => {
+        this._handleCommOpen(widgetComm, msg);
+      });
+  }
+
+  /**
+   * Get the model with the given id, or `undefined`.
+   */
+  getModel(modelId: string): WidgetModel {
+    return this._models.get(modelId);
+  }
+
+  /**
+   * Remove a closed model from the manager.
+   *
+   * This should only be called by a model.
+   */
+  unregisterModel(model: WidgetModel): void {
+    if (this._models.get(model.modelId) === model) {
+      this._models.delete(model.modelId);
+      modelRegistry.delete(model.modelId);
+    }
+  }
+
+  /**
+   * Dispose of the manager, discarding all of its models.
+   *
+   * The comms are not closed, so the kernel-side widgets are kept.
+   */
+  dispose(): void {
+    this._target.dispose();
+    this._models.forEach((model: WidgetModel, modelId: string) => {
+      modelRegistry.delete(modelId);
+    });
+    this._models.clear();
+  }
+
+  /**
+   * Handle a widget comm opened by the kernel.
+   */
+  private _handleCommOpen(widgetComm: comm.Comm, msg: IKernelMsg): void {
+    var data = msg.content.data || {};
+    var state = data.state || {};
+    putBuffers(state, data.buffer_paths || [], msg.buffers || []);
+    var model = new WidgetModel(this, widgetComm, state);
+    this._models.set(model.modelId, model);
+    modelRegistry.set(model.modelId, model);
+    this.modelCreated.emit(model);
+    notifyModelWaiters(model);
+  }
+
+  private _models: Map<string, WidgetModel> = null;
+  private _target: IDisposable = null;
+}
+
+
+/**
+ * Register a view factory for a widget `_view_name`.
+ *
+ * Returns a disposable which will unregister the factory.
+ */
+export
+function registerView(viewName: string, factory: IWidgetViewFactory): IDisposable {
+  viewRegistry.set(viewName, factory);
+  return new phosphor.utility.Disposable(() => {
+    if (viewRegistry.get(viewName) === factory) {
+      viewRegistry.delete(viewName);
+    }
+  });
+}
+
+
+/**
+ * Create a view for a widget model.
+ *
+ * Falls back on a placeholder view if no factory is registered
+ * for the view name of the model.
+ */
+export
+function createView(model: WidgetModel): IWidgetView {
+  var factory = viewRegistry.get(model.viewName);
+  if (!factory) {
+    return new PlaceholderView(model);
+  }
+  return factory(model);
+}
+
+
+/**
+ * Find a widget model in any active widget manager.
+ */
+export
+function findModel(modelId: string): WidgetModel {
+  return modelRegistry.get(modelId);
+}
+
+
+/**
+ * A component which renders a view of a widget model.
+ *
+ * The state lives in the model, so the view is rebuilt from it
+ * whenever the component is recreated by the virtual DOM.
+ */
+class WidgetViewComponent extends BaseComponent<IWidgetViewData> {
+
+  /**
+   * Dispose of the component and its view.
+   */
+  dispose(): void {
+    this._clearView();
+    this._cancelWait();
+    super.dispose();
+  }
+
+  /**
+   * Create the view for the current model if necessary.
+   */
+  protected onUpdateRequest(msg: IMessage): void {
+    var modelId = this.data.model_id;
+    if (this._view && this._view.model.modelId === modelId) {
+      return;
+    }
+    this._clearView();
+    this._cancelWait();
+    var model = findModel(modelId);
+    if (!model) {
+      // the display message may arrive before the comm is opened
+      this.node.textContent = 'Loading widget...';
+      this._waiter = () => { this.update(); };
+      this._waitingFor = modelId;
+      addModelWaiter(modelId, this._waiter);
+      return;
+    }
+    this.node.textContent = '';
+    this._view = new BoundView(model, createView(model));
+    this.node.appendChild(this._view.view.node);
+  }
+
+  /**
+   * Dispose of the current view, if any.
+   */
+  private _clearView(): void {
+    if (this._view) {
+      this._view.dispose();
+      this._view = null;
+    }
+  }
+
+  /**
+   * Stop waiting for a model to be created.
+   */
+  private _cancelWait(): void {
+    if (this._waiter) {
+      // the model id of the data may have changed since
+      removeModelWaiter(this._waitingFor, this._waiter);
+      this._waiter = null;
+      this._waitingFor = null;
+    }
+  }
+
+  private _view: BoundView = null;
+  private _waiter: () => void = null;
+  private _waitingFor: string = null;
+}
+export var WidgetView = createFactory(WidgetViewComponent);
+
+
+/**
+ * A view connected to the state changes of its model.
+ */
+class BoundView implements IDisposable {
+  /**
+   * Construct a new bound view.
+   */
+  constructor(model: WidgetModel, view: IWidgetView) {
+    this.model = model;
+    this.view = view;
+    model.stateChanged.connect(this._onStateChanged, this);
+    model.closed.connect(this._onClosed, this);
+    view.update();
+  }
+
+  /**
+   * Test whether the bound view is disposed.
+   */
+  get isDisposed(): boolean {
+    return this.view === null;
+  }
+
+  /**
+   * Disconnect from the model and dispose of the view.
+   */
+  dispose(): void {
+    if (this.view === null) {
+      return;
+    }
+    this.model.stateChanged.disconnect(this._onStateChanged, this);
+    this.model.closed.disconnect(this._onClosed, this);
+    var node = this.view.node;
+    if (node.parentNode) {
+      node.parentNode.removeChild(node);
+    }
+    this.view.dispose();
+    this.view = null;
+  }
+
+  /**
+   * Handle a state change of the model.
+   */
+  private _onStateChanged(sender: WidgetModel, change: IWidgetStateChange): void {
+    this.view.update();
+  }
+
+  /**
+   * Handle the closing of the model.
+   */
+  private _onClosed(sender: WidgetModel, value: void): void {
+    this.dispose();
+  }
+
+  model: WidgetModel;
+  view: IWidgetView;
+}
+
+
+/**
+ * A base class for the built-in widget views.
+ */
+class BaseWidgetView implements IWidgetView {
+  /**
+   * Construct a new view.
+   */
+  constructor(model: WidgetModel, tagName = 'div') {
+    this.model = model;
+    this.node = document.createElement(tagName);
+    this.node.classList.add('ipy-widget');
+  }
+
+  /**
+   * Test whether the view is disposed.
+   */
+  get isDisposed(): boolean {
+    return this.model === null;
+  }
+
+  /**
+   * Update the view from the model state.
+   */
+  update(): void {
+    var description = this.model.get('description');
+    this.node.title = this.model.get('tooltip') || description || '';
+    this.node.style.display = this.model.get('visible') === false ? 'none' : '';
+  }
+
+  /**
+   * Dispose of the view.
+   */
+  dispose(): void {
+    this.model = null;
+  }
+
+  model: WidgetModel;
+  node: HTMLElement;
+}
+
+
+/**
+ * A view shown for models with no registered view.
+ */
+class PlaceholderView extends BaseWidgetView {
+  update(): void {
+    super.update();
+    this.node.textContent = 'Widget: ' + (this.model.viewName || 'unknown');
+  }
+}
+
+
+/**
+ * A view for an HTML or label widget.
+ */
+class HTMLView extends BaseWidgetView {
+  constructor(model: WidgetModel, isHTML: boolean) {
+    super(model);
+    this._isHTML = isHTML;
+  }
+
+  update(): void {
+    super.update();
+    var value = String(this.model.get('value') || '');
+    if (this._isHTML) {
+      this.node.innerHTML = value;
+    } else {
+      this.node.textContent = value;
+    }
+  }
+
+  private _isHTML = false;
+}
+
+
+/**
+ * A view for widgets backed by an `<input>` element.
+ */
+class InputView extends BaseWidgetView {
+  constructor(model: WidgetModel, type: string, numeric: boolean) {
+    super(model);
+    this._numeric = numeric;
+    this._label = document.createElement('label');
+    this._input = document.createElement('input');
+    this._input.type = type;
+    this.node.appendChild(this._label);
+    this.node.appendChild(this._input);
+    var event = (type === 'range' || type === 'checkbox') ? 'change' : 'input';
+    this._input.addEventListener(event, this._onInput);
+  }
+
+  update(): void {
+    super.update();
+    var model = this.model;
+    this._label.textContent = model.get('description') || '';
+    this._input.disabled = !!model.get('disabled');
+    var min = model.get('min');
+    var max = model.get('max');
+    var step = model.get('step');
+    if (min !== void 0) this._input.min = String(min);
+    if (max !== void 0) this._input.max = String(max);
+    if (step !== void 0) this._input.step = String(step);
+    var value = model.get('value');
+    if (this._input.type === 'checkbox') {
+      this._input.checked = !!value;
+    } else if (document.activeElement !== this._input) {
+      // don't fight with the user while they are typing
+      this._input.value = value === void 0 || value === null ? '' : String(value);
+    }
+  }
+
+  dispose(): void {
+    this._input.removeEventListener('input', this._onInput);
+    this._input.removeEventListener('change', this._onInput);
+    super.dispose();
+  }
+
+  /**
+   * Sync a user edit back to the model.
+   */
+  private _onInput = (event: Event) => {
+    var value: any;
+    if (this._input.type === 'checkbox') {
+      value = this._input.checked;
+    } else if (this._numeric) {
+      value = Number(this._input.value);
+      if (isNaN(value)) {
+        return;
+      }
+    } else {
+      value = this._input.value;
+    }
+    this.model.set('value', value);
+  };
+
+  private _numeric = false;
+  private _label: HTMLElement = null;
+  private _input: HTMLInputElement = null;
+}
+
+
+/**
+ * A view for a button widget.
+ */
+class ButtonView extends BaseWidgetView {
+  constructor(model: WidgetModel) {
+    super(model, 'button');
+    this.node.addEventListener('click', this._onClick);
+  }
+
+  update(): void {
+    super.update();
+    this.node.textContent = this.model.get('description') || '';
+    (<HTMLButtonElement>this.node).disabled = !!this.model.get('disabled');
+  }
+
+  dispose(): void {
+    this.node.removeEventListener('click', this._onClick);
+    super.dispose();
+  }
+
+  /**
+   * Notify the kernel of a click.
+   */
+  private _onClick = (event: MouseEvent) => {
+    this.model.sendCustom({ event: 'click' });
+  };
+}
+
+
+/**
+ * A view for a box widget holding the views of its children.
+ */
+class BoxView extends BaseWidgetView {
+  constructor(model: WidgetModel, direction: string) {
+    super(model);
+    this.node.style.display = 'flex';
+    this.node.style.flexDirection = direction;
+  }
+
+  update(): void {
+    super.update();
+    var refs: any[] = this.model.get('children') || [];
+    if (refs.join(',') === this._refs.join(',')) {
+      return;
+    }
+    this._clearChildren();
+    this._refs = refs.slice();
+    for (var i = 0; i < refs.length; i++) {
+      var child = this.model.resolveRef(refs[i]);
+      if (!child && isModelRef(refs[i])) {
+        // the comm of the child may not be opened yet
+        var modelId = (<string>refs[i]).slice(MODEL_REF_PREFIX.length);
+        addModelWaiter(modelId, this._waiter);
+        this._waitingFor.push(modelId);
+        continue;
+      }
+      if (!child) {
+        widget_log.warn('Unknown child model: ' + refs[i]);
+        continue;
+      }
+      var bound = new BoundView(child, createView(child));
+      this._children.push(bound);
+      this.node.appendChild(bound.view.node);
+    }
+  }
+
+  dispose(): void {
+    this._clearChildren();
+    super.dispose();
+  }
+
+  /**
+   * Dispose of the child views and stop waiting for child models.
+   */
+  private _clearChildren(): void {
+    for (var i = 0; i < this._children.length; i++) {
+      this._children[i].dispose();
+    }
+    this._children = [];
+    for (var i = 0; i < this._waitingFor.length; i++) {
+      removeModelWaiter(this._waitingFor[i], this._waiter);
+    }
+    this._waitingFor = [];
+  }
+
+  /**
+   * Rebuild the child views once a child model is created.
+   */
+  private _waiter = () => {
+    this._refs = [];
+    this.update();
+  };
+
+  private _refs: any[] = [];
+  private _children: BoundView[] = [];
+  private _waitingFor: string[] = [];
+}
+
+
+/**
+ * Put binary buffers into a state object at the given key paths.
+ */
+function putBuffers(state: IWidgetState, paths: (string | number)[][], buffers: comm.CommBuffer[]): void {
+  for (var i = 0; i < paths.length && i < buffers.length; i++) {
+    var path = paths[i];
+    var obj: any = state;
+    for (var j = 0; j < path.length - 1; j++) {
+      obj = obj[path[j]];
+    }
+    obj[path[path.length - 1]] = buffers[i];
+  }
+}
+
+
+/**
+ * Split the binary buffers out of a state object.
+ *
+ * Returns a copy of the state with the buffers removed, along with
+ * the buffers and their key paths.
+ */
+function removeBuffers(state: IWidgetState): { state: IWidgetState; buffers: comm.CommBuffer[]; bufferPaths: (string | number)[][] } {
+  var buffers: comm.CommBuffer[] = [];
+  var bufferPaths: (string | number)[][] = [];
+  var walk = (obj: any, path: (string | number)[]): any => {
+    if (obj instanceof ArrayBuffer || ArrayBuffer.isView(obj)) {
+      buffers.push(obj);
+      bufferPaths.push(path);
+      return null;
+    }
+    if (Array.isArray(obj)) {
+      return obj.map((value: any, index: number) => walk(value, path.concat([index])));
+    }
+    if (obj && typeof obj === 'object') {
+      var result: any = {};
+      for (var key in obj) {
+        if (obj.hasOwnProperty(key)) {
+          result[key] = walk(obj[key], path.concat([key]));
+        }
+      }
+      return result;
+    }
+    return obj;
+  };
+  return { state: walk(state, []), buffers: buffers, bufferPaths: bufferPaths };
+}
+
+
+/**
+ * Test whether a state value is a reference to a model.
+ */
+function isModelRef(value: any): boolean {
+  return typeof value === 'string' && value.indexOf(MODEL_REF_PREFIX) === 0;
+}
+
+
+/**
+ * Add a callback to run when a model is created.
+ */
+function addModelWaiter(modelId: string, cb: () => void): void {
+  var waiters = modelWaiters.get(modelId);
+  if (!waiters) {
+    waiters = [];
+    modelWaiters.set(modelId, waiters);
+  }
+  waiters.push(cb);
+}
+
+
+/**
+ * Remove a callback waiting for a model.
+ */
+function removeModelWaiter(modelId: string, cb: () => void): void {
+  var waiters = modelWaiters.get(modelId);
+  if (!waiters) {
+    return;
+  }
+  var i = waiters.indexOf(cb);
+  if (i !== -1) {
+    waiters.splice(i, 1);
+  }
+  if (waiters.length === 0) {
+    modelWaiters.delete(modelId);
+  }
+}
+
+
+/**
+ * Run and clear the callbacks waiting for a model.
+ */
+function notifyModelWaiters(model: WidgetModel): void {
+  var waiters = modelWaiters.get(model.modelId);
+  if (!waiters) {
+    return;
+  }
+  modelWaiters.delete(model.modelId);
+  for (var i = 0; i < waiters.length; i++) {
+    waiters[i]();
+  }
+}
+
+
+/**
+ * The models of all active widget managers, by model id.
+ */
+var modelRegistry = new Map<string, WidgetModel>();
+
+
+/**
+ * The callbacks waiting for a model to be created, by model id.
+ */
+var modelWaiters = new Map<string, (() => void)[]>();
+
+
+/**
+ * The registered view factories, by view name.
+ */
+var viewRegistry = new Map<string, IWidgetViewFactory>();
+
+
+registerView('HTMLView', (model: WidgetModel) => new HTMLView(model, true));
+registerView('LabelView', (model: WidgetModel) => new HTMLView(model, false));
+registerView('IntSliderView', (model: WidgetModel) => new InputView(model, 'range', true));
+registerView('FloatSliderView', (model: WidgetModel) => new InputView(model, 'range', true));
+registerView('IntTextView', (model: WidgetModel) => new InputView(model, 'number', true));
+registerView('FloatTextView', (model: WidgetModel) => new InputView(model, 'number', true));
+registerView('TextView', (model: WidgetModel) => new InputView(model, 'text', false));
+registerView('CheckboxView', (model: WidgetModel) => new InputView(model, 'checkbox', false));
+registerView('ButtonView', (model: WidgetModel) => new ButtonView(model));
+registerView('BoxView', (model: WidgetModel) => new BoxView(model, 'column'));
+registerView('VBoxView', (model: WidgetModel) => new BoxView(model, 'column'));
+registerView('HBoxView', (model: WidgetModel) => new BoxView(model, 'row'));
+
+
+// widget views are created by the live kernel, so they are always safe
+mimerender.registerRenderer(WIDGET_VIEW_MIMETYPE, (data: mimerender.IRenderData) => WidgetView(data.data), { rank: 110, safe: true });
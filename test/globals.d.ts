@@ -0,0 +1,10 @@
+// Declarations of the browser globals replaced by the fake server.
+
+/**
+ * The networking classes of the window, which an installed fake
+ * server replaces.
+ */
+interface Window {
+  XMLHttpRequest: Function;
+  WebSocket: Function;
+}
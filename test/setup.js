@@ -0,0 +1,30 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+"use strict";
+
+/**
+ * Provide the browser globals the notebook sources expect, so the
+ * compiled modules can be tested in node.
+ *
+ * Networking is replaced by the fake server in each test.
+ */
+var fs = require('fs');
+var path = require('path');
+var vm = require('vm');
+
+global.window = global;
+
+global.Logger = require('js-logger');
+Logger.setLevel(Logger.OFF);
+
+global.marked = require('marked');
+
+// an inert DOM for the modules which parse or build HTML
+var jsdom = require('jsdom');
+var dom = new jsdom.JSDOM('');
+global.document = dom.window.document;
+global.Node = dom.window.Node;
+
+// phosphor is a browser global, loaded like the script tag of index.html
+var phosphorPath = path.join(__dirname, '..', 'components', 'phosphor', 'dist', 'phosphor.js');
+vm.runInThisContext(fs.readFileSync(phosphorPath, 'utf8'), { filename: phosphorPath });
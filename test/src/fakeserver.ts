@@ -0,0 +1,1016 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import contents = require('../../src/contents');
+import kernel = require('../../src/kernel');
+import kernelspecs = require('../../src/kernelspecs');
+import serialize = require('../../src/serialize');
+import utils = require('../../src/utils');
+
+import IDisposable = phosphor.utility.IDisposable;
+import IContentsModel = contents.IContentsModel;
+import IKernelMsg = kernel.IKernelMsg;
+import IKernelMsgHeader = kernel.IKernelMsgHeader;
+
+
+/**
+ * Get a logger for the fake server.
+ */
+var fake_log = Logger.get('fakeserver');
+
+
+/**
+ * A function which answers a message sent to a fake kernel.
+ *
+ * The responder sends any status, output and reply messages it wants
+ * through the kernel, now or later.
+ */
+export
+interface IResponder {
+  (msg: IKernelMsg, kernel: FakeKernel): void;
+}
+
+
+/**
+ * A request made to the fake REST api.
+ */
+export
+interface IFakeRequest {
+  method: string;
+  url: string;
+  body: any;
+}
+
+
+/**
+ * A response from the fake REST api.
+ */
+export
+interface IFakeResponse {
+  status: number;
+  body?: any;
+}
+
+
+/**
+ * A function which answers a REST request, overriding the fake api.
+ */
+export
+interface IRequestHandler {
+  (request: IFakeRequest, match: RegExpExecArray): IFakeResponse;
+}
+
+
+/**
+ * An in-process kernel, speaking the kernel protocol over fake
+ * websockets.
+ *
+ * Each message type is answered by a responder. The defaults answer
+ * like an idle kernel which produces no output, and are replaced with
+ * `respond` to script the behavior of a test.
+ */
+export
+class FakeKernel {
+
+  /**
+   * Construct a new fake kernel.
+   */
+  constructor(server: FakeServer, id: string, name: string) {
+    this._server = server;
+    this._id = id;
+    this._name = name;
+    this._session = utils.uuid();
+    this._responders = new Map<string, IResponder>();
+    for (var msgType in DEFAULT_RESPONDERS) {
+      this._responders.set(msgType, DEFAULT_RESPONDERS[msgType]);
+    }
+  }
+
+  /**
+   * Get the id of the kernel.
+   */
+  get id(): string {
+    return this._id;
+  }
+
+  /**
+   * Get the name of the kernel.
+   */
+  get name(): string {
+    return this._name;
+  }
+
+  /**
+   * Get the messages received from clients, oldest first.
+   */
+  get received(): IKernelMsg[] {
+    return this._received;
+  }
+
+  /**
+   * Get the number of open connections to the kernel.
+   */
+  get connectionCount(): number {
+    return this._sockets.filter(ws => ws.readyState === FakeWebSocket.OPEN).length;
+  }
+
+  /**
+   * Get the execution count of the kernel.
+   */
+  get executionCount(): number {
+    return this._executionCount;
+  }
+
+  /**
+   * Test whether the kernel is dead.
+   */
+  get isDead(): boolean {
+    return this._dead;
+  }
+
+  /**
+   * Get whether new connections to the kernel are refused.
+   */
+  get refuseConnections(): boolean {
+    return this._refuse;
+  }
+
+  /**
+   * Set whether new connections to the kernel are refused, like when
+   * the network is down.
+   */
+  set refuseConnections(value: boolean) {
+    this._refuse = value;
+  }
+
+  /**
+   * Set the responder for a message type.
+   *
+   * Disposing the returned object restores the previous responder.
+   */
+  respond(msgType: string, responder: IResponder): IDisposable {
+    var old = this._responders.get(msgType);
+    this._responders.set(msgType, responder);
+    return new phosphor.utility.Disposable(() => {
+      if (this._responders.get(msgType) === responder) {
+        if (old) {
+          this._responders.set(msgType, old);
+        } else {
+          this._responders.delete(msgType);
+        }
+      }
+    });
+  }
+
+  /**
+   * Count an execution, returning the new execution count.
+   */
+  nextExecutionCount(): number {
+    return ++this._executionCount;
+  }
+
+  /**
+   * Send a status message on the iopub channel.
+   */
+  sendStatus(state: string, parent?: IKernelMsg): void {
+    this.sendIopub(parent, 'status', { execution_state: state });
+  }
+
+  /**
+   * Send a message on the iopub channel, to all connections.
+   */
+  sendIopub(parent: IKernelMsg, msgType: string, content: any, buffers?: (ArrayBuffer | ArrayBufferView)[]): void {
+    this._send(this.createMsg('iopub', msgType, content, parent, buffers), null);
+  }
+
+  /**
+   * Send the shell reply to a request, to the connection it came from.
+   *
+   * The reply type is derived from the request type.
+   */
+  reply(parent: IKernelMsg, content: any, buffers?: (ArrayBuffer | ArrayBufferView)[]): void {
+    var msgType = parent.header.msgType.replace(/_request$/, '_reply');
+    this._send(this.createMsg('shell', msgType, content, parent, buffers), parent);
+  }
+
+  /**
+   * Send a message on the stdin channel, like an `input_request`.
+   */
+  sendStdin(parent: IKernelMsg, msgType: string, content: any): void {
+    this._send(this.createMsg('stdin', msgType, content, parent), parent);
+  }
+
+  /**
+   * Send a prepared message, with full control of its contents.
+   */
+  sendMessage(msg: IKernelMsg): void {
+    this._send(msg, null);
+  }
+
+  /**
+   * Create a message from the kernel.
+   */
+  createMsg(channel: string, msgType: string, content: any, parent?: IKernelMsg, buffers?: (ArrayBuffer | ArrayBufferView)[]): IKernelMsg {
+    var header: IKernelMsgHeader = {
+      msgId: utils.uuid(),
+      username: 'kernel',
+      session: this._session,
+      msgType: msgType,
+      version: '5.0'
+    };
+    return {
+      header: header,
+      parentHeader: parent ? parent.header : {},
+      metadata: {},
+      content: content,
+      channel: channel,
+      msgId: header.msgId,
+      msgType: msgType,
+      buffers: buffers || []
+    };
+  }
+
+  /**
+   * Close all the connections to the kernel.
+   *
+   * An unclean close looks like a network failure to the clients.
+   */
+  disconnect(clean = false): void {
+    var sockets = this._sockets.slice();
+    for (var i = 0; i < sockets.length; i++) {
+      sockets[i].serverClose(clean);
+    }
+  }
+
+  /**
+   * Restart the kernel, like the REST api does.
+   */
+  restart(): void {
+    this._executionCount = 0;
+    this.sendStatus('starting');
+    this._server.later(() => { this.sendStatus('idle'); });
+  }
+
+  /**
+   * Interrupt the kernel, like the REST api does.
+   *
+   * Responders waiting for an interrupt are called with an
+   * `interrupt` message.
+   */
+  interrupt(): void {
+    var responder = this._responders.get('interrupt');
+    if (responder) {
+      responder(this.createMsg('control', 'interrupt', {}), this);
+    }
+  }
+
+  /**
+   * Kill the kernel, telling its clients it is dead.
+   */
+  die(): void {
+    if (this._dead) {
+      return;
+    }
+    this._dead = true;
+    this.sendStatus('dead');
+    this._server.later(() => { this.disconnect(true); });
+  }
+
+  /**
+   * Add a client connection, which may be refused.
+   */
+  addSocket(ws: FakeWebSocket): boolean {
+    if (this._refuse || this._dead) {
+      return false;
+    }
+    this._sockets.push(ws);
+    return true;
+  }
+
+  /**
+   * Remove a closed client connection.
+   */
+  removeSocket(ws: FakeWebSocket): void {
+    var index = this._sockets.indexOf(ws);
+    if (index !== -1) {
+      this._sockets.splice(index, 1);
+    }
+  }
+
+  /**
+   * Handle a message sent by a client.
+   */
+  handleMessage(msg: IKernelMsg, ws: FakeWebSocket): void {
+    this._received.push(msg);
+    this._origins.set(msg.header.msgId, ws);
+    var responder = this._responders.get(msg.header.msgType);
+    if (!responder) {
+      fake_log.debug('No responder for message: ' + msg.header.msgType);
+      return;
+    }
+    try {
+      responder(msg, this);
+    } catch (error) {
+      fake_log.error('Responder failed for ' + msg.header.msgType + ': ' + error.message);
+    }
+  }
+
+  /**
+   * Deliver a message to the connection of its parent, or to all
+   * connections if `parent` is `null`.
+   */
+  private _send(msg: IKernelMsg, parent: IKernelMsg): void {
+    var data = serialize.serialize(msg);
+    var origin = parent ? this._origins.get(parent.header.msgId) : null;
+    var sockets = origin ? [origin] : this._sockets.slice();
+    for (var i = 0; i < sockets.length; i++) {
+      sockets[i].serverSend(data);
+    }
+  }
+
+  private _server: FakeServer;
+  private _id: string;
+  private _name: string;
+  private _session: string;
+  private _responders: Map<string, IResponder>;
+  private _origins = new Map<string, FakeWebSocket>();
+  private _sockets: FakeWebSocket[] = [];
+  private _received: IKernelMsg[] = [];
+  private _executionCount = 0;
+  private _refuse = false;
+  private _dead = false;
+}
+
+
+/**
+ * An in-process notebook server, for using the kernel and session
+ * objects without a live Jupyter server.
+ *
+ * When installed, the server replaces the browser `XMLHttpRequest`
+ * and `WebSocket` with fakes answering the `/api/kernels`,
+ * `/api/sessions`, `/api/kernelspecs` and `/api/contents` requests
+ * and the kernel websocket protocol. Responses are delivered asynchronously after
+ * `latency` milliseconds, like real network traffic.
+ */
+export
+class FakeServer {
+
+  /**
+   * The delay in milliseconds before delivering any response.
+   */
+  latency = 0;
+
+  /**
+   * Whether the server is unreachable. Requests fail with a network
+   * error, and new websocket connections are refused.
+   */
+  offline = false;
+
+  /**
+   * The installed kernels.
+   */
+  kernelspecs: kernelspecs.IKernelSpecList = {
+    default: 'python3',
+    kernelspecs: {
+      python3: {
+        name: 'python3',
+        spec: { argv: ['python3'], display_name: 'Python 3', language: 'python' },
+        resources: {}
+      }
+    }
+  };
+
+  /**
+   * Get the requests made to the REST api, oldest first.
+   */
+  get requests(): IFakeRequest[] {
+    return this._requests;
+  }
+
+  /**
+   * Replace the browser networking with this server.
+   */
+  install(): void {
+    if (activeServer) {
+      throw Error('A fake server is already installed');
+    }
+    activeServer = this;
+    savedGlobals = {
+      XMLHttpRequest: window.XMLHttpRequest,
+      WebSocket: window.WebSocket
+    };
+    window.XMLHttpRequest = FakeXMLHttpRequest;
+    window.WebSocket = FakeWebSocket;
+  }
+
+  /**
+   * Restore the browser networking.
+   */
+  uninstall(): void {
+    if (activeServer !== this) {
+      return;
+    }
+    window.XMLHttpRequest = savedGlobals.XMLHttpRequest;
+    window.WebSocket = savedGlobals.WebSocket;
+    activeServer = null;
+    savedGlobals = null;
+  }
+
+  /**
+   * Start a kernel, like a POST to `/api/kernels`.
+   */
+  startKernel(name?: string): FakeKernel {
+    name = name || this.kernelspecs.default;
+    if (!this.kernelspecs.kernelspecs.hasOwnProperty(name)) {
+      throw Error('No such kernel: ' + name);
+    }
+    var k = new FakeKernel(this, utils.uuid(), name);
+    this._kernels.set(k.id, k);
+    return k;
+  }
+
+  /**
+   * Get a running kernel by id, or `undefined`.
+   */
+  getKernel(id: string): FakeKernel {
+    return this._kernels.get(id);
+  }
+
+  /**
+   * Get the running kernels.
+   */
+  listKernels(): FakeKernel[] {
+    var list: FakeKernel[] = [];
+    this._kernels.forEach((k: FakeKernel) => { list.push(k); });
+    return list;
+  }
+
+  /**
+   * Get the model of a file, with its content, or `undefined`.
+   */
+  getFile(path: string): IContentsModel {
+    return this._files.get(path);
+  }
+
+  /**
+   * Write a file, like a PUT to `/api/contents` by another client.
+   *
+   * Each write gets a new `last_modified` time.
+   */
+  writeFile(path: string, type: string, content: any): IContentsModel {
+    var model: IContentsModel = {
+      name: path.split('/').pop(),
+      path: path,
+      type: type,
+      writable: true,
+      last_modified: new Date(Date.UTC(2015, 0, 1) + 1000 * ++this._clock).toISOString(),
+      content: JSON.parse(JSON.stringify(content))
+    };
+    this._files.set(path, model);
+    return model;
+  }
+
+  /**
+   * Override the response to REST requests matching a method and a
+   * path pattern, like an error status for a failure test.
+   *
+   * Disposing the returned object removes the override.
+   */
+  override(method: string, pattern: RegExp, handler: IRequestHandler): IDisposable {
+    var route: IRoute = { method: method, pattern: pattern, handler: handler };
+    this._overrides.unshift(route);
+    return new phosphor.utility.Disposable(() => {
+      var index = this._overrides.indexOf(route);
+      if (index !== -1) {
+        this._overrides.splice(index, 1);
+      }
+    });
+  }
+
+  /**
+   * Run a function after the server latency.
+   */
+  later(fn: () => void): void {
+    setTimeout(fn, this.latency);
+  }
+
+  /**
+   * Answer a REST request.
+   */
+  handleRequest(request: IFakeRequest): IFakeResponse {
+    this._requests.push(request);
+    var path = request.url.replace(/^[a-z]+:\/\/[^\/]*/i, '').split('?')[0];
+    var routes = this._overrides.concat(this._routes);
+    for (var i = 0; i < routes.length; i++) {
+      if (routes[i].method !== request.method) {
+        continue;
+      }
+      var match = routes[i].pattern.exec(path);
+      if (match) {
+        return routes[i].handler(request, match);
+      }
+    }
+    return { status: 404, body: { message: 'Not found: ' + path } };
+  }
+
+  /**
+   * Connect a fake websocket to the kernel in its url.
+   */
+  connectSocket(ws: FakeWebSocket): FakeKernel {
+    if (this.offline) {
+      return null;
+    }
+    var match = /\/api\/kernels\/([^\/?]+)\/channels/.exec(ws.url);
+    var k = match ? this._kernels.get(decodeURIComponent(match[1])) : null;
+    if (!k || !k.addSocket(ws)) {
+      return null;
+    }
+    return k;
+  }
+
+  /**
+   * Get the REST model of a kernel.
+   */
+  private _kernelModel(k: FakeKernel): kernel.IKernelId {
+    return { id: k.id, name: k.name };
+  }
+
+  /**
+   * Get the REST model of a session.
+   */
+  private _sessionModel(session: IFakeSession): any {
+    var k = this._kernels.get(session.kernelId);
+    return {
+      id: session.id,
+      notebook: { path: session.path },
+      kernel: this._kernelModel(k)
+    };
+  }
+
+  /**
+   * Get the REST model of a file, without its content unless asked.
+   */
+  private _fileModel(file: IContentsModel, withContent: boolean): IContentsModel {
+    var model: IContentsModel = JSON.parse(JSON.stringify(file));
+    model.content = withContent ? model.content : null;
+    return model;
+  }
+
+  /**
+   * Remove a kernel, closing its connections.
+   */
+  private _deleteKernel(id: string): void {
+    var k = this._kernels.get(id);
+    if (k) {
+      this._kernels.delete(id);
+      k.disconnect(true);
+    }
+  }
+
+  /**
+   * The handlers of the fake REST api.
+   */
+  private _routes: IRoute[] = [
+    {
+      method: 'GET', pattern: /\/api\/kernelspecs\/?$/,
+      handler: () => ({ status: 200, body: this.kernelspecs })
+    },
+    {
+      method: 'GET', pattern: /\/api\/kernels\/?$/,
+      handler: () => ({ status: 200, body: this.listKernels().map(k => this._kernelModel(k)) })
+    },
+    {
+      method: 'POST', pattern: /\/api\/kernels\/?$/,
+      handler: (request: IFakeRequest) => {
+        var name = request.body && request.body.name;
+        if (name && !this.kernelspecs.kernelspecs.hasOwnProperty(name)) {
+          return { status: 500, body: { message: 'No such kernel: ' + name } };
+        }
+        return { status: 201, body: this._kernelModel(this.startKernel(name)) };
+      }
+    },
+    {
+      method: 'GET', pattern: /\/api\/kernels\/([^\/]+)\/?$/,
+      handler: (request: IFakeRequest, match: RegExpExecArray) => {
+        var k = this._kernels.get(decodeURIComponent(match[1]));
+        return k ? { status: 200, body: this._kernelModel(k) } : { status: 404 };
+      }
+    },
+    {
+      method: 'DELETE', pattern: /\/api\/kernels\/([^\/]+)\/?$/,
+      handler: (request: IFakeRequest, match: RegExpExecArray) => {
+        var id = decodeURIComponent(match[1]);
+        if (!this._kernels.has(id)) {
+          return { status: 404 };
+        }
+        this._deleteKernel(id);
+        return { status: 204 };
+      }
+    },
+    {
+      method: 'POST', pattern: /\/api\/kernels\/([^\/]+)\/interrupt\/?$/,
+      handler: (request: IFakeRequest, match: RegExpExecArray) => {
+        var k = this._kernels.get(decodeURIComponent(match[1]));
+        if (!k) {
+          return { status: 404 };
+        }
+        k.interrupt();
+        return { status: 204 };
+      }
+    },
+    {
+      method: 'POST', pattern: /\/api\/kernels\/([^\/]+)\/restart\/?$/,
+      handler: (request: IFakeRequest, match: RegExpExecArray) => {
+        var k = this._kernels.get(decodeURIComponent(match[1]));
+        if (!k) {
+          return { status: 404 };
+        }
+        k.restart();
+        return { status: 200, body: this._kernelModel(k) };
+      }
+    },
+    {
+      method: 'GET', pattern: /\/api\/sessions\/?$/,
+      handler: () => {
+        var list: any[] = [];
+        this._sessions.forEach((s: IFakeSession) => { list.push(this._sessionModel(s)); });
+        return { status: 200, body: list };
+      }
+    },
+    {
+      method: 'POST', pattern: /\/api\/sessions\/?$/,
+      handler: (request: IFakeRequest) => {
+        var body = request.body || {};
+        var path: string = body.notebook && body.notebook.path;
+        var name: string = body.kernel && body.kernel.name;
+        if (typeof path !== 'string') {
+          return { status: 400, body: { message: 'Missing notebook path' } };
+        }
+        var existing: IFakeSession = null;
+        this._sessions.forEach((s: IFakeSession) => {
+          if (s.path === path) existing = s;
+        });
+        if (existing) {
+          return { status: 201, body: this._sessionModel(existing) };
+        }
+        if (name && !this.kernelspecs.kernelspecs.hasOwnProperty(name)) {
+          return { status: 500, body: { message: 'No such kernel: ' + name } };
+        }
+        // keep the id chosen by the client, which it uses in its urls
+        var session: IFakeSession = {
+          id: body.id || utils.uuid(),
+          path: path,
+          kernelId: this.startKernel(name).id
+        };
+        this._sessions.set(session.id, session);
+        return { status: 201, body: this._sessionModel(session) };
+      }
+    },
+    {
+      method: 'GET', pattern: /\/api\/sessions\/([^\/]+)\/?$/,
+      handler: (request: IFakeRequest, match: RegExpExecArray) => {
+        var session = this._sessions.get(decodeURIComponent(match[1]));
+        return session ? { status: 200, body: this._sessionModel(session) } : { status: 404 };
+      }
+    },
+    {
+      method: 'PATCH', pattern: /\/api\/sessions\/([^\/]+)\/?$/,
+      handler: (request: IFakeRequest, match: RegExpExecArray) => {
+        var session = this._sessions.get(decodeURIComponent(match[1]));
+        if (!session) {
+          return { status: 404 };
+        }
+        if (request.body && request.body.notebook && request.body.notebook.path) {
+          session.path = request.body.notebook.path;
+        }
+        return { status: 200, body: this._sessionModel(session) };
+      }
+    },
+    {
+      method: 'DELETE', pattern: /\/api\/sessions\/([^\/]+)\/?$/,
+      handler: (request: IFakeRequest, match: RegExpExecArray) => {
+        var id = decodeURIComponent(match[1]);
+        var session = this._sessions.get(id);
+        if (!session) {
+          return { status: 404 };
+        }
+        this._sessions.delete(id);
+        this._deleteKernel(session.kernelId);
+        return { status: 204 };
+      }
+    },
+    {
+      method: 'GET', pattern: /\/api\/contents\/(.+)$/,
+      handler: (request: IFakeRequest, match: RegExpExecArray) => {
+        var file = this._files.get(decodeURIComponent(match[1]));
+        if (!file) {
+          return { status: 404, body: { message: 'No such file' } };
+        }
+        var withContent = !/[?&]content=0(&|$)/.test(request.url);
+        return { status: 200, body: this._fileModel(file, withContent) };
+      }
+    },
+    {
+      method: 'PUT', pattern: /\/api\/contents\/(.+)$/,
+      handler: (request: IFakeRequest, match: RegExpExecArray) => {
+        var path = decodeURIComponent(match[1]);
+        var body = request.body || {};
+        var status = this._files.has(path) ? 200 : 201;
+        var file = this.writeFile(path, body.type || 'file', body.content);
+        return { status: status, body: this._fileModel(file, false) };
+      }
+    }
+  ];
+
+  private _kernels = new Map<string, FakeKernel>();
+  private _sessions = new Map<string, IFakeSession>();
+  private _files = new Map<string, IContentsModel>();
+  private _clock = 0;
+  private _overrides: IRoute[] = [];
+  private _requests: IFakeRequest[] = [];
+}
+
+
+/**
+ * A fake `WebSocket`, connected to a kernel of the installed server.
+ */
+export
+class FakeWebSocket {
+
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+
+  CONNECTING = 0;
+  OPEN = 1;
+  CLOSING = 2;
+  CLOSED = 3;
+
+  binaryType = 'blob';
+  readyState = FakeWebSocket.CONNECTING;
+  onopen: (evt: any) => void = null;
+  onclose: (evt: any) => void = null;
+  onerror: (evt: any) => void = null;
+  onmessage: (evt: any) => void = null;
+
+  /**
+   * Construct a new fake websocket, connecting asynchronously.
+   */
+  constructor(url: string) {
+    this._url = url;
+    this._server = activeServer;
+    this._server.later(() => {
+      if (this.readyState !== FakeWebSocket.CONNECTING) {
+        return;
+      }
+      this._kernel = this._server.connectSocket(this);
+      if (!this._kernel) {
+        this.readyState = FakeWebSocket.CLOSED;
+        if (this.onerror) this.onerror({ type: 'error' });
+        if (this.onclose) this.onclose({ type: 'close', wasClean: false, code: 1006 });
+        return;
+      }
+      this.readyState = FakeWebSocket.OPEN;
+      if (this.onopen) this.onopen({ type: 'open' });
+    });
+  }
+
+  /**
+   * Get the url of the socket.
+   */
+  get url(): string {
+    return this._url;
+  }
+
+  /**
+   * Send data to the kernel.
+   */
+  send(data: string | ArrayBuffer): void {
+    if (this.readyState !== FakeWebSocket.OPEN) {
+      throw Error('WebSocket is not open');
+    }
+    var msg = serialize.deserialize(data);
+    var k = this._kernel;
+    this._server.later(() => { k.handleMessage(msg, this); });
+  }
+
+  /**
+   * Close the socket from the client side.
+   */
+  close(): void {
+    this.serverClose(true);
+  }
+
+  /**
+   * Deliver data from the kernel.
+   */
+  serverSend(data: string | ArrayBuffer): void {
+    this._server.later(() => {
+      if (this.readyState === FakeWebSocket.OPEN && this.onmessage) {
+        this.onmessage({ type: 'message', data: data });
+      }
+    });
+  }
+
+  /**
+   * Close the socket from the server side.
+   */
+  serverClose(clean: boolean): void {
+    if (this.readyState === FakeWebSocket.CLOSED ||
+        this.readyState === FakeWebSocket.CLOSING) {
+      return;
+    }
+    this.readyState = FakeWebSocket.CLOSING;
+    if (this._kernel) {
+      this._kernel.removeSocket(this);
+    }
+    this._server.later(() => {
+      this.readyState = FakeWebSocket.CLOSED;
+      if (this.onclose) {
+        this.onclose({ type: 'close', wasClean: clean, code: clean ? 1000 : 1006 });
+      }
+    });
+  }
+
+  private _url: string;
+  private _server: FakeServer;
+  private _kernel: FakeKernel = null;
+}
+
+
+/**
+ * A fake `XMLHttpRequest`, answered by the installed server.
+ */
+export
+class FakeXMLHttpRequest {
+
+  readyState = 0;
+  status = 0;
+  statusText = '';
+  response: any = '';
+  responseText = '';
+  onload: (evt: any) => void = null;
+  onerror: (evt: any) => void = null;
+
+  /**
+   * Initialize the request.
+   */
+  open(method: string, url: string): void {
+    this._method = method;
+    this._url = url;
+    this.readyState = 1;
+  }
+
+  /**
+   * Ignored, the fake api always answers JSON.
+   */
+  overrideMimeType(mimetype: string): void { }
+
+  /**
+   * Ignored, the fake api does not check headers.
+   */
+  setRequestHeader(name: string, value: string): void { }
+
+  /**
+   * Send the request to the server.
+   */
+  send(data?: any): void {
+    var server = activeServer;
+    var body: any = null;
+    if (typeof data === 'string' && data) {
+      try {
+        body = JSON.parse(data);
+      } catch (error) {
+        body = data;
+      }
+    }
+    server.later(() => {
+      this.readyState = 4;
+      if (server.offline) {
+        if (this.onerror) this.onerror({ type: 'error' });
+        return;
+      }
+      var response = server.handleRequest({ method: this._method, url: this._url, body: body });
+      this.status = response.status;
+      this.statusText = STATUS_TEXT[response.status] || 'Unknown';
+      this.responseText = response.body === void 0 ? '' : JSON.stringify(response.body);
+      this.response = this.responseText;
+      if (this.onload) this.onload({ type: 'load' });
+    });
+  }
+
+  private _method = '';
+  private _url = '';
+}
+
+
+/**
+ * A session of the fake server.
+ */
+interface IFakeSession {
+  id: string;
+  path: string;
+  kernelId: string;
+}
+
+
+/**
+ * A route of the fake REST api.
+ */
+interface IRoute {
+  method: string;
+  pattern: RegExp;
+  handler: IRequestHandler;
+}
+
+
+/**
+ * The reason phrases of the statuses used by the fake api.
+ */
+var STATUS_TEXT: { [status: number]: string } = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  404: 'Not Found',
+  500: 'Internal Server Error'
+};
+
+
+/**
+ * The installed server, or `null`.
+ */
+var activeServer: FakeServer = null;
+
+
+/**
+ * The browser networking classes replaced by an installed server.
+ */
+interface INetworkGlobals {
+  XMLHttpRequest: Function;
+  WebSocket: Function;
+}
+
+
+/**
+ * The browser networking replaced by the installed server.
+ */
+var savedGlobals: INetworkGlobals = null;
+
+
+/**
+ * Answer a request like an idle kernel, with busy and idle statuses.
+ */
+function replyIdle(msg: IKernelMsg, k: FakeKernel, content: any): void {
+  k.sendStatus('busy', msg);
+  k.reply(msg, content);
+  k.sendStatus('idle', msg);
+}
+
+
+/**
+ * The default responders of a fake kernel.
+ */
+var DEFAULT_RESPONDERS: { [msgType: string]: IResponder } = {
+  kernel_info_request: (msg: IKernelMsg, k: FakeKernel) => {
+    replyIdle(msg, k, {
+      protocol_version: '5.0',
+      implementation: 'fake',
+      implementation_version: '0.1',
+      language_info: {
+        name: 'python',
+        version: '3.4.3',
+        mimetype: 'text/x-python',
+        file_extension: '.py',
+        pygments_lexer: 'ipython3',
+        codemirror_mode: { name: 'ipython', version: 3 },
+        nbconvert_exporter: 'python'
+      },
+      banner: 'Fake kernel',
+      help_links: []
+    });
+  },
+  execute_request: (msg: IKernelMsg, k: FakeKernel) => {
+    var count = msg.content.silent ? k.executionCount : k.nextExecutionCount();
+    k.sendStatus('busy', msg);
+    k.sendIopub(msg, 'execute_input', { code: msg.content.code, execution_count: count });
+    k.reply(msg, { status: 'ok', execution_count: count, payload: [], user_expressions: {} });
+    k.sendStatus('idle', msg);
+  },
+  complete_request: (msg: IKernelMsg, k: FakeKernel) => {
+    replyIdle(msg, k, {
+      status: 'ok',
+      matches: [],
+      cursor_start: msg.content.cursor_pos,
+      cursor_end: msg.content.cursor_pos,
+      metadata: {}
+    });
+  },
+  inspect_request: (msg: IKernelMsg, k: FakeKernel) => {
+    replyIdle(msg, k, { status: 'ok', found: false, data: {}, metadata: {} });
+  },
+  comm_info_request: (msg: IKernelMsg, k: FakeKernel) => {
+    replyIdle(msg, k, { status: 'ok', comms: {} });
+  }
+};
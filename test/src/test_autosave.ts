@@ -0,0 +1,234 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import autosave = require('../../src/autosave');
+import contents = require('../../src/contents');
+import fakeserver = require('./fakeserver');
+import nbformat = require('../../src/nbformat');
+import notebookmodel = require('../../src/notebookmodel');
+
+import NotebookSaver = autosave.NotebookSaver;
+import Contents = contents.Contents;
+import IContentsModel = contents.IContentsModel;
+import FakeServer = fakeserver.FakeServer;
+import IFakeRequest = fakeserver.IFakeRequest;
+import NotebookModel = notebookmodel.NotebookModel;
+
+
+/**
+ * The path of the saved notebook.
+ */
+var PATH = 'dir/test.ipynb';
+
+
+/**
+ * Create a notebook with code cells of the given sources.
+ */
+function createNotebook(sources: string[]): nbformat.Notebook {
+  return {
+    metadata: {
+      kernelspec: { name: 'python3', display_name: 'Python 3' },
+      language_info: { name: 'python' }
+    },
+    nbformat: 4,
+    nbformat_minor: 0,
+    cells: sources.map(source => notebookmodel.createCell('code', source))
+  };
+}
+
+
+describe('autosave', () => {
+
+  var server: FakeServer;
+  var service: Contents;
+  var model: NotebookModel;
+  var saver: NotebookSaver;
+  var statuses: string[];
+
+  beforeEach(() => {
+    server = new FakeServer();
+    server.install();
+    service = new Contents('/');
+    model = null;
+    saver = null;
+    statuses = [];
+  });
+
+  afterEach(() => {
+    if (saver) {
+      saver.dispose();
+    }
+    if (model) {
+      model.dispose();
+    }
+    server.uninstall();
+  });
+
+  /**
+   * Create the model and the saver of a notebook, last modified at
+   * the given time.
+   */
+  function open(notebook: nbformat.Notebook, lastModified: string): void {
+    model = new NotebookModel(notebook);
+    saver = new NotebookSaver(model, service, {
+      path: PATH,
+      lastModified: lastModified,
+      autosaveInterval: 0
+    });
+    saver.statusChanged.connect((sender: NotebookSaver, status: string) => {
+      statuses.push(status);
+    });
+  }
+
+  /**
+   * Load the notebook file from the server into a new model and saver.
+   */
+  function load(): Promise<void> {
+    return autosave.loadNotebook(service, PATH).then((loaded: autosave.ILoadedNotebook) => {
+      open(loaded.notebook, loaded.model.last_modified);
+    });
+  }
+
+  /**
+   * Write the notebook file on the server, like another client.
+   */
+  function writeOnDisk(sources: string[]): IContentsModel {
+    return server.writeFile(PATH, 'notebook', nbformat.toDiskJSON(createNotebook(sources)));
+  }
+
+  /**
+   * Get the sources of the notebook file on the server.
+   */
+  function sourcesOnDisk(): string[] {
+    return server.getFile(PATH).content.cells.map((cell: any) => cell.source.join(''));
+  }
+
+  /**
+   * Get the sources of the cells of the model.
+   */
+  function sources(): string[] {
+    return model.notebook.cells.map(cell => (<nbformat.CodeCell>cell).source);
+  }
+
+  describe('#save()', () => {
+
+    it('should save a loaded notebook', () => {
+      writeOnDisk(['a']);
+      return load().then(() => {
+        model.setSource(0, 'b');
+        expect(model.dirty).to.be(true);
+        return saver.save();
+      }).then((saved: boolean) => {
+        expect(saved).to.be(true);
+        expect(statuses).to.eql(['saving', 'saved']);
+        expect(sourcesOnDisk()).to.eql(['b']);
+        expect(saver.lastModified).to.be(server.getFile(PATH).last_modified);
+        expect(model.dirty).to.be(false);
+      });
+    });
+
+    it('should create a notebook which is not on disk', () => {
+      open(createNotebook(['new']), null);
+      model.setSource(0, 'new!');
+      return saver.save().then((saved: boolean) => {
+        expect(saved).to.be(true);
+        expect(statuses).to.eql(['saving', 'saved']);
+        expect(sourcesOnDisk()).to.eql(['new!']);
+        expect(server.getFile(PATH).type).to.be('notebook');
+        expect(model.dirty).to.be(false);
+      });
+    });
+
+    it('should keep the notebook dirty when it changes during a save', () => {
+      writeOnDisk(['a']);
+      return load().then(() => {
+        server.override('PUT', /\/api\/contents\//, (request: IFakeRequest) => {
+          model.setSource(0, 'changed while saving');
+          var file = server.writeFile(PATH, 'notebook', request.body.content);
+          return { status: 200, body: { name: file.name, path: file.path, type: file.type,
+                                        last_modified: file.last_modified } };
+        });
+        model.setSource(0, 'b');
+        return saver.save();
+      }).then((saved: boolean) => {
+        expect(saved).to.be(true);
+        expect(sourcesOnDisk()).to.eql(['b']);
+        expect(model.dirty).to.be(true);
+      });
+    });
+
+    it('should report a failed save', () => {
+      writeOnDisk(['a']);
+      return load().then(() => {
+        server.override('PUT', /\/api\/contents\//, () => ({ status: 500 }));
+        model.setSource(0, 'b');
+        return saver.save().then((): any => {
+          throw Error('The save should have failed');
+        }, (error: Error) => {
+          expect(statuses).to.eql(['saving', 'saveFailed']);
+          expect(model.dirty).to.be(true);
+        });
+      });
+    });
+
+  });
+
+  describe('conflicts', () => {
+
+    /**
+     * Load the notebook, change it and the file on disk, and save it.
+     */
+    function conflict(): Promise<void> {
+      writeOnDisk(['a']);
+      return load().then(() => {
+        model.setSource(0, 'local');
+        writeOnDisk(['on disk']);
+        return saver.save();
+      }).then((saved: boolean) => {
+        expect(saved).to.be(false);
+      });
+    }
+
+    it('should not save over a notebook changed on disk', () => {
+      return conflict().then(() => {
+        expect(statuses).to.eql(['saving', 'conflict']);
+        expect(saver.inConflict).to.be(true);
+        expect(sourcesOnDisk()).to.eql(['on disk']);
+        var requests = server.requests.length;
+        return saver.save().then((saved: boolean) => {
+          expect(saved).to.be(false);
+          expect(server.requests.length).to.be(requests);
+        });
+      });
+    });
+
+    it('should save over the file on disk when overwriting', () => {
+      return conflict().then(() => saver.overwrite()).then((saved: boolean) => {
+        expect(saved).to.be(true);
+        expect(statuses).to.eql(['saving', 'conflict', 'saving', 'saved']);
+        expect(saver.inConflict).to.be(false);
+        expect(sourcesOnDisk()).to.eql(['local']);
+        expect(model.dirty).to.be(false);
+      });
+    });
+
+    it('should load the file on disk when reloading', () => {
+      return conflict().then(() => saver.reload()).then(() => {
+        expect(statuses).to.eql(['saving', 'conflict', 'reloaded']);
+        expect(saver.inConflict).to.be(false);
+        expect(saver.lastModified).to.be(server.getFile(PATH).last_modified);
+        expect(sources()).to.eql(['on disk']);
+        expect(model.dirty).to.be(false);
+        model.setSource(0, 'after reload');
+        return saver.save();
+      }).then((saved: boolean) => {
+        expect(saved).to.be(true);
+        expect(sourcesOnDisk()).to.eql(['after reload']);
+      });
+    });
+
+  });
+
+});
@@ -0,0 +1,476 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import fakeserver = require('./fakeserver');
+import kernel = require('../../src/kernel');
+
+import FakeKernel = fakeserver.FakeKernel;
+import FakeServer = fakeserver.FakeServer;
+import CancellationToken = kernel.CancellationToken;
+import IKernelMsg = kernel.IKernelMsg;
+import IKernelMsgHeader = kernel.IKernelMsgHeader;
+import IMessageFilter = kernel.IMessageFilter;
+import Kernel = kernel.Kernel;
+
+
+/**
+ * Wait for a kernel to report a status.
+ */
+function waitForStatus(k: Kernel, status: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    var handler = (sender: Kernel, value: string) => {
+      if (value === status) {
+        k.statusChanged.disconnect(handler);
+        resolve();
+      }
+    };
+    k.statusChanged.connect(handler);
+  });
+}
+
+
+/**
+ * Record the statuses reported by a kernel.
+ */
+function recordStatus(k: Kernel): string[] {
+  var statuses: string[] = [];
+  k.statusChanged.connect((sender: Kernel, status: string) => {
+    statuses.push(status);
+  });
+  return statuses;
+}
+
+
+/**
+ * Wait for a kernel to receive a message of a type.
+ */
+function waitForMessage(k: Kernel, msgType: string): Promise<IKernelMsg> {
+  return new Promise<IKernelMsg>((resolve, reject) => {
+    var handler = (sender: Kernel, msg: IKernelMsg) => {
+      if (msg.msgType === msgType) {
+        k.messageReceived.disconnect(handler);
+        resolve(msg);
+      }
+    };
+    k.messageReceived.connect(handler);
+  });
+}
+
+
+/**
+ * Get the error of a promise which should be rejected.
+ */
+function rejection(promise: Promise<any>): Promise<Error> {
+  return promise.then((): Error => {
+    throw Error('The promise should have been rejected');
+  }, (error: Error) => error);
+}
+
+
+/**
+ * Get the bytes of a message buffer.
+ */
+function bytes(buffer: ArrayBuffer | ArrayBufferView): number[] {
+  var view = (buffer instanceof ArrayBuffer) ?
+    new Uint8Array(<ArrayBuffer>buffer) :
+    new Uint8Array((<ArrayBufferView>buffer).buffer,
+                   (<ArrayBufferView>buffer).byteOffset,
+                   (<ArrayBufferView>buffer).byteLength);
+  var list: number[] = [];
+  for (var i = 0; i < view.length; i++) {
+    list.push(view[i]);
+  }
+  return list;
+}
+
+
+describe('kernel', () => {
+
+  var server: FakeServer;
+  var fake: FakeKernel;
+  var k: Kernel;
+
+  beforeEach(() => {
+    server = new FakeServer();
+    server.install();
+    fake = server.startKernel();
+    k = new Kernel('/', 'ws://localhost');
+  });
+
+  afterEach(() => {
+    k.disconnect();
+    // let the socket close before restoring the networking
+    return new Promise<void>((resolve, reject) => { setTimeout(resolve, 0); }).then(() => {
+      server.uninstall();
+    });
+  });
+
+  /**
+   * Connect the kernel object to the fake kernel, resolving once ready
+   * and idle again after the kernel info request.
+   */
+  function connect(): Promise<void> {
+    var ready = waitForStatus(k, 'ready');
+    k.connect({ id: fake.id, name: fake.name });
+    return ready.then(() => waitForStatus(k, 'idle'));
+  }
+
+  /**
+   * Create a request of another client of the kernel.
+   */
+  function otherRequest(): IKernelMsg {
+    return fake.createMsg('shell', 'execute_request', { code: 'other' });
+  }
+
+  /**
+   * Record the channels and types of the messages received by a
+   * subscription.
+   */
+  function record(filter: IMessageFilter): string[] {
+    var types: string[] = [];
+    k.subscribe(filter, (msg: IKernelMsg) => { types.push(msg.channel + ':' + msg.msgType); });
+    return types;
+  }
+
+  describe('#connect()', () => {
+
+    it('should report the kernel ready once connected', () => {
+      var statuses = recordStatus(k);
+      return connect().then(() => {
+        expect(statuses.slice(0, 2)).to.eql(['created', 'connected']);
+        expect(statuses).to.contain('ready');
+        expect(k.isConnected).to.be(true);
+        expect(k.infoReply.protocol_version).to.be.a('string');
+      });
+    });
+
+    it('should report busy and idle from the kernel status', () => {
+      return connect().then(() => {
+        var statuses = recordStatus(k);
+        fake.sendStatus('busy');
+        fake.sendStatus('idle');
+        return waitForStatus(k, 'idle').then(() => {
+          expect(statuses.slice(-2)).to.eql(['busy', 'idle']);
+          expect(k.status).to.be('idle');
+        });
+      });
+    });
+
+  });
+
+  describe('#execute()', () => {
+
+    it('should deliver every message of a multi-message reply', () => {
+      fake.respond('execute_request', (msg: IKernelMsg, fk: FakeKernel) => {
+        var count = fk.nextExecutionCount();
+        fk.sendStatus('busy', msg);
+        fk.sendIopub(msg, 'execute_input', { code: msg.content.code, execution_count: count });
+        fk.sendIopub(msg, 'stream', { name: 'stdout', text: 'one\n' });
+        fk.sendIopub(msg, 'stream', { name: 'stdout', text: 'two\n' });
+        fk.sendIopub(msg, 'execute_result', {
+          execution_count: count, data: { 'text/plain': '3' }, metadata: {}
+        });
+        fk.reply(msg, { status: 'ok', execution_count: count, payload: [], user_expressions: {} });
+        fk.sendStatus('idle', msg);
+      });
+      return connect().then(() => {
+        var outputs: string[] = [];
+        var future = k.execute('1 + 2');
+        future.onOutput((msg: IKernelMsg) => { outputs.push(msg.msgType); });
+        return Promise.all([future.reply, future.done]).then((msgs: IKernelMsg[]) => {
+          expect(msgs[0].msgType).to.be('execute_reply');
+          expect(msgs[0].content.execution_count).to.be(1);
+          expect(outputs).to.eql([
+            'status', 'execute_input', 'stream', 'stream', 'execute_result', 'status'
+          ]);
+          expect(future.isDone).to.be(true);
+        });
+      });
+    });
+
+    it('should not be done before both the reply and the idle status', () => {
+      var request: IKernelMsg = null;
+      fake.respond('execute_request', (msg: IKernelMsg, fk: FakeKernel) => {
+        request = msg;
+        fk.sendStatus('busy', msg);
+        fk.reply(msg, { status: 'ok', execution_count: 1 });
+      });
+      return connect().then(() => {
+        var future = k.execute('x');
+        return future.reply.then(() => {
+          expect(future.isDone).to.be(false);
+          fake.sendStatus('idle', request);
+          return future.done;
+        }).then(() => {
+          expect(future.isDone).to.be(true);
+        });
+      });
+    });
+
+  });
+
+  describe('request options', () => {
+
+    it('should fail a request which times out', () => {
+      fake.respond('execute_request', (msg: IKernelMsg, fk: FakeKernel) => {
+        fk.sendStatus('busy', msg);
+      });
+      return connect().then(() => {
+        var future = k.execute('while True: pass', {}, { timeout: 10 });
+        return Promise.all([rejection(future.reply), rejection(future.done)]);
+      }).then((errors: Error[]) => {
+        expect(errors[0].message).to.be('Kernel request timed out');
+        expect(errors[1].message).to.be('Kernel request timed out');
+      });
+    });
+
+    it('should not send a queued request once cancelled', function() {
+      this.timeout(5000);
+      var token = new CancellationToken();
+      var cancelled: Error = null;
+      return connect().then(() => {
+        var disconnected = waitForStatus(k, 'disconnected');
+        fake.disconnect(false);
+        return disconnected;
+      }).then(() => {
+        var future = k.execute('cancelled', {}, { token: token });
+        var sent = k.execute('sent');
+        token.cancel();
+        return rejection(future.reply).then((error: Error) => {
+          cancelled = error;
+          return sent.reply;
+        });
+      }).then(() => {
+        expect(cancelled.message).to.be('Kernel request cancelled');
+        var codes = fake.received.filter(msg => msg.header.msgType === 'execute_request')
+          .map(msg => msg.content.code);
+        expect(codes).to.eql(['sent']);
+      });
+    });
+
+  });
+
+  describe('#outputReceived', () => {
+
+    it('should deliver the outputs to every subscriber', () => {
+      return connect().then(() => {
+        var first: string[] = [];
+        var second: string[] = [];
+        var future = k.execute('x');
+        future.outputReceived.connect((sender: any, msg: IKernelMsg) => { first.push(msg.msgType); });
+        future.outputReceived.connect((sender: any, msg: IKernelMsg) => { second.push(msg.msgType); });
+        return future.done.then(() => {
+          expect(first).to.eql(['status', 'execute_input', 'status']);
+          expect(second).to.eql(first);
+        });
+      });
+    });
+
+  });
+
+  describe('#subscribe()', () => {
+
+    it('should receive the messages of requests from other clients', () => {
+      var parents: string[] = [];
+      return connect().then(() => {
+        k.subscribe({ msgType: 'stream' }, (msg: IKernelMsg) => {
+          parents.push((<IKernelMsgHeader>msg.parentHeader).msgId);
+        });
+        var request = otherRequest();
+        fake.sendIopub(request, 'stream', { name: 'stdout', text: 'x' });
+        return waitForMessage(k, 'stream').then(() => {
+          expect(parents).to.eql([request.header.msgId]);
+        });
+      });
+    });
+
+    it('should receive the messages with no parent', () => {
+      var types: string[];
+      return connect().then(() => {
+        types = record({ channel: 'iopub' });
+        fake.sendIopub(null, 'display_data', { data: { 'text/plain': 'x' }, metadata: {} });
+        return waitForMessage(k, 'display_data');
+      }).then(() => {
+        expect(types).to.eql(['iopub:display_data']);
+      });
+    });
+
+    it('should filter the messages by type and channel', () => {
+      var all: string[];
+      var streams: string[];
+      var shell: string[];
+      var iopubStatus: string[];
+      return connect().then(() => {
+        all = record({});
+        streams = record({ msgType: 'stream' });
+        shell = record({ channel: 'shell' });
+        iopubStatus = record({ msgType: 'status', channel: 'iopub' });
+        var request = otherRequest();
+        fake.sendStatus('busy', request);
+        fake.sendIopub(request, 'stream', { name: 'stdout', text: 'x' });
+        fake.reply(request, { status: 'ok', execution_count: 1 });
+        fake.sendStatus('idle', request);
+        return waitForStatus(k, 'idle');
+      }).then(() => {
+        expect(all).to.eql(['iopub:status', 'iopub:stream', 'shell:execute_reply', 'iopub:status']);
+        expect(streams).to.eql(['iopub:stream']);
+        expect(shell).to.eql(['shell:execute_reply']);
+        expect(iopubStatus).to.eql(['iopub:status', 'iopub:status']);
+      });
+    });
+
+    it('should stop the delivery once disposed', () => {
+      var types: string[] = [];
+      return connect().then(() => {
+        var subscription = k.subscribe({ msgType: 'stream' }, (msg: IKernelMsg) => {
+          types.push(msg.content.text);
+        });
+        fake.sendIopub(null, 'stream', { name: 'stdout', text: 'before' });
+        return waitForMessage(k, 'stream').then(() => {
+          subscription.dispose();
+          fake.sendIopub(null, 'stream', { name: 'stdout', text: 'after' });
+          return waitForMessage(k, 'stream');
+        });
+      }).then(() => {
+        expect(types).to.eql(['before']);
+      });
+    });
+
+  });
+
+  describe('#messageReceived', () => {
+
+    it('should be emitted for the messages of other clients', () => {
+      var request: IKernelMsg;
+      return connect().then(() => {
+        request = otherRequest();
+        var received = waitForMessage(k, 'execute_reply');
+        fake.reply(request, { status: 'ok', execution_count: 1 });
+        return received;
+      }).then((msg: IKernelMsg) => {
+        expect((<IKernelMsgHeader>msg.parentHeader).msgId).to.be(request.header.msgId);
+      });
+    });
+
+  });
+
+  describe('binary buffers', () => {
+
+    it('should receive the buffers of a kernel message', () => {
+      return connect().then(() => {
+        var received = new Promise<IKernelMsg>((resolve, reject) => {
+          k.commMessage.connect((sender: Kernel, msg: IKernelMsg) => { resolve(msg); });
+        });
+        fake.sendIopub(null, 'comm_msg', { comm_id: 'abc', data: {} },
+                       [new Uint8Array([1, 2, 3]), new Uint8Array([255])]);
+        return received;
+      }).then((msg: IKernelMsg) => {
+        expect(msg.content.comm_id).to.be('abc');
+        expect(msg.buffers.length).to.be(2);
+        expect(bytes(msg.buffers[0])).to.eql([1, 2, 3]);
+        expect(bytes(msg.buffers[1])).to.eql([255]);
+      });
+    });
+
+    it('should send the buffers of a client message', () => {
+      var received = new Promise<IKernelMsg>((resolve, reject) => {
+        fake.respond('comm_msg', (msg: IKernelMsg, fk: FakeKernel) => { resolve(msg); });
+      });
+      return connect().then(() => {
+        k.sendShellMessage('comm_msg', { comm_id: 'abc', data: {} }, {},
+                           [new Uint8Array([4, 5, 6])]);
+        return received;
+      }).then((msg: IKernelMsg) => {
+        expect(msg.buffers.length).to.be(1);
+        expect(bytes(msg.buffers[0])).to.eql([4, 5, 6]);
+      });
+    });
+
+  });
+
+  describe('#reconnect()', () => {
+
+    it('should reconnect after the connection drops', function() {
+      this.timeout(5000);
+      return connect().then(() => {
+        var statuses = recordStatus(k);
+        var connected = waitForStatus(k, 'connected');
+        fake.disconnect(false);
+        return connected.then(() => {
+          expect(statuses).to.contain('disconnected');
+          expect(statuses).to.contain('reconnecting');
+          expect(fake.connectionCount).to.be(1);
+        });
+      });
+    });
+
+    it('should send the requests made while disconnected once reconnected', function() {
+      this.timeout(5000);
+      return connect().then(() => {
+        var disconnected = waitForStatus(k, 'disconnected');
+        fake.disconnect(false);
+        return disconnected;
+      }).then(() => {
+        expect(k.isConnected).to.be(false);
+        return k.execute('queued').reply;
+      }).then((reply: IKernelMsg) => {
+        expect(reply.content.status).to.be('ok');
+        var codes = fake.received.filter(msg => msg.header.msgType === 'execute_request')
+          .map(msg => msg.content.code);
+        expect(codes).to.eql(['queued']);
+      });
+    });
+
+  });
+
+  describe('kernel death', () => {
+
+    it('should fail the pending requests when the kernel dies', () => {
+      fake.respond('execute_request', (msg: IKernelMsg, fk: FakeKernel) => {
+        fk.sendStatus('busy', msg);
+      });
+      return connect().then(() => {
+        var statuses = recordStatus(k);
+        var future = k.execute('while True: pass');
+        return waitForStatus(k, 'busy').then(() => {
+          fake.die();
+          return future.done.then(() => {
+            throw Error('The request should have failed');
+          }, (error: Error) => {
+            expect(error.message).to.be('Kernel died');
+            expect(statuses).to.contain('dead');
+          });
+        });
+      });
+    });
+
+    it('should report an automatic restart by the server', () => {
+      return connect().then(() => {
+        var restarting = waitForStatus(k, 'autorestarting');
+        fake.sendStatus('restarting');
+        return restarting;
+      });
+    });
+
+  });
+
+  describe('#restart()', () => {
+
+    it('should reconnect to the restarted kernel', () => {
+      return connect().then(() => {
+        fake.nextExecutionCount();
+        var statuses = recordStatus(k);
+        var ready = waitForStatus(k, 'ready');
+        return k.restart().then(() => ready).then(() => {
+          expect(statuses.slice(0, 3)).to.eql(['restarting', 'created', 'connected']);
+          expect(fake.executionCount).to.be(0);
+          expect(fake.connectionCount).to.be(1);
+        });
+      });
+    });
+
+  });
+
+});
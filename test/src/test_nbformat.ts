@@ -0,0 +1,279 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import nbformat = require('../../src/nbformat');
+
+
+/**
+ * Create the disk JSON of a notebook with one output of the given data.
+ */
+function notebookWithData(data: any): any {
+  return {
+    metadata: {},
+    nbformat: 4,
+    nbformat_minor: 0,
+    cells: [{
+      cell_type: 'code',
+      execution_count: 1,
+      metadata: {},
+      source: ['x = 1\n', 'x'],
+      outputs: [{ output_type: 'display_data', data: data, metadata: {} }]
+    }]
+  };
+}
+
+
+/**
+ * A notebook file as written by the Python `nbformat` package.
+ */
+var CANONICAL_FILE = [
+  '{',
+  ' "cells": [',
+  '  {',
+  '   "cell_type": "markdown",',
+  '   "metadata": {},',
+  '   "source": [',
+  '    "# Title\\n",',
+  '    "\\n",',
+  '    "Some *text* é–😀"',
+  '   ]',
+  '  },',
+  '  {',
+  '   "cell_type": "code",',
+  '   "execution_count": 2,',
+  '   "metadata": {',
+  '    "collapsed": false,',
+  '    "scrolled": true',
+  '   },',
+  '   "outputs": [',
+  '    {',
+  '     "name": "stdout",',
+  '     "output_type": "stream",',
+  '     "text": [',
+  '      "1\\r\\n",',
+  '      "2\\n"',
+  '     ]',
+  '    },',
+  '    {',
+  '     "data": {',
+  '      "application/json": {',
+  '       "a": [',
+  '        1,',
+  '        2',
+  '       ]',
+  '      },',
+  '      "image/png": "iVBORw0KG\\ngoAAAANS",',
+  '      "text/plain": [',
+  '       "<Figure>"',
+  '      ]',
+  '     },',
+  '     "execution_count": 2,',
+  '     "metadata": {},',
+  '     "output_type": "execute_result"',
+  '    },',
+  '    {',
+  '     "ename": "NameError",',
+  '     "evalue": "name \'y\' is not defined",',
+  '     "output_type": "error",',
+  '     "traceback": [',
+  '      "NameError"',
+  '     ]',
+  '    }',
+  '   ],',
+  '   "source": [',
+  '    "print(1)\\n",',
+  '    "print(2)\\n",',
+  '    "y"',
+  '   ]',
+  '  },',
+  '  {',
+  '   "cell_type": "raw",',
+  '   "metadata": {},',
+  '   "source": []',
+  '  }',
+  ' ],',
+  ' "metadata": {',
+  '  "kernelspec": {',
+  '   "display_name": "Python 3",',
+  '   "language": "python",',
+  '   "name": "python3"',
+  '  },',
+  '  "language_info": {',
+  '   "name": "python",',
+  '   "version": "3.4.3"',
+  '  }',
+  ' },',
+  ' "nbformat": 4,',
+  ' "nbformat_minor": 0',
+  '}',
+  ''
+].join('\n');
+
+
+/**
+ * Get the paths of the validation errors of a notebook.
+ */
+function errorPaths(nb: any): string[] {
+  return nbformat.validate(nb).map(error => error.path);
+}
+
+
+describe('nbformat', () => {
+
+  describe('fromDisk()', () => {
+
+    it('should join the lines of every mimetype but JSON', () => {
+      var nb = nbformat.fromDisk(notebookWithData({
+        'text/plain': ['1\n', '2'],
+        'image/png': ['iVBORw0KG\n', 'goAAAANS'],
+        'application/vnd.custom': ['a\n', 'b'],
+        'application/json': ['not', 'joined'],
+        'application/vnd.custom+json': ['not', 'joined']
+      }), { strict: true });
+      var cell = <nbformat.CodeCell>nb.cells[0];
+      var data = (<nbformat.DisplayData>cell.outputs[0]).data;
+      expect(cell.source).to.be('x = 1\nx');
+      expect(data['text/plain']).to.be('1\n2');
+      expect(data['image/png']).to.be('iVBORw0KG\ngoAAAANS');
+      expect(data['application/vnd.custom']).to.be('a\nb');
+      expect(data['application/json']).to.eql(['not', 'joined']);
+      expect(data['application/vnd.custom+json']).to.eql(['not', 'joined']);
+    });
+
+    it('should treat the JSON suffix of other types as text', () => {
+      var nb = nbformat.fromDisk(notebookWithData({
+        'text/vnd.custom+json': ['{\n', '}']
+      }), { strict: true });
+      var data = (<nbformat.DisplayData>(<nbformat.CodeCell>nb.cells[0]).outputs[0]).data;
+      expect(data['text/vnd.custom+json']).to.be('{\n}');
+    });
+
+    it('should throw for an invalid notebook in strict mode', () => {
+      var disk = notebookWithData({ 'text/plain': 1 });
+      expect(() => nbformat.fromDisk(disk, { strict: true })).to.throwError(
+        /\/cells\/0\/outputs\/0\/data\/text\/plain: must be a string or an array of strings/);
+    });
+
+    it('should keep the invalid values of a notebook when not strict', () => {
+      var disk = notebookWithData({ 'text/plain': 1, 'text/html': ['<b>', '</b>'] });
+      disk.cells.push(null, { cell_type: 'markdown', metadata: {}, source: 3 });
+      disk.cells[0].outputs.push({ output_type: 'stream', name: 'stdout' },
+                                 { output_type: 'display_data', data: 'x', metadata: {} },
+                                 null);
+      var nb: any = nbformat.fromDisk(disk);
+      var outputs = nb.cells[0].outputs;
+      expect(outputs[0].data).to.eql({ 'text/plain': 1, 'text/html': '<b></b>' });
+      expect(outputs[1]).to.eql({ output_type: 'stream', name: 'stdout' });
+      expect(outputs[2].data).to.be('x');
+      expect(outputs[3]).to.be(null);
+      expect(nb.cells[1]).to.be(null);
+      expect(nb.cells[2].source).to.be(3);
+    });
+
+    it('should throw for a notebook which is not an object', () => {
+      expect(() => nbformat.fromDisk('[]')).to.throwError(/notebook must be an object/);
+      expect(() => nbformat.fromDisk('null')).to.throwError(/notebook must be an object/);
+    });
+
+  });
+
+  describe('toDisk()', () => {
+
+    it('should write a loaded notebook file unchanged', () => {
+      var nb = nbformat.fromDisk(CANONICAL_FILE, { strict: true });
+      expect((<nbformat.MarkdownCell>nb.cells[0]).source).to.be('# Title\n\nSome *text* é–😀');
+      expect(nbformat.toDisk(nb)).to.be(CANONICAL_FILE);
+    });
+
+  });
+
+  describe('validate()', () => {
+
+    it('should accept a valid notebook', () => {
+      expect(nbformat.validate(JSON.parse(CANONICAL_FILE))).to.eql([]);
+    });
+
+    it('should report the missing and unknown keys', () => {
+      var disk = notebookWithData({});
+      delete disk.metadata;
+      disk.extra = 1;
+      delete disk.cells[0].execution_count;
+      expect(nbformat.validate(disk)).to.eql([
+        { path: '/', message: 'missing required property: metadata' },
+        { path: '/extra', message: 'unknown property' },
+        { path: '/cells/0', message: 'missing required property: execution_count' }
+      ]);
+    });
+
+    it('should report an unsupported format version', () => {
+      var disk = notebookWithData({});
+      disk.nbformat = 5;
+      disk.nbformat_minor = -1;
+      expect(errorPaths(disk)).to.eql(['/nbformat', '/nbformat_minor']);
+    });
+
+    it('should only allow cell ids from format 4.5', () => {
+      var disk = notebookWithData({});
+      disk.cells[0].id = 'a';
+      expect(errorPaths(disk)).to.eql(['/cells/0/id']);
+      disk.nbformat_minor = 5;
+      expect(errorPaths(disk)).to.eql([]);
+    });
+
+    it('should report the invalid cells', () => {
+      var disk = notebookWithData({});
+      disk.cells.push(null, { cell_type: 'heading', metadata: {}, source: '' });
+      disk.cells[0].execution_count = 1.5;
+      disk.cells[0].source = ['a', 1];
+      expect(errorPaths(disk)).to.eql([
+        '/cells/0/execution_count', '/cells/0/source', '/cells/1', '/cells/2/cell_type'
+      ]);
+    });
+
+    it('should report the invalid outputs', () => {
+      var disk = notebookWithData({ 'application/json': { a: 1 }, 'text/plain': { a: 1 } });
+      disk.cells[0].outputs.push(
+        { output_type: 'stream', name: 1, text: 'a' },
+        { output_type: 'error', ename: 'E', evalue: 'e', traceback: 'x' },
+        { output_type: 'pyout' }
+      );
+      expect(errorPaths(disk)).to.eql([
+        '/cells/0/outputs/0/data/text/plain',
+        '/cells/0/outputs/1/name',
+        '/cells/0/outputs/2/traceback',
+        '/cells/0/outputs/3/output_type'
+      ]);
+    });
+
+    it('should report the invalid notebook metadata', () => {
+      var disk = notebookWithData({});
+      disk.metadata = { kernelspec: { name: 'python3' }, language_info: { name: 3 }, orig_nbformat: 0 };
+      expect(errorPaths(disk)).to.eql([
+        '/metadata/kernelspec',
+        '/metadata/language_info/name',
+        '/metadata/orig_nbformat'
+      ]);
+    });
+
+  });
+
+  describe('toDiskJSON()', () => {
+
+    it('should only split the text mimetypes into lines', () => {
+      var nb = nbformat.fromDisk(notebookWithData({
+        'text/plain': '1\n2',
+        'image/svg+xml': '<svg>\n</svg>',
+        'image/png': 'iVBORw0KG\ngoAAAANS'
+      }));
+      var disk: any = nbformat.toDiskJSON(nb);
+      var data = disk.cells[0].outputs[0].data;
+      expect(data['text/plain']).to.eql(['1\n', '2']);
+      expect(data['image/svg+xml']).to.eql(['<svg>\n', '</svg>']);
+      expect(data['image/png']).to.be('iVBORw0KG\ngoAAAANS');
+    });
+
+  });
+
+});
@@ -0,0 +1,297 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import nbformat = require('../../src/nbformat');
+import nbupgrade = require('../../src/nbupgrade');
+
+
+/**
+ * A notebook file as written by IPython 2.
+ */
+var V3_FILE = [
+  '{',
+  ' "metadata": {',
+  '  "name": "",',
+  '  "signature": "sha256:6b1a2e2fd8c4b5ee12d7a1b4c0f6c3e7f5c0c1bbd6b37e1b2b54c6b1d0d4c5a1"',
+  ' },',
+  ' "nbformat": 3,',
+  ' "nbformat_minor": 0,',
+  ' "worksheets": [',
+  '  {',
+  '   "cells": [',
+  '    {',
+  '     "cell_type": "heading",',
+  '     "level": 2,',
+  '     "metadata": {},',
+  '     "source": "Analysis"',
+  '    },',
+  '    {',
+  '     "cell_type": "markdown",',
+  '     "metadata": {},',
+  '     "source": [',
+  '      "Some *text*\\n",',
+  '      "on two lines"',
+  '     ]',
+  '    },',
+  '    {',
+  '     "cell_type": "code",',
+  '     "collapsed": false,',
+  '     "input": [',
+  '      "import sys\\n",',
+  '      "print(sys.version)"',
+  '     ],',
+  '     "language": "python",',
+  '     "metadata": {},',
+  '     "outputs": [',
+  '      {',
+  '       "output_type": "stream",',
+  '       "stream": "stdout",',
+  '       "text": [',
+  '        "2.7.6\\n"',
+  '       ]',
+  '      }',
+  '     ],',
+  '     "prompt_number": 1',
+  '    },',
+  '    {',
+  '     "cell_type": "code",',
+  '     "collapsed": true,',
+  '     "input": [',
+  '      "plot()"',
+  '     ],',
+  '     "language": "python",',
+  '     "metadata": {},',
+  '     "outputs": [',
+  '      {',
+  '       "metadata": {',
+  '        "png": {',
+  '         "width": 400',
+  '        }',
+  '       },',
+  '       "output_type": "pyout",',
+  '       "png": "iVBORw0KGgo=\\n",',
+  '       "prompt_number": 2,',
+  '       "text": [',
+  '        "<matplotlib.figure.Figure at 0x10a2b3c4d>"',
+  '       ]',
+  '      },',
+  '      {',
+  '       "html": [',
+  '        "<b>done</b>"',
+  '       ],',
+  '       "json": "{\\"a\\":1}",',
+  '       "metadata": {},',
+  '       "output_type": "display_data",',
+  '       "text": [',
+  '        "done"',
+  '       ]',
+  '      }',
+  '     ],',
+  '     "prompt_number": 2',
+  '    },',
+  '    {',
+  '     "cell_type": "code",',
+  '     "collapsed": false,',
+  '     "input": [',
+  '      "y"',
+  '     ],',
+  '     "language": "python",',
+  '     "metadata": {},',
+  '     "outputs": [',
+  '      {',
+  '       "ename": "NameError",',
+  '       "evalue": "name \'y\' is not defined",',
+  '       "output_type": "pyerr",',
+  '       "traceback": [',
+  '        "NameError: name \'y\' is not defined"',
+  '       ]',
+  '      }',
+  '     ],',
+  '     "prompt_number": 3',
+  '    },',
+  '    {',
+  '     "cell_type": "code",',
+  '     "collapsed": false,',
+  '     "input": [],',
+  '     "language": "python",',
+  '     "metadata": {},',
+  '     "outputs": []',
+  '    }',
+  '   ],',
+  '   "metadata": {}',
+  '  }',
+  ' ]',
+  '}',
+  ''
+].join('\n');
+
+
+describe('nbupgrade', () => {
+
+  describe('upgrade()', () => {
+
+    var nb: any;
+
+    beforeEach(() => {
+      nb = nbupgrade.upgrade(JSON.parse(V3_FILE));
+    });
+
+    it('should produce a valid version 4 notebook', () => {
+      expect(nb.nbformat).to.be(4);
+      expect(nb.nbformat_minor).to.be(0);
+      expect(nbformat.validate(nb)).to.eql([]);
+    });
+
+    it('should record the original version and drop the version 3 metadata', () => {
+      expect(nb.metadata).to.eql({ orig_nbformat: 3 });
+    });
+
+    it('should flatten the worksheets', () => {
+      expect(nb.worksheets).to.be(undefined);
+      expect(nb.cells.map((cell: any) => cell.cell_type)).to.eql(
+        ['markdown', 'markdown', 'code', 'code', 'code', 'code']);
+    });
+
+    it('should convert the heading cells to markdown', () => {
+      expect(nb.cells[0]).to.eql({ cell_type: 'markdown', metadata: {}, source: '## Analysis' });
+      expect(nb.cells[1].source).to.eql(['Some *text*\n', 'on two lines']);
+    });
+
+    it('should convert the code cells', () => {
+      expect(nb.cells[2]).to.eql({
+        cell_type: 'code',
+        execution_count: 1,
+        metadata: { collapsed: false },
+        source: ['import sys\n', 'print(sys.version)'],
+        outputs: [{ output_type: 'stream', name: 'stdout', text: ['2.7.6\n'] }]
+      });
+      expect(nb.cells[3].metadata).to.eql({ collapsed: true });
+      expect(nb.cells[5].execution_count).to.be(null);
+    });
+
+    it('should convert the pyout outputs to execute results', () => {
+      expect(nb.cells[3].outputs[0]).to.eql({
+        output_type: 'execute_result',
+        execution_count: 2,
+        data: {
+          'text/plain': ['<matplotlib.figure.Figure at 0x10a2b3c4d>'],
+          'image/png': 'iVBORw0KGgo=\n'
+        },
+        metadata: { 'image/png': { width: 400 } }
+      });
+    });
+
+    it('should move the display data into a mimebundle', () => {
+      expect(nb.cells[3].outputs[1].data).to.eql({
+        'text/plain': ['done'],
+        'text/html': ['<b>done</b>'],
+        'application/json': { a: 1 }
+      });
+    });
+
+    it('should convert the pyerr outputs to errors', () => {
+      expect(nb.cells[4].outputs[0]).to.eql({
+        output_type: 'error',
+        ename: 'NameError',
+        evalue: 'name \'y\' is not defined',
+        traceback: ['NameError: name \'y\' is not defined']
+      });
+    });
+
+    it('should fill in the defaults of an early version 4 notebook', () => {
+      var v4 = nbupgrade.upgrade({
+        metadata: {},
+        nbformat: 4,
+        cells: [
+          { cell_type: 'code', source: 'x', outputs: [{ output_type: 'execute_result', data: {} }] },
+          { cell_type: 'markdown' }
+        ]
+      });
+      expect(v4.nbformat_minor).to.be(0);
+      expect(v4.cells[0].execution_count).to.be(null);
+      expect(v4.cells[0].metadata).to.eql({});
+      expect(v4.cells[0].outputs[0]).to.eql(
+        { output_type: 'execute_result', data: {}, metadata: {}, execution_count: null });
+      expect(v4.cells[1].source).to.be('');
+      expect(nbformat.validate(v4)).to.eql([]);
+    });
+
+    it('should reject the other major versions', () => {
+      expect(() => nbupgrade.upgrade({ nbformat: 2 })).to.throwError(/version: 2/);
+    });
+
+  });
+
+  describe('downgrade()', () => {
+
+    var nb: any;
+
+    beforeEach(() => {
+      nb = nbupgrade.downgrade(nbupgrade.upgrade(JSON.parse(V3_FILE)));
+    });
+
+    it('should restore the version 3 notebook', () => {
+      var v3 = JSON.parse(V3_FILE);
+      delete v3.metadata.signature;
+      expect(nb).to.eql(v3);
+    });
+
+    it('should convert the markdown headings to heading cells', () => {
+      var v3 = nbupgrade.downgrade({
+        metadata: {},
+        nbformat: 4,
+        nbformat_minor: 0,
+        cells: [
+          { cell_type: 'markdown', metadata: {}, source: '### Results' },
+          { cell_type: 'markdown', metadata: {}, source: '# Title\nand text' }
+        ]
+      });
+      var cells = v3.worksheets[0].cells;
+      expect(cells[0]).to.eql({ cell_type: 'heading', level: 3, metadata: {}, source: 'Results' });
+      expect(cells[1].cell_type).to.be('markdown');
+    });
+
+    it('should drop the output data with no version 3 equivalent', () => {
+      var v3 = nbupgrade.downgrade({
+        metadata: {},
+        nbformat: 4,
+        nbformat_minor: 0,
+        cells: [{
+          cell_type: 'code', execution_count: 1, metadata: {}, source: 'x',
+          outputs: [{
+            output_type: 'display_data',
+            data: { 'text/plain': 'x', 'application/vnd.custom+json': {} },
+            metadata: {}
+          }]
+        }]
+      });
+      expect(v3.worksheets[0].cells[0].outputs[0]).to.eql(
+        { output_type: 'display_data', text: 'x', metadata: {} });
+    });
+
+    it('should not modify the notebook', () => {
+      var v4 = nbupgrade.upgrade(JSON.parse(V3_FILE));
+      var copy = JSON.parse(JSON.stringify(v4));
+      nbupgrade.downgrade(v4);
+      expect(v4).to.eql(copy);
+    });
+
+    it('should reject the other major versions', () => {
+      expect(() => nbupgrade.downgrade({ nbformat: 3 })).to.throwError(/version: 3/);
+    });
+
+  });
+
+  describe('nbformat.toDiskV3()', () => {
+
+    it('should write a loaded version 3 file back', () => {
+      var nb = nbformat.fromDisk(V3_FILE, { strict: true });
+      var expected = V3_FILE.replace(/ {2}"signature": .*\n/, '').replace('"name": "",', '"name": ""');
+      expect(nbformat.toDiskV3(nb)).to.be(expected);
+    });
+
+  });
+
+});
@@ -0,0 +1,190 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import fakeserver = require('./fakeserver');
+import kernel = require('../../src/kernel');
+import nbformat = require('../../src/nbformat');
+import notebookmodel = require('../../src/notebookmodel');
+import session = require('../../src/session');
+
+import FakeKernel = fakeserver.FakeKernel;
+import FakeServer = fakeserver.FakeServer;
+import IKernelMsg = kernel.IKernelMsg;
+import Kernel = kernel.Kernel;
+import NotebookModel = notebookmodel.NotebookModel;
+import NotebookSession = session.NotebookSession;
+
+
+/**
+ * Wait for a kernel to report a status.
+ */
+function waitForStatus(k: Kernel, status: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    var handler = (sender: Kernel, value: string) => {
+      if (value === status) {
+        k.statusChanged.disconnect(handler);
+        resolve();
+      }
+    };
+    k.statusChanged.connect(handler);
+  });
+}
+
+
+/**
+ * Create a notebook with code cells of the given sources.
+ */
+function createNotebook(sources: string[]): nbformat.Notebook {
+  return {
+    metadata: {
+      kernelspec: { name: 'python3', display_name: 'Python 3' },
+      language_info: { name: 'python' }
+    },
+    nbformat: 4,
+    nbformat_minor: 0,
+    cells: sources.map(source => notebookmodel.createCell('code', source))
+  };
+}
+
+
+/**
+ * Get the plain text of a display output.
+ */
+function displayText(output: nbformat.Output): string {
+  return (<nbformat.DisplayData>output).data['text/plain'];
+}
+
+
+describe('notebookmodel', () => {
+
+  var server: FakeServer;
+  var s: NotebookSession;
+  var model: NotebookModel;
+
+  beforeEach(() => {
+    server = new FakeServer();
+    server.install();
+    s = new NotebookSession({
+      notebookPath: 'test.ipynb',
+      kernelName: 'python3',
+      baseUrl: '/',
+      wsUrl: 'ws://localhost'
+    });
+  });
+
+  afterEach(() => {
+    if (model) {
+      model.dispose();
+      model = null;
+    }
+    s.kernel.disconnect();
+    // let the socket close before restoring the networking
+    return new Promise<void>((resolve, reject) => { setTimeout(resolve, 0); }).then(() => {
+      server.uninstall();
+    });
+  });
+
+  /**
+   * Start the session and create a model of code cells once it is idle.
+   *
+   * The kernel shows the code of each cell as a display with the id
+   * `shared`.
+   */
+  function start(sources: string[]): Promise<void> {
+    var ready = waitForStatus(s.kernel, 'ready');
+    return s.start().then(() => ready).then(() => waitForStatus(s.kernel, 'idle')).then(() => {
+      server.getKernel(s.kernel.id).respond('execute_request', (msg: IKernelMsg, fk: FakeKernel) => {
+        var count = fk.nextExecutionCount();
+        fk.sendStatus('busy', msg);
+        fk.sendIopub(msg, 'display_data', {
+          data: { 'text/plain': msg.content.code },
+          metadata: {},
+          transient: { display_id: 'shared' }
+        });
+        fk.reply(msg, { status: 'ok', execution_count: count, payload: [], user_expressions: {} });
+        fk.sendStatus('idle', msg);
+      });
+      model = new NotebookModel(createNotebook(sources), s);
+    });
+  }
+
+  /**
+   * Execute the code cell at an index, resolving once it is done.
+   */
+  function execute(index: number): Promise<any> {
+    return model.executeCell(<nbformat.CodeCell>model.getCell(index)).done;
+  }
+
+  /**
+   * Get the outputs of the code cell at an index.
+   */
+  function outputs(index: number): nbformat.Output[] {
+    return (<nbformat.CodeCell>model.getCell(index)).outputs;
+  }
+
+  /**
+   * Send an `update_display_data` for the shared display id, resolving
+   * once the kernel object has handled it.
+   */
+  function updateDisplay(text: string): Promise<void> {
+    var fake = server.getKernel(s.kernel.id);
+    var busy = waitForStatus(s.kernel, 'busy');
+    fake.sendIopub(null, 'update_display_data', {
+      data: { 'text/plain': text },
+      metadata: {},
+      transient: { display_id: 'shared' }
+    });
+    fake.sendStatus('busy');
+    return busy;
+  }
+
+  describe('display ids', () => {
+
+    it('should update the outputs of every cell with the display id', () => {
+      return start(['a', 'b']).then(() => execute(0)).then(() => execute(1)).then(() => {
+        return updateDisplay('c');
+      }).then(() => {
+        expect(displayText(outputs(0)[0])).to.be('c');
+        expect(displayText(outputs(1)[0])).to.be('c');
+      });
+    });
+
+    it('should update the other outputs for a new display with the id', () => {
+      return start(['a', 'b']).then(() => execute(0)).then(() => execute(1)).then(() => {
+        expect(displayText(outputs(0)[0])).to.be('b');
+        expect(displayText(outputs(1)[0])).to.be('b');
+      });
+    });
+
+    it('should stop updating the outputs once disposed', () => {
+      return start(['a']).then(() => execute(0)).then(() => {
+        model.dispose();
+        return updateDisplay('c');
+      }).then(() => {
+        expect(displayText(outputs(0)[0])).to.be('a');
+      });
+    });
+
+  });
+
+  describe('#isOutputTrusted()', () => {
+
+    it('should trust the outputs of the kernel', () => {
+      return start(['a']).then(() => execute(0)).then(() => {
+        expect(model.isOutputTrusted(outputs(0)[0])).to.be(true);
+      });
+    });
+
+    it('should forget the cleared outputs of the kernel', () => {
+      return start(['a']).then(() => execute(0)).then(() => {
+        var cleared = outputs(0)[0];
+        model.clearOutputs(0);
+        expect(model.isOutputTrusted(cleared)).to.be(false);
+      });
+    });
+
+  });
+
+});
@@ -0,0 +1,93 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import sanitizer = require('../../src/sanitizer');
+
+import sanitize = sanitizer.sanitize;
+
+
+describe('sanitizer', () => {
+
+  describe('sanitize()', () => {
+
+    it('should remove script elements with their content', () => {
+      expect(sanitize('<p>a</p><script>alert(1)</script>')).to.be('<p>a</p>');
+      expect(sanitize('<div><SCRIPT src="x.js"></SCRIPT>b</div>')).to.be('<div>b</div>');
+    });
+
+    it('should remove the event handler attributes', () => {
+      expect(sanitize('<img src="x.png" onerror="alert(1)">')).to.be('<img src="x.png">');
+      expect(sanitize('<div onclick="a()" ONMOUSEOVER="b()">t</div>')).to.be('<div>t</div>');
+    });
+
+    it('should remove javascript URLs in any case', () => {
+      expect(sanitize('<a href="JaVaScRiPt:alert(1)">x</a>')).to.be('<a>x</a>');
+      expect(sanitize('<img src="javascript:alert(1)">')).to.be('<img>');
+    });
+
+    it('should remove javascript URLs hidden by entities', () => {
+      expect(sanitize('<a href="&#106;avascript:alert(1)">x</a>')).to.be('<a>x</a>');
+      expect(sanitize('<a href="&#x6A;avascript&colon;alert(1)">x</a>')).to.be('<a>x</a>');
+      expect(sanitize('<a href="java&#x0A;script:alert(1)">x</a>')).to.be('<a>x</a>');
+    });
+
+    it('should remove javascript URLs hidden by control characters', () => {
+      expect(sanitize('<a href="java\tscript:alert(1)">x</a>')).to.be('<a>x</a>');
+      expect(sanitize('<a href="\u0001javascript:alert(1)">x</a>')).to.be('<a>x</a>');
+      expect(sanitize('<a href=" javascript:alert(1)">x</a>')).to.be('<a>x</a>');
+    });
+
+    it('should keep the safe URLs', () => {
+      expect(sanitize('<a href="https://jupyter.org/">x</a>')).to.be('<a href="https://jupyter.org/">x</a>');
+      expect(sanitize('<a href="#top">x</a>')).to.be('<a href="#top">x</a>');
+      expect(sanitize('<a href="other.ipynb">x</a>')).to.be('<a href="other.ipynb">x</a>');
+    });
+
+    it('should only allow data URLs for raster images', () => {
+      expect(sanitize('<img src="data:image/png;base64,AAAA">')).to.be('<img src="data:image/png;base64,AAAA">');
+      expect(sanitize('<img src="data:image/svg+xml;base64,AAAA">')).to.be('<img>');
+      expect(sanitize('<a href="data:text/html,&lt;script&gt;alert(1)&lt;/script&gt;">x</a>')).to.be('<a>x</a>');
+      expect(sanitize('<a href="data:image/png;base64,AAAA">x</a>')).to.be('<a>x</a>');
+    });
+
+    it('should remove the links of SVG anchors', () => {
+      var html = sanitize('<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>');
+      expect(html).to.be('<svg><text>x</text></svg>');
+    });
+
+    it('should only let SVG use elements reference the document', () => {
+      expect(sanitize('<svg><use xlink:href="http://evil.com/x.svg#a"></use></svg>'))
+        .to.be('<svg><use></use></svg>');
+      expect(sanitize('<svg><use href="#shape"></use></svg>'))
+        .to.be('<svg><use href="#shape"></use></svg>');
+    });
+
+    it('should remove the SVG animation elements', () => {
+      var html = sanitize('<svg><a><animate attributeName="href" to="javascript:alert(1)"></animate>' +
+                          '<set attributeName="href" to="javascript:alert(1)"></set><text>x</text></a></svg>');
+      expect(html).to.be('<svg><text>x</text></svg>');
+    });
+
+    it('should remove the styles loading resources', () => {
+      expect(sanitize('<div style="background:url(javascript:alert(1))">x</div>')).to.be('<div>x</div>');
+      expect(sanitize('<div style="color: red; background-color: url(http://evil.com/x.png)">x</div>'))
+        .to.be('<div style="color: red">x</div>');
+      expect(sanitize('<div style="width: expression(alert(1))">x</div>')).to.be('<div>x</div>');
+    });
+
+    it('should remove comments', () => {
+      expect(sanitize('<p>a<!-- <script>alert(1)</script> --></p>')).to.be('<p>a</p>');
+    });
+
+    it('should add rel=noopener to links with a target', () => {
+      expect(sanitize('<a href="https://jupyter.org/" target="_blank">x</a>'))
+        .to.be('<a href="https://jupyter.org/" target="_blank" rel="noopener noreferrer">x</a>');
+      expect(sanitize('<a href="https://jupyter.org/" target="_blank" rel="opener">x</a>'))
+        .to.be('<a href="https://jupyter.org/" target="_blank" rel="noopener noreferrer">x</a>');
+    });
+
+  });
+
+});
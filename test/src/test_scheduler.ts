@@ -0,0 +1,288 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import fakeserver = require('./fakeserver');
+import kernel = require('../../src/kernel');
+import nbformat = require('../../src/nbformat');
+import notebookmodel = require('../../src/notebookmodel');
+import scheduler = require('../../src/scheduler');
+import session = require('../../src/session');
+
+import FakeKernel = fakeserver.FakeKernel;
+import FakeServer = fakeserver.FakeServer;
+import IKernelMsg = kernel.IKernelMsg;
+import Kernel = kernel.Kernel;
+import ChangeType = notebookmodel.ChangeType;
+import INotebookChange = notebookmodel.INotebookChange;
+import NotebookModel = notebookmodel.NotebookModel;
+import ExecutionScheduler = scheduler.ExecutionScheduler;
+import NotebookSession = session.NotebookSession;
+
+
+/**
+ * Wait for a kernel to report a status.
+ */
+function waitForStatus(k: Kernel, status: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    var handler = (sender: Kernel, value: string) => {
+      if (value === status) {
+        k.statusChanged.disconnect(handler);
+        resolve();
+      }
+    };
+    k.statusChanged.connect(handler);
+  });
+}
+
+
+/**
+ * Wait for a scheduler to have no running or queued cell.
+ */
+function waitForQueue(queue: ExecutionScheduler): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    var handler = (sender: ExecutionScheduler, cell: nbformat.CodeCell) => {
+      if (!queue.runningCell && queue.queueLength === 0) {
+        queue.pendingChanged.disconnect(handler);
+        resolve();
+      }
+    };
+    queue.pendingChanged.connect(handler);
+  });
+}
+
+
+/**
+ * Wait for the kernel to ask a cell of a model for input.
+ */
+function waitForInputRequest(model: NotebookModel): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    var handler = (sender: NotebookModel, change: INotebookChange) => {
+      if (change.type === ChangeType.InputRequestChanged && change.newValue) {
+        model.changed.disconnect(handler);
+        resolve();
+      }
+    };
+    model.changed.connect(handler);
+  });
+}
+
+
+/**
+ * Answer an execute request like a kernel, with the given status.
+ */
+function replyExecute(msg: IKernelMsg, fk: FakeKernel, status: string): void {
+  var count = fk.nextExecutionCount();
+  var content: any = { status: status, execution_count: count };
+  if (status === 'error') {
+    content.ename = 'Error';
+    content.evalue = msg.content.code;
+    content.traceback = [];
+  }
+  fk.reply(msg, content);
+  fk.sendStatus('idle', msg);
+}
+
+
+describe('scheduler', () => {
+
+  var server: FakeServer;
+  var s: NotebookSession;
+  var model: NotebookModel;
+
+  beforeEach(() => {
+    server = new FakeServer();
+    server.install();
+    s = new NotebookSession({
+      notebookPath: 'test.ipynb',
+      kernelName: 'python3',
+      baseUrl: '/',
+      wsUrl: 'ws://localhost'
+    });
+  });
+
+  afterEach(() => {
+    if (model) {
+      model.dispose();
+      model = null;
+    }
+    s.kernel.disconnect();
+    // let the socket close before restoring the networking
+    return new Promise<void>((resolve, reject) => { setTimeout(resolve, 0); }).then(() => {
+      server.uninstall();
+    });
+  });
+
+  /**
+   * Start the session and create a model of the given cells once idle.
+   *
+   * The kernel fails the code `fail`, keeps `hang` running until it is
+   * interrupted, and asks for input for `input`.
+   */
+  function start(cells: nbformat.Cell[]): Promise<void> {
+    var ready = waitForStatus(s.kernel, 'ready');
+    return s.start().then(() => ready).then(() => waitForStatus(s.kernel, 'idle')).then(() => {
+      var fake = server.getKernel(s.kernel.id);
+      var running: IKernelMsg = null;
+      fake.respond('execute_request', (msg: IKernelMsg, fk: FakeKernel) => {
+        fk.sendStatus('busy', msg);
+        switch (msg.content.code) {
+          case 'fail':
+            replyExecute(msg, fk, 'error');
+            break;
+          case 'hang':
+            running = msg;
+            break;
+          case 'input':
+            running = msg;
+            fk.sendStdin(msg, 'input_request', { prompt: '? ', password: false });
+            break;
+          default:
+            replyExecute(msg, fk, 'ok');
+        }
+      });
+      fake.respond('interrupt', (msg: IKernelMsg, fk: FakeKernel) => {
+        if (running) {
+          replyExecute(running, fk, 'error');
+          running = null;
+        }
+      });
+      model = new NotebookModel({
+        metadata: {
+          kernelspec: { name: 'python3', display_name: 'Python 3' },
+          language_info: { name: 'python' }
+        },
+        nbformat: 4,
+        nbformat_minor: 0,
+        cells: cells
+      }, s);
+    });
+  }
+
+  /**
+   * Create code cells of the given sources.
+   */
+  function codeCells(sources: string[]): nbformat.Cell[] {
+    return sources.map(source => notebookmodel.createCell('code', source));
+  }
+
+  /**
+   * Get the code of the execute requests received by the kernel.
+   */
+  function executed(): string[] {
+    return server.getKernel(s.kernel.id).received.filter(msg => {
+      return msg.header.msgType === 'execute_request';
+    }).map(msg => msg.content.code);
+  }
+
+  describe('#runAll()', () => {
+
+    it('should run the code cells in order', () => {
+      var cells = codeCells(['a', 'b']);
+      cells.splice(1, 0, notebookmodel.createCell('markdown', 'text'));
+      return start(cells).then(() => {
+        var done = waitForQueue(model.scheduler);
+        model.scheduler.runAll();
+        expect(model.scheduler.isPending(<nbformat.CodeCell>cells[2])).to.be(true);
+        return done;
+      }).then(() => {
+        expect(executed()).to.eql(['a', 'b']);
+        expect((<nbformat.CodeCell>cells[2]).execution_count).to.be(2);
+      });
+    });
+
+  });
+
+  describe('#runAbove()', () => {
+
+    it('should run the cells above an index', () => {
+      return start(codeCells(['a', 'b', 'c'])).then(() => {
+        var done = waitForQueue(model.scheduler);
+        model.scheduler.runAbove(2);
+        return done;
+      }).then(() => {
+        expect(executed()).to.eql(['a', 'b']);
+      });
+    });
+
+  });
+
+  describe('#runBelow()', () => {
+
+    it('should run the cells from an index to the end', () => {
+      return start(codeCells(['a', 'b', 'c'])).then(() => {
+        var done = waitForQueue(model.scheduler);
+        model.scheduler.runBelow(1);
+        return done;
+      }).then(() => {
+        expect(executed()).to.eql(['b', 'c']);
+      });
+    });
+
+  });
+
+  describe('#stopOnError', () => {
+
+    it('should drop the queue when a cell fails', () => {
+      return start(codeCells(['a', 'fail', 'c'])).then(() => {
+        var done = waitForQueue(model.scheduler);
+        model.scheduler.runAll();
+        return done;
+      }).then(() => {
+        expect(executed()).to.eql(['a', 'fail']);
+      });
+    });
+
+    it('should keep running the queue when not set', () => {
+      return start(codeCells(['a', 'fail', 'c'])).then(() => {
+        var done = waitForQueue(model.scheduler);
+        model.scheduler.stopOnError = false;
+        model.scheduler.runAll();
+        return done;
+      }).then(() => {
+        expect(executed()).to.eql(['a', 'fail', 'c']);
+      });
+    });
+
+  });
+
+  describe('kernel status', () => {
+
+    it('should drop the queue when the kernel is interrupted', () => {
+      return start(codeCells(['hang', 'b', 'c'])).then(() => {
+        var busy = waitForStatus(s.kernel, 'busy');
+        model.scheduler.runAll();
+        return busy;
+      }).then(() => {
+        var done = waitForQueue(model.scheduler);
+        s.kernel.interrupt();
+        expect(model.scheduler.queueLength).to.be(0);
+        return done;
+      }).then(() => {
+        expect(executed()).to.eql(['hang']);
+      });
+    });
+
+    it('should give up on the running cell when the kernel restarts', () => {
+      var cells = <nbformat.CodeCell[]>codeCells(['input', 'b']);
+      return start(cells).then(() => {
+        var asked = waitForInputRequest(model);
+        model.scheduler.runAll();
+        return asked;
+      }).then(() => {
+        expect(model.getInputRequest(cells[0]).prompt).to.be('? ');
+        var done = waitForQueue(model.scheduler);
+        var ready = waitForStatus(s.kernel, 'ready');
+        s.kernel.restart();
+        return Promise.all([done, ready]);
+      }).then(() => {
+        expect(model.getInputRequest(cells[0])).to.be(null);
+        expect(model.scheduler.isPending(cells[1])).to.be(false);
+        expect(executed()).to.eql(['input']);
+      });
+    });
+
+  });
+
+});
@@ -0,0 +1,175 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import fakeserver = require('./fakeserver');
+import kernel = require('../../src/kernel');
+import session = require('../../src/session');
+
+import FakeServer = fakeserver.FakeServer;
+import IFakeRequest = fakeserver.IFakeRequest;
+import ISessionId = session.ISessionId;
+import Kernel = kernel.Kernel;
+import NotebookSession = session.NotebookSession;
+
+
+/**
+ * Wait for a kernel to report a status.
+ */
+function waitForStatus(k: Kernel, status: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    var handler = (sender: Kernel, value: string) => {
+      if (value === status) {
+        k.statusChanged.disconnect(handler);
+        resolve();
+      }
+    };
+    k.statusChanged.connect(handler);
+  });
+}
+
+
+describe('session', () => {
+
+  var server: FakeServer;
+  var s: NotebookSession;
+  var statuses: string[];
+
+  beforeEach(() => {
+    server = new FakeServer();
+    server.install();
+    s = new NotebookSession({
+      notebookPath: 'test.ipynb',
+      kernelName: 'python3',
+      baseUrl: '/',
+      wsUrl: 'ws://localhost'
+    });
+    statuses = [];
+    s.statusChanged.connect((sender: NotebookSession, status: string) => {
+      statuses.push(status);
+    });
+  });
+
+  afterEach(() => {
+    s.kernel.disconnect();
+    // let the socket close before restoring the networking
+    return new Promise<void>((resolve, reject) => { setTimeout(resolve, 0); }).then(() => {
+      server.uninstall();
+    });
+  });
+
+  describe('#constructor()', () => {
+
+    it('should keep the kernel name unless one is given', () => {
+      var unnamed = new NotebookSession({
+        notebookPath: 'test.ipynb',
+        baseUrl: '/',
+        wsUrl: 'ws://localhost'
+      });
+      expect(unnamed.kernel.name).to.be('unknown');
+      expect(s.kernel.name).to.be('python3');
+    });
+
+  });
+
+  describe('#start()', () => {
+
+    it('should start a kernel and connect to it', () => {
+      var ready = waitForStatus(s.kernel, 'ready');
+      return s.start().then((info: ISessionId) => {
+        expect(info.notebook.path).to.be('test.ipynb');
+        expect(statuses).to.eql(['kernelCreated']);
+        var kernels = server.listKernels();
+        expect(kernels.length).to.be(1);
+        expect(kernels[0].id).to.be(s.kernel.id);
+        expect(kernels[0].name).to.be('python3');
+        return ready;
+      }).then(() => {
+        expect(server.getKernel(s.kernel.id).connectionCount).to.be(1);
+      });
+    });
+
+    it('should post the notebook path and kernel name', () => {
+      return s.start().then(() => {
+        var posts = server.requests.filter((r: IFakeRequest) => r.method === 'POST');
+        expect(posts.length).to.be(1);
+        expect(posts[0].url).to.be('/api/sessions');
+        expect(posts[0].body.notebook.path).to.be('test.ipynb');
+        expect(posts[0].body.kernel.name).to.be('python3');
+      });
+    });
+
+    it('should reject an error response of the server', () => {
+      server.override('POST', /\/api\/sessions\/?$/, () => ({ status: 500 }));
+      return s.start().then(() => {
+        throw Error('The start should have failed');
+      }, (error: Error) => {
+        expect(error.message).to.be('Invalid response');
+        expect(server.listKernels().length).to.be(0);
+      });
+    });
+
+    it('should report a dead kernel when the server is unreachable', () => {
+      server.offline = true;
+      return s.start().then(() => {
+        expect(statuses).to.eql(['kernelDead']);
+      });
+    });
+
+  });
+
+  describe('#delete()', () => {
+
+    it('should shut down the session kernel', () => {
+      return s.start().then(() => s.delete()).then(() => {
+        expect(statuses).to.eql(['kernelCreated', 'kernelKilled']);
+        expect(server.listKernels().length).to.be(0);
+      });
+    });
+
+  });
+
+  describe('#renameNotebook()', () => {
+
+    it('should update the notebook path of the session', () => {
+      return s.start().then(() => s.renameNotebook('renamed.ipynb')).then((info: ISessionId) => {
+        expect(info.notebook.path).to.be('renamed.ipynb');
+        return NotebookSession.list('/');
+      }).then((list: ISessionId[]) => {
+        expect(list.map(info => info.notebook.path)).to.eql(['renamed.ipynb']);
+      });
+    });
+
+  });
+
+  describe('#changeKernel()', () => {
+
+    it('should restart the session with another installed kernel', () => {
+      server.kernelspecs.kernelspecs['julia'] = {
+        name: 'julia',
+        spec: { argv: ['julia'], display_name: 'Julia', language: 'julia' },
+        resources: {}
+      };
+      return s.start().then(() => s.changeKernel('julia')).then(() => {
+        expect(statuses).to.eql(['kernelCreated', 'kernelKilled', 'kernelChanged', 'kernelCreated']);
+        expect(s.kernel.name).to.be('julia');
+        expect(s.kernelSpec.spec.display_name).to.be('Julia');
+        var kernels = server.listKernels();
+        expect(kernels.length).to.be(1);
+        expect(kernels[0].name).to.be('julia');
+      });
+    });
+
+    it('should reject a kernel which is not installed', () => {
+      return s.start().then(() => s.changeKernel('nope')).then(() => {
+        throw Error('The kernel change should have failed');
+      }, (error: Error) => {
+        expect(error.message).to.be('No such kernel: nope');
+        expect(s.kernel.name).to.be('python3');
+      });
+    });
+
+  });
+
+});
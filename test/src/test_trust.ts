@@ -0,0 +1,184 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import nbformat = require('../../src/nbformat');
+import notebookmodel = require('../../src/notebookmodel');
+import trust = require('../../src/trust');
+
+import NotebookModel = notebookmodel.NotebookModel;
+
+
+/**
+ * Get the bytes of an ASCII string.
+ */
+function ascii(text: string): number[] {
+  var bytes: number[] = [];
+  for (var i = 0; i < text.length; i++) {
+    bytes.push(text.charCodeAt(i));
+  }
+  return bytes;
+}
+
+
+/**
+ * Create a list of a byte repeated a number of times.
+ */
+function repeat(byte: number, count: number): number[] {
+  var bytes: number[] = [];
+  for (var i = 0; i < count; i++) {
+    bytes.push(byte);
+  }
+  return bytes;
+}
+
+
+/**
+ * Format bytes as a hex string.
+ */
+function hex(bytes: number[]): string {
+  return bytes.map(b => (b < 16 ? '0' : '') + b.toString(16)).join('');
+}
+
+
+/**
+ * Create a notebook with one code cell and one stored output.
+ */
+function createNotebook(source: string): nbformat.Notebook {
+  var cell = <nbformat.CodeCell>notebookmodel.createCell('code', source);
+  cell.outputs = [{
+    output_type: 'display_data',
+    data: { 'text/html': '<b>' + source + '</b>' },
+    metadata: {}
+  }];
+  return {
+    metadata: {
+      kernelspec: { name: 'python3', display_name: 'Python 3' },
+      language_info: { name: 'python' }
+    },
+    nbformat: 4,
+    nbformat_minor: 0,
+    cells: [cell]
+  };
+}
+
+
+describe('trust', () => {
+
+  before(() => {
+    trust.setSecretStore({ getSecret: () => 'not so secret' });
+  });
+
+  after(() => {
+    trust.setSecretStore(new trust.LocalSecretStore());
+  });
+
+  describe('sha256()', () => {
+
+    it('should match the FIPS 180-2 test vectors', () => {
+      expect(hex(trust.sha256([]))).to.be(
+        'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+      expect(hex(trust.sha256(ascii('abc')))).to.be(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+      expect(hex(trust.sha256(ascii('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))).to.be(
+        '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+    });
+
+    it('should hash messages of several blocks', () => {
+      expect(hex(trust.sha256(repeat(0x61, 1000)))).to.be(
+        '41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3');
+    });
+
+  });
+
+  describe('hmacSHA256()', () => {
+
+    it('should match the RFC 4231 test vectors', () => {
+      var cases: [number[], number[], string][] = [
+        [repeat(0x0b, 20), ascii('Hi There'),
+         'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7'],
+        [ascii('Jefe'), ascii('what do ya want for nothing?'),
+         '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'],
+        [repeat(0xaa, 20), repeat(0xdd, 50),
+         '773ea91e36800e46854db8ebd09181a72959098b3ef8c122d9635514ced565fe'],
+        [[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25],
+         repeat(0xcd, 50),
+         '82558a389a443c0ea4cc819899f2083a85f0faa3e578f8077a2e3ff46729665b'],
+        [repeat(0xaa, 131), ascii('Test Using Larger Than Block-Size Key - Hash Key First'),
+         '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54'],
+        [repeat(0xaa, 131),
+         ascii('This is a test using a larger than block-size key and a larger than block-size ' +
+               'data. The key needs to be hashed before being used by the HMAC algorithm.'),
+         '9b09ffa71b942fcb27635fbcd5b0e944bfdc63644f0713938a7f51535c3a35e2']
+      ];
+      for (var i = 0; i < cases.length; i++) {
+        expect(hex(trust.hmacSHA256(cases[i][0], cases[i][1]))).to.be(cases[i][2]);
+      }
+    });
+
+    it('should match the truncated RFC 4231 test vector', () => {
+      var digest = trust.hmacSHA256(repeat(0x0c, 20), ascii('Test With Truncation'));
+      expect(hex(digest.slice(0, 16))).to.be('a3b6167473100ee06e0c796c2955552b');
+    });
+
+    it('should sign non-ASCII text by its UTF-8 bytes', () => {
+      var digest = trust.hmacSHA256(trust.utf8('kéy'), trust.utf8('hé€😀'));
+      expect(hex(digest)).to.be('1e1ff12ca95ec3f3ff21f651d77983a71e55a55f1cff341e0d21abee8305bb02');
+    });
+
+  });
+
+  describe('utf8()', () => {
+
+    it('should encode the characters of every length', () => {
+      expect(trust.utf8('hé€')).to.eql([104, 195, 169, 226, 130, 172]);
+    });
+
+    it('should encode a surrogate pair as one code point', () => {
+      expect(trust.utf8('😀')).to.eql([240, 159, 152, 128]);
+    });
+
+  });
+
+  describe('checkSignature()', () => {
+
+    it('should accept a signed notebook', () => {
+      var nb = trust.signNotebook(createNotebook('print("π ≈ 3.14 😀")'), true);
+      expect(nb.metadata.signature.indexOf(trust.SIGNATURE_SCHEME + ':')).to.be(0);
+      expect(trust.checkSignature(nb)).to.be(true);
+    });
+
+    it('should reject a changed notebook', () => {
+      var nb = trust.signNotebook(createNotebook('é😀'), true);
+      (<nbformat.CodeCell>nb.cells[0]).source = 'é😁';
+      expect(trust.checkSignature(nb)).to.be(false);
+    });
+
+    it('should reject an unsigned notebook', () => {
+      var nb = trust.signNotebook(createNotebook('x'), false);
+      expect(nb.metadata.signature).to.be(undefined);
+      expect(trust.checkSignature(nb)).to.be(false);
+    });
+
+  });
+
+  describe('NotebookModel#isOutputTrusted()', () => {
+
+    it('should trust the stored outputs of a signed notebook', () => {
+      var nb = trust.signNotebook(createNotebook('é'), true);
+      var model = new NotebookModel(nb);
+      expect(model.isOutputTrusted((<nbformat.CodeCell>nb.cells[0]).outputs[0])).to.be(true);
+      model.dispose();
+    });
+
+    it('should not trust the stored outputs of an unsigned notebook', () => {
+      var nb = createNotebook('é');
+      var model = new NotebookModel(nb);
+      expect(model.isOutputTrusted((<nbformat.CodeCell>nb.cells[0]).outputs[0])).to.be(false);
+      model.dispose();
+    });
+
+  });
+
+});
@@ -0,0 +1,89 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import nbformat = require('../../src/nbformat');
+import notebookmodel = require('../../src/notebookmodel');
+import undo = require('../../src/undo');
+
+import NotebookModel = notebookmodel.NotebookModel;
+import UndoManager = undo.UndoManager;
+
+
+/**
+ * Create a notebook with code cells of the given sources.
+ */
+function createNotebook(sources: string[]): nbformat.Notebook {
+  return {
+    metadata: {
+      kernelspec: { name: 'python3', display_name: 'Python 3' },
+      language_info: { name: 'python' }
+    },
+    nbformat: 4,
+    nbformat_minor: 0,
+    cells: sources.map(source => notebookmodel.createCell('code', source))
+  };
+}
+
+
+describe('undo', () => {
+
+  var model: NotebookModel;
+  var history: UndoManager;
+
+  beforeEach(() => {
+    model = new NotebookModel(createNotebook(['abcd']));
+    history = new UndoManager(model);
+  });
+
+  afterEach(() => {
+    history.dispose();
+    model.dispose();
+  });
+
+  /**
+   * Get the sources of the cells of the model.
+   */
+  function sources(): string[] {
+    return model.notebook.cells.map(cell => (<nbformat.CodeCell>cell).source);
+  }
+
+  describe('#undo()', () => {
+
+    it('should undo a split after typing in both cells', () => {
+      history.transact(() => { model.splitCell(0, 2); });
+      model.setSource(0, 'abX');
+      model.setSource(1, 'cdY');
+      history.undo();
+      expect(sources()).to.eql(['abcd']);
+      expect(history.canUndo).to.be(false);
+      history.redo();
+      expect(sources()).to.eql(['abX', 'cdY']);
+    });
+
+    it('should undo the typing of a cell moved by a later step', () => {
+      history.transact(() => { model.splitCell(0, 2); });
+      history.transact(() => { model.insertCell(0, notebookmodel.createCell('code', 'new')); });
+      model.setSource(2, 'cdY');
+      history.undo();
+      expect(sources()).to.eql(['ab', 'cdY']);
+      history.undo();
+      expect(sources()).to.eql(['abcd']);
+      history.redo();
+      history.redo();
+      expect(sources()).to.eql(['new', 'ab', 'cdY']);
+    });
+
+    it('should leave the typing of other cells to the editor', () => {
+      model.insertCell(1, notebookmodel.createCell('code', 'other'));
+      history.clear();
+      history.transact(() => { model.splitCell(0, 2); });
+      model.setSource(2, 'otherZ');
+      history.undo();
+      expect(sources()).to.eql(['abcd', 'otherZ']);
+    });
+
+  });
+
+});